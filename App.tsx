@@ -1,70 +1,20 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { TableOfContents } from './components/TableOfContents';
 import { PDFViewer } from './components/PDFViewer';
 import { ToolPanel } from './components/ToolPanel';
 import { Toaster } from './components/ui/sonner';
 import { Button } from './components/ui/button';
+import { usePdfDocument } from './hooks/use-pdf-document';
+import { useReadingPosition } from './hooks/use-reading-position';
+import { formatPagePosition } from './lib/page-labels';
+import { useApi, getRequestedDocumentId } from './lib/api-context';
+import { isAbortError } from './lib/api';
+import { isToolType, type ChatHistory, type Citation, type StudyModeData, type ToolType } from './lib/schemas';
 import { ArrowLeft, BookOpen, EyeOff } from 'lucide-react';
 import { toast } from 'sonner';
 
-// Types based on API response
-interface Document {
-  id: string;
-  user_id: string;
-  title: string;
-  file_name: string;
-  created_at: string;
-}
-
-interface Section {
-  section_id: string;
-  title: string;
-  page: number;
-}
-
-interface Chapter {
-  chapter_id: string;
-  chapter_number: string;
-  title: string;
-  sections: Section[] | null;
-}
-
-interface TOC {
-  book_id: string;
-  chapters: Chapter[];
-}
-
-interface LastPosition {
-  page_number: number;
-  chapter_id: string | null;
-  section_id: string | null;
-  updated_at: string;
-}
-
-interface ChatMessage {
-  id: string;
-  chat_session_id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  model_id: string | null;
-  tool_response_id: string | null;
-  tool_type: string | null;
-  created_at: string;
-}
-
-interface ChatHistory {
-  chat_session_id: string;
-  messages: ChatMessage[];
-}
-
-interface StudyModeData {
-  document: Document;
-  chat_session_id: string;
-  toc?: TOC; // Make TOC optional
-  last_position: LastPosition;
-}
-
 export default function App() {
+  const api = useApi();
   const [studyData, setStudyData] = useState<StudyModeData | null>(null);
   const [chatHistory, setChatHistory] = useState<ChatHistory | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
@@ -75,10 +25,11 @@ export default function App() {
   const [isLoading, setIsLoading] = useState(true);
   const [isPDFHidden, setIsPDFHidden] = useState(false);
   const [highlightedText, setHighlightedText] = useState<{ text: string; context: string; toolType?: string } | null>(null);
+  const [citationHighlight, setCitationHighlight] = useState<{ page: number; text: string } | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const toolPanelRef = useRef<{ 
     handleHighlightedText: (text: string, context: string, toolType?: string) => void;
-    handleDirectToolGeneration: (text: string, context: string, toolType: string) => void;
+    handleDirectToolGeneration: (text: string, context: string, toolType: ToolType) => void;
   }>(null);
 
   // Apply dark theme by default
@@ -86,11 +37,23 @@ export default function App() {
     document.documentElement.classList.add('dark');
   }, []);
 
-  // Calculate total pages from TOC or default
-  const totalPages = studyData?.toc ? 
-    Math.max(...studyData.toc.chapters.flatMap(chapter => 
-      chapter.sections ? chapter.sections.map(section => section.page) : [1]
-    )) : 100; // Default fallback
+  // Page count and printed page labels come from the loaded document itself
+  const studyDocument = studyData?.document;
+  const documentSource = useMemo(
+    () => studyDocument ? api.getDocumentSource(studyDocument) : null,
+    [api, studyDocument]
+  );
+  const { pdf, pageLabels, error: pdfError } = usePdfDocument(documentSource);
+  const totalPages = pageLabels?.numPages ?? null;
+
+  // Opening page and later moves are reconciled with other devices by the hook
+  const { savePosition } = useReadingPosition({
+    api,
+    documentId: studyDocument?.id ?? null,
+    serverPosition: studyData?.last_position ?? null,
+    onNavigate: setCurrentPage,
+    getPageLabel: pageLabels?.getLabel,
+  });
 
   // Check if TOC is available
   const hasTOC = studyData?.toc?.chapters && studyData.toc.chapters.length > 0;
@@ -98,145 +61,35 @@ export default function App() {
   // Fixed TOC width in pixels (0 when no TOC or when PDF is hidden)
   const tocWidth = !hasTOC || isPDFHidden ? 0 : (isTOCCollapsed ? 48 : 240);
   
-  // Load chat history
-  const loadChatHistory = async (chatSessionId: string) => {
-    try {
-      // Mock API response based on provided structure
-      const mockChatHistory: ChatHistory = {
-        chat_session_id: chatSessionId,
-        messages: [
-          {
-            id: "790689bb-dc15-47df-a292-a123d57fded5",
-            chat_session_id: chatSessionId,
-            role: "user",
-            content: "what is a block in dds ? can you explain",
-            model_id: null,
-            tool_response_id: null,
-            tool_type: null,
-            created_at: "2025-07-18T00:18:56.144657+00:00"
-          },
-          {
-            id: "48743bba-6944-4c83-ac61-4f551f156fb5",
-            chat_session_id: chatSessionId,
-            role: "assistant",
-            content: "In the context of Distributed Data Storage (DDS) and blockchain, a block is a fundamental unit of data that contains a set of transactions or records. Think of it as a digital container that holds a collection of information, similar to a page in a ledger book.\n\nEach block has a unique identifier, called a \"block hash,\" which helps to",
-            model_id: "d50a33ce-2462-4a5a-9aa7-efc2d1749745",
-            tool_response_id: "f97c7715-91c0-452d-b3d9-49575a819751",
-            tool_type: "diagram",
-            created_at: "2025-07-18T00:18:57.169477+00:00"
-          },
-          {
-            id: "50f05769-4485-4d7e-b63b-0c4ca1fea93c",
-            chat_session_id: chatSessionId,
-            role: "user",
-            content: "can you give me the exact text that was given to you as the page content please",
-            model_id: null,
-            tool_response_id: null,
-            tool_type: null,
-            created_at: "2025-07-18T00:24:33.859215+00:00"
-          },
-          {
-            id: "dfe42e62-3883-4880-9a22-998367643638",
-            chat_session_id: chatSessionId,
-            role: "assistant",
-            content: "The exact text that was given to me as the page content is:\n\n```\nHOW BLOCKCHAIN WORKS?\n```",
-            model_id: "d50a33ce-2462-4a5a-9aa7-efc2d1749745",
-            tool_response_id: null,
-            tool_type: null,
-            created_at: "2025-07-18T00:24:34.545374+00:00"
-          }
-        ]
-      };
-      
-      setChatHistory(mockChatHistory);
-    } catch (error) {
-      console.error('Failed to load chat history:', error);
-    }
-  };
-  
   // Initialize study mode data
   useEffect(() => {
+    const controller = new AbortController();
+
     const initializeStudyMode = async () => {
       try {
         setIsLoading(true);
-        // Mock API response - sometimes without TOC
-        const mockData: StudyModeData = {
-          document: {
-            id: "a4b8b023-5d0f-47fd-9c11-de9c38808600",
-            user_id: "db391bfe-d580-4855-b4be-19ec6d45e7cc",
-            title: "Introduction to Algorithms",
-            file_name: "Introduction_to_algorithms-6-12.pdf",
-            created_at: "2025-07-10T23:06:34.028593"
-          },
-          chat_session_id: "8bb10527-c62d-43e1-bd81-c3a44b590262",
-          // Conditionally include TOC
-          toc: {
-            book_id: "a4b8b023-5d0f-47fd-9c11-de9c38808600",
-            chapters: [
-              {
-                chapter_id: "10273a10-b1ea-4514-b6c7-d1bf2d20a856",
-                chapter_number: "1",
-                title: "Chapter 1: Foundations",
-                sections: [
-                  {
-                    section_id: "06671124-438a-424b-84cc-43ef360501b0",
-                    title: "1.1 Algorithms",
-                    page: 5
-                  },
-                  {
-                    section_id: "b8e19ca7-0dab-49cc-832a-91a099c32031",
-                    title: "1.2 Algorithms as a technology",
-                    page: 11
-                  },
-                  {
-                    section_id: "6a0fe27b-a200-4777-becb-5ec0c62b6cee",
-                    title: "2 Getting Started",
-                    page: 16
-                  }
-                ]
-              },
-              {
-                chapter_id: "0ada99be-dfc6-4efa-acca-c91d67458e4e",
-                chapter_number: "2",
-                title: "Chapter 2: Sorting and Order Statistics",
-                sections: [
-                  {
-                    section_id: "d945fa7c-2d8d-4302-811c-05a7ab9646dc",
-                    title: "6 Heapsort",
-                    page: 151
-                  },
-                  {
-                    section_id: "abcdfe9d-b9cd-4820-ae8d-5ba3a9c16cb6",
-                    title: "6.1 Heaps",
-                    page: 151
-                  }
-                ]
-              }
-            ]
-          },
-          last_position: {
-            page_number: 12,
-            chapter_id: null,
-            section_id: null,
-            updated_at: "2025-07-18T01:56:41.864035+00:00"
-          }
-        };
-
-        setStudyData(mockData);
-        setCurrentPage(mockData.last_position.page_number);
-        
-        // Load chat history
-        await loadChatHistory(mockData.chat_session_id);
+        const data = await api.getStudyMode(getRequestedDocumentId(), { signal: controller.signal });
+        setStudyData(data);
+
+        // Chat history is not essential for reading; a failure here should not block the document
+        try {
+          setChatHistory(await api.getChatHistory(data.chat_session_id, { signal: controller.signal }));
+        } catch (error) {
+          if (isAbortError(error)) return;
+          console.error('Failed to load chat history:', error);
+        }
       } catch (error) {
+        if (isAbortError(error)) return;
         console.error('Failed to initialize study mode:', error);
         toast.error('Failed to load study materials');
       } finally {
-        setIsLoading(false);
+        if (!controller.signal.aborted) setIsLoading(false);
       }
     };
 
     initializeStudyMode();
-  }, []);
+    return () => controller.abort();
+  }, [api]);
 
   // Handle responsive behavior
   useEffect(() => {
@@ -303,19 +156,33 @@ export default function App() {
     }
   }, [isResizing, handleMouseMove, handleMouseUp]);
 
-  const updatePosition = async (page: number, sectionId?: string, chapterId?: string) => {
-    if (!studyData) return;
-    try {
-      console.log('Position updated:', { page, sectionId, chapterId });
-    } catch (error) {
-      console.error('Failed to update position:', error);
-    }
+  const handlePageChange = (page: number, sectionId?: string, chapterId?: string) => {
+    setCurrentPage(page);
+    setCitationHighlight(null);
+    savePosition(page, sectionId, chapterId);
+    // Quick clicks through pages update one toast instead of stacking one per page
+    toast.success(`Navigated to page ${pageLabels?.getLabel(page) ?? page}`, { id: 'page-navigation' });
   };
 
-  const handlePageChange = (page: number, sectionId?: string, chapterId?: string) => {
+  // Scrolling only moves the reading position; highlights and toasts are for explicit navigation
+  const handlePageScroll = (page: number) => {
     setCurrentPage(page);
-    updatePosition(page, sectionId, chapterId);
-    toast.success(`Navigated to page ${page}`);
+    savePosition(page);
+  };
+
+  // Opens the cited page and highlights the quoted passage on it
+  const handleCitationSelect = (citation: Citation) => {
+    if (totalPages !== null && citation.page > totalPages) {
+      toast.error(`Page ${citation.page} is not in this document`);
+      return;
+    }
+
+    const chapter = citation.section_id
+      ? studyData?.toc?.chapters.find(c => c.sections?.some(s => s.section_id === citation.section_id))
+      : undefined;
+    handlePageChange(citation.page, citation.section_id ?? undefined, chapter?.chapter_id);
+    setCitationHighlight(citation.quote ? { page: citation.page, text: citation.quote } : null);
+    setIsPDFHidden(false);
   };
 
   const handleTOCToggle = () => {
@@ -337,7 +204,7 @@ export default function App() {
     
     // Send to ToolPanel for processing
     if (toolPanelRef.current) {
-      if (toolType && toolType !== 'ask') {
+      if (toolType && isToolType(toolType)) {
         // Direct tool generation for specific tools
         toolPanelRef.current.handleDirectToolGeneration(selectedText, context, toolType);
       } else {
@@ -378,7 +245,8 @@ export default function App() {
             <div className="flex-1 min-w-0">
               <h1 className="text-base truncate">{studyData.document.title}</h1>
               <p className="text-xs text-muted-foreground">
-                {!isPDFHidden && `Page ${currentPage} of ${totalPages} • ${Math.round((currentPage / totalPages) * 100)}% complete`}
+                {!isPDFHidden && pageLabels && totalPages && `Page ${formatPagePosition(pageLabels, currentPage)} • ${Math.round((currentPage / totalPages) * 100)}% complete`}
+                {!isPDFHidden && !pageLabels && `Page ${currentPage}`}
                 {isPDFHidden && 'Study Mode - Document Hidden'}
               </p>
             </div>
@@ -422,6 +290,7 @@ export default function App() {
                   currentPage={currentPage}
                   onPageSelect={handlePageChange}
                   tocData={studyData.toc!}
+                  pageLabels={pageLabels}
                 />
               </div>
             )}
@@ -430,10 +299,15 @@ export default function App() {
               <div className="flex-1 min-h-0 overflow-hidden">
                 <PDFViewer
                   currentPage={currentPage}
-                  totalPages={totalPages}
                   onPageChange={handlePageChange}
+                  onPageScroll={handlePageScroll}
                   documentId={studyData.document.id}
                   fileName={studyData.document.file_name}
+                  pdf={pdf}
+                  pageLabels={pageLabels}
+                  toc={studyData.toc}
+                  loadError={pdfError}
+                  highlight={citationHighlight}
                   onTextHighlight={handleTextHighlight}
                 />
               </div>
@@ -446,8 +320,10 @@ export default function App() {
                 documentId={studyData.document.id}
                 currentPage={currentPage}
                 tocData={studyData.toc}
+                pageLabels={pageLabels}
                 initialChatHistory={chatHistory}
                 onTextHighlight={handleTextHighlight}
+                onCitationSelect={handleCitationSelect}
               />
             </div>
           </div>
@@ -465,6 +341,7 @@ export default function App() {
                   currentPage={currentPage}
                   onPageSelect={handlePageChange}
                   tocData={studyData.toc!}
+                  pageLabels={pageLabels}
                 />
               </div>
             )}
@@ -479,10 +356,15 @@ export default function App() {
               >
                 <PDFViewer
                   currentPage={currentPage}
-                  totalPages={totalPages}
                   onPageChange={handlePageChange}
+                  onPageScroll={handlePageScroll}
                   documentId={studyData.document.id}
                   fileName={studyData.document.file_name}
+                  pdf={pdf}
+                  pageLabels={pageLabels}
+                  toc={studyData.toc}
+                  loadError={pdfError}
+                  highlight={citationHighlight}
                   onTextHighlight={handleTextHighlight}
                 />
               </div>
@@ -514,8 +396,10 @@ export default function App() {
                 documentId={studyData.document.id}
                 currentPage={currentPage}
                 tocData={studyData.toc}
+                pageLabels={pageLabels}
                 initialChatHistory={chatHistory}
                 onTextHighlight={handleTextHighlight}
+                onCitationSelect={handleCitationSelect}
               />
             </div>
           </>
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Highlighter, Trash2, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { ScrollArea } from './ui/scroll-area';
+import { Textarea } from './ui/textarea';
+import { HIGHLIGHT_COLORS, type Annotation, type HighlightColor } from '../lib/annotations';
+
+const getSwatch = (color: HighlightColor) => HIGHLIGHT_COLORS.find((option) => option.id === color)?.swatch ?? 'bg-yellow-300';
+
+interface AnnotationItemProps {
+  annotation: Annotation;
+  isActive: boolean;
+  onSelect: () => void;
+  onUpdate: (changes: Partial<Pick<Annotation, 'color' | 'note'>>) => void;
+  onRemove: () => void;
+}
+
+const AnnotationItem: React.FC<AnnotationItemProps> = ({ annotation, isActive, onSelect, onUpdate, onRemove }) => {
+  const [note, setNote] = useState(annotation.note);
+
+  // Picks up edits made in another tab
+  useEffect(() => {
+    setNote(annotation.note);
+  }, [annotation.note]);
+
+  const saveNote = () => {
+    if (note !== annotation.note) onUpdate({ note });
+  };
+
+  return (
+    <div className={`rounded-lg border p-2 space-y-2 text-xs transition-colors ${isActive ? 'border-primary bg-primary/5' : ''}`}>
+      <button type="button" onClick={onSelect} className="flex w-full gap-2 text-left">
+        <span className={`w-1 flex-shrink-0 rounded-full ${getSwatch(annotation.color)}`} />
+        <span className="line-clamp-3">{annotation.exact}</span>
+      </button>
+
+      {isActive ? (
+        <>
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            onBlur={saveNote}
+            placeholder="Add a note..."
+            className="min-h-16 text-xs"
+          />
+          <div className="flex items-center justify-between">
+            <div className="flex gap-1">
+              {HIGHLIGHT_COLORS.map((color) => (
+                <button
+                  key={color.id}
+                  type="button"
+                  onClick={() => onUpdate({ color: color.id })}
+                  className={`h-4 w-4 rounded-full ${color.swatch} ${annotation.color === color.id ? 'ring-2 ring-offset-1 ring-primary' : ''}`}
+                  title={color.label}
+                />
+              ))}
+            </div>
+            <Button variant="ghost" size="sm" onClick={onRemove} className="h-6 w-6 p-0" title="Delete highlight">
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        </>
+      ) : (
+        annotation.note.trim() && <p className="pl-3 text-muted-foreground whitespace-pre-wrap">{annotation.note}</p>
+      )}
+    </div>
+  );
+};
+
+interface AnnotationsSidebarProps {
+  // Page order, then reading order
+  annotations: Annotation[];
+  activeId: string | null;
+  getPageLabel: (page: number) => string;
+  onSelect: (annotation: Annotation) => void;
+  onUpdate: (id: string, changes: Partial<Pick<Annotation, 'color' | 'note'>>) => void;
+  onRemove: (id: string) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+// Every highlight of the document grouped by page; the selected one can be edited
+export const AnnotationsSidebar: React.FC<AnnotationsSidebarProps> = ({
+  annotations,
+  activeId,
+  getPageLabel,
+  onSelect,
+  onUpdate,
+  onRemove,
+  onExport,
+  onClose,
+}) => {
+  const [colorFilter, setColorFilter] = useState<HighlightColor | null>(null);
+  const shown = colorFilter ? annotations.filter((annotation) => annotation.color === colorFilter) : annotations;
+  const pages = Array.from(new Set(shown.map((annotation) => annotation.page)));
+
+  return (
+    <div className="w-72 flex-shrink-0 border-l bg-card flex flex-col">
+      <div className="p-2 border-b space-y-2">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Highlighter className="w-4 h-4" />
+            <h3 className="text-sm font-medium">Highlights</h3>
+            <span className="text-xs text-muted-foreground">{annotations.length}</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" onClick={onExport} disabled={annotations.length === 0} className="h-6 w-6 p-0" title="Export as Markdown">
+              <Download className="w-3 h-3" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onClose} className="h-6 w-6 p-0">
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        </div>
+        <div className="flex gap-1">
+          {HIGHLIGHT_COLORS.map((color) => (
+            <button
+              key={color.id}
+              type="button"
+              onClick={() => setColorFilter(colorFilter === color.id ? null : color.id)}
+              className={`h-4 w-4 rounded-full ${color.swatch} ${colorFilter === color.id ? 'ring-2 ring-offset-1 ring-primary' : ''}`}
+              title={`Show ${color.label.toLowerCase()} highlights only`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="p-2 space-y-3">
+          {shown.length === 0 && (
+            <p className="text-center text-xs text-muted-foreground py-4">
+              {annotations.length === 0 ? 'Select text on a page and pick a colour to highlight it.' : 'No highlights in this colour.'}
+            </p>
+          )}
+          {pages.map((page) => (
+            <div key={page} className="space-y-1">
+              <h4 className="text-xs font-medium text-muted-foreground">Page {getPageLabel(page)}</h4>
+              {shown.filter((annotation) => annotation.page === page).map((annotation) => (
+                <AnnotationItem
+                  key={annotation.id}
+                  annotation={annotation}
+                  isActive={annotation.id === activeId}
+                  onSelect={() => onSelect(annotation)}
+                  onUpdate={(changes) => onUpdate(annotation.id, changes)}
+                  onRemove={() => onRemove(annotation.id)}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
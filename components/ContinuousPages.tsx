@@ -0,0 +1,68 @@
+import React, { useLayoutEffect, useRef } from 'react';
+import { usePageSlots } from '../hooks/use-page-slots';
+import { useFirstPageSize } from '../hooks/use-first-page-size';
+import type { PDFDocumentProxy } from '../lib/pdf';
+
+interface ContinuousPagesProps {
+  pdf: PDFDocumentProxy;
+  scale: number;
+  currentPage: number;
+  // The element that scrolls the pages
+  scrollRoot: HTMLElement | null;
+  onVisiblePageChange: (page: number) => void;
+  renderPage: (pageNumber: number) => React.ReactNode;
+}
+
+// Every page in one vertical column. Only the pages on or near the screen are
+// rendered; the others are placeholders of the same size, so the scrollbar and
+// scroll position stay meaningful.
+export const ContinuousPages: React.FC<ContinuousPagesProps> = ({
+  pdf,
+  scale,
+  currentPage,
+  scrollRoot,
+  onVisiblePageChange,
+  renderPage,
+}) => {
+  const pageSize = useFirstPageSize(pdf);
+  // The page in view, whether it was scrolled to or picked elsewhere
+  const shownPageRef = useRef<number | null>(null);
+
+  // Landing on a page that was scrolled to is not a new page
+  const nearPages = usePageSlots(scrollRoot, pdf.numPages, (page) => {
+    if (page === shownPageRef.current) return;
+    shownPageRef.current = page;
+    onVisiblePageChange(page);
+  });
+
+  // Pages picked elsewhere (navigation, contents, search) are scrolled to;
+  // pages reached by scrolling are already in view
+  useLayoutEffect(() => {
+    if (!scrollRoot || currentPage === shownPageRef.current) return;
+    shownPageRef.current = currentPage;
+    scrollRoot.querySelector(`[data-page-slot="${currentPage}"]`)?.scrollIntoView({ block: 'start' });
+  }, [currentPage, scrollRoot]);
+
+  // Placeholders change size once the first page is measured, so the shown page
+  // is brought back; zooming keeps its own scroll anchor
+  useLayoutEffect(() => {
+    const page = shownPageRef.current;
+    if (!scrollRoot || page === null) return;
+    scrollRoot.querySelector(`[data-page-slot="${page}"]`)?.scrollIntoView({ block: 'start' });
+  }, [pageSize, scrollRoot]);
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      {Array.from({ length: pdf.numPages }, (_, i) => i + 1).map((pageNumber) => (
+        <div
+          key={pageNumber}
+          data-page-slot={pageNumber}
+          className={nearPages.has(pageNumber) ? undefined : 'rounded-sm bg-white/5 shadow-lg'}
+          style={{ minWidth: `${pageSize.width * scale}px`, minHeight: `${pageSize.height * scale}px` }}
+        >
+          {nearPages.has(pageNumber) && renderPage(pageNumber)}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,375 @@
+import React, { useMemo, useState } from 'react';
+import { Library, Loader2, Merge, Pencil, Plus, RotateCcw, Search, Star, Trash2, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { ScrollArea } from './ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { FlashcardExportMenu } from './FlashcardExportMenu';
+import { FlashcardImport } from './FlashcardImport';
+import { ApiError } from '../lib/api';
+import {
+  UNSORTED_DECK_ID,
+  findDuplicateGroups,
+  getLibraryCards,
+  groupByChapter,
+  matchesSearch,
+  type LibraryCard,
+} from '../lib/flashcard-decks';
+import type { ImportedCard } from '../lib/flashcard-export';
+import { useFlashcardLibrary } from '../hooks/use-flashcard-library';
+import type { FlashCard, TOC } from '../lib/schemas';
+
+type CardFields = Omit<FlashCard, 'id'>;
+
+const ALL_CARDS = 'all';
+
+const EMPTY_FIELDS: CardFields = { question: '', answer: '', topic: '', difficulty: 2 };
+
+const getErrorMessage = (action: string, error: unknown) => (
+  error instanceof ApiError ? `Failed to ${action}: ${error.message}` : `Failed to ${action}`
+);
+
+// Question/answer editor shared by "New card" and inline editing
+const CardForm: React.FC<{
+  initial: CardFields;
+  submitLabel: string;
+  isSaving: boolean;
+  onSubmit: (fields: CardFields) => void;
+  onCancel: () => void;
+  children?: React.ReactNode;
+}> = ({ initial, submitLabel, isSaving, onSubmit, onCancel, children }) => {
+  const [fields, setFields] = useState(initial);
+  const canSubmit = fields.question.trim().length > 0 && fields.answer.trim().length > 0 && !isSaving;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    onSubmit({ ...fields, question: fields.question.trim(), answer: fields.answer.trim(), topic: fields.topic.trim() });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        value={fields.question}
+        onChange={(e) => setFields({ ...fields, question: e.target.value })}
+        placeholder="Question"
+        className="text-xs min-h-12 resize-y"
+        autoFocus
+      />
+      <Textarea
+        value={fields.answer}
+        onChange={(e) => setFields({ ...fields, answer: e.target.value })}
+        placeholder="Answer"
+        className="text-xs min-h-12 resize-y"
+      />
+      <div className="flex items-center gap-2">
+        <Input
+          value={fields.topic}
+          onChange={(e) => setFields({ ...fields, topic: e.target.value })}
+          placeholder="Topic"
+          className="h-7 text-xs flex-1"
+        />
+        <div className="flex items-center gap-0.5" role="radiogroup" aria-label="Difficulty">
+          {[1, 2, 3].map((level) => (
+            <button
+              key={level}
+              type="button"
+              role="radio"
+              aria-checked={fields.difficulty === level}
+              onClick={() => setFields({ ...fields, difficulty: level })}
+              className="p-0.5 text-yellow-500"
+              title={`Difficulty ${level}`}
+            >
+              <Star className={`w-3 h-3 ${level <= fields.difficulty ? 'fill-current' : ''}`} />
+            </button>
+          ))}
+        </div>
+      </div>
+      {children}
+      <div className="flex justify-end gap-1">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isSaving} className="h-6 px-2 text-xs">
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={!canSubmit} className="h-6 px-2 gap-1 text-xs">
+          {isSaving && <Loader2 className="w-3 h-3 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+// Browse and curate every flashcard generated for the document, grouped by chapter
+export const DeckLibraryOverlay: React.FC<{
+  documentId: string;
+  toc?: TOC;
+  // Chapter preselected for new cards, usually the one being read
+  currentChapterId: string | null;
+  onClose: () => void;
+}> = ({ documentId, toc, currentChapterId, onClose }) => {
+  const { decks, error, reload, saveDeck, addCards } = useFlashcardLibrary(documentId);
+  const [selectedDeck, setSelectedDeck] = useState(ALL_CARDS);
+  const [query, setQuery] = useState('');
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [newCardChapter, setNewCardChapter] = useState(currentChapterId ?? UNSORTED_DECK_ID);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const cards = useMemo(() => getLibraryCards(decks ?? []), [decks]);
+  const chapterDecks = useMemo(() => groupByChapter(cards, toc), [cards, toc]);
+  const duplicateGroups = useMemo(() => findDuplicateGroups(cards), [cards]);
+  const duplicateCount = duplicateGroups.reduce((count, group) => count + group.length - 1, 0);
+
+  const selectedChapterDeck = chapterDecks.find((deck) => deck.id === selectedDeck);
+  const deckCards = useMemo(() => (selectedDeck === ALL_CARDS ? cards : selectedChapterDeck?.cards ?? []), [cards, selectedDeck, selectedChapterDeck]);
+  const visibleCards = useMemo(() => deckCards.filter((card) => matchesSearch(card, query)), [deckCards, query]);
+
+  // Card ids repeat across stored decks, so exports use the library key instead
+  const exportCards = useMemo(() => deckCards.map(({ key, card }) => ({ ...card, id: key })), [deckCards]);
+
+  const getDeckCards = (deckId: string) => decks?.find((deck) => deck.id === deckId)?.response ?? [];
+
+  // Runs one library change at a time; failures keep the form open for another try
+  const runSave = async (action: string, change: () => Promise<void>): Promise<boolean> => {
+    setIsSaving(true);
+    try {
+      await change();
+      return true;
+    } catch (saveError) {
+      toast.error(getErrorMessage(action, saveError));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = async (libraryCard: LibraryCard, fields: CardFields) => {
+    const saved = await runSave('save card', () => saveDeck(
+      libraryCard.deckId,
+      getDeckCards(libraryCard.deckId).map((card) => (card.id === libraryCard.card.id ? { ...card, ...fields } : card))
+    ));
+    if (saved) setEditingKey(null);
+  };
+
+  const handleDelete = async (libraryCard: LibraryCard) => {
+    const deleted = await runSave('delete card', () => saveDeck(
+      libraryCard.deckId,
+      getDeckCards(libraryCard.deckId).filter((card) => card.id !== libraryCard.card.id)
+    ));
+    if (deleted) toast.success('Card deleted');
+  };
+
+  const handleCreate = async (fields: CardFields) => {
+    const chapterId = newCardChapter === UNSORTED_DECK_ID ? null : newCardChapter;
+    const created = await runSave('add card', () => addCards(chapterId, [fields]));
+    if (created) {
+      setIsCreating(false);
+      toast.success('Card added');
+    }
+  };
+
+  const handleImport = async (chapterId: string | null, imported: ImportedCard[]) => {
+    const saved = await runSave('import cards', () => addCards(chapterId, imported));
+    if (saved) {
+      setIsImporting(false);
+      toast.success(`Imported ${imported.length} card${imported.length === 1 ? '' : 's'}`);
+    }
+  };
+
+  // Keeps the oldest card of each duplicate group; each affected deck is saved once
+  const handleMergeDuplicates = async () => {
+    const removals = new Map<string, Set<string>>();
+    duplicateGroups.forEach((group) => group.slice(1).forEach((duplicate) => {
+      removals.set(duplicate.deckId, (removals.get(duplicate.deckId) ?? new Set()).add(duplicate.card.id));
+    }));
+
+    const merged = await runSave('merge duplicates', async () => {
+      for (const [deckId, cardIds] of removals) {
+        await saveDeck(deckId, getDeckCards(deckId).filter((card) => !cardIds.has(card.id)));
+      }
+    });
+    if (merged) toast.success(`Removed ${duplicateCount} duplicate card${duplicateCount === 1 ? '' : 's'}`);
+  };
+
+  const renderCard = (libraryCard: LibraryCard) => {
+    const { card } = libraryCard;
+    if (editingKey === libraryCard.key) {
+      return (
+        <Card key={libraryCard.key}>
+          <CardContent className="p-2">
+            <CardForm
+              initial={{ question: card.question, answer: card.answer, topic: card.topic, difficulty: card.difficulty }}
+              submitLabel="Save"
+              isSaving={isSaving}
+              onSubmit={(fields) => handleEdit(libraryCard, fields)}
+              onCancel={() => setEditingKey(null)}
+            />
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return (
+      <Card key={libraryCard.key} className="group">
+        <CardContent className="p-2 space-y-1">
+          <div className="flex items-start justify-between gap-2">
+            <p className="text-xs font-medium select-text">{card.question}</p>
+            <div className="flex gap-0.5 flex-shrink-0 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+              <Button variant="ghost" size="sm" onClick={() => setEditingKey(libraryCard.key)} disabled={isSaving} className="h-5 w-5 p-0" title="Edit card">
+                <Pencil className="w-3 h-3" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => handleDelete(libraryCard)} disabled={isSaving} className="h-5 w-5 p-0" title="Delete card">
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground select-text">{card.answer}</p>
+          {card.topic && <Badge variant="outline" className="text-[10px]">{card.topic}</Badge>}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderBody = () => {
+    if (error) {
+      return (
+        <Card>
+          <CardContent className="pt-4 space-y-2 text-center">
+            <p className="text-sm text-destructive">{error}</p>
+            <Button variant="outline" size="sm" onClick={reload} className="h-7 gap-1 text-xs">
+              <RotateCcw className="w-3 h-3" />
+              Try again
+            </Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    if (!decks) {
+      return (
+        <div className="flex items-center justify-center gap-2 py-8 text-xs text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading flashcards...
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <Select value={selectedDeck} onValueChange={setSelectedDeck}>
+          <SelectTrigger className="h-7 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_CARDS} className="text-xs">All cards ({cards.length})</SelectItem>
+            {chapterDecks.map((deck) => (
+              <SelectItem key={deck.id} value={deck.id} className="text-xs">
+                {deck.title} ({deck.cards.length})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-1">
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-muted-foreground" />
+            <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search cards..." className="h-7 pl-6 text-xs" />
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setIsCreating(true)} disabled={isCreating} className="h-7 px-2 gap-1 text-xs">
+            <Plus className="w-3 h-3" />
+            New card
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setIsImporting(true)} disabled={isImporting} className="h-7 w-7 p-0" title="Import from CSV/TSV">
+            <Upload className="w-3 h-3" />
+          </Button>
+        </div>
+
+        {isImporting && (
+          <Card>
+            <CardContent className="p-2">
+              <FlashcardImport
+                toc={toc}
+                defaultChapterId={selectedChapterDeck && selectedChapterDeck.id !== UNSORTED_DECK_ID ? selectedChapterDeck.id : currentChapterId}
+                onImport={handleImport}
+                onCancel={() => setIsImporting(false)}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {duplicateCount > 0 && (
+          <div className="flex items-center justify-between gap-2 rounded border border-dashed p-2 text-xs">
+            <span className="text-muted-foreground">
+              {duplicateCount} duplicate card{duplicateCount === 1 ? '' : 's'} across your decks
+            </span>
+            <Button variant="outline" size="sm" onClick={handleMergeDuplicates} disabled={isSaving} className="h-6 px-2 gap-1 text-xs">
+              <Merge className="w-3 h-3" />
+              Merge
+            </Button>
+          </div>
+        )}
+
+        {isCreating && (
+          <Card>
+            <CardContent className="p-2">
+              <CardForm initial={EMPTY_FIELDS} submitLabel="Add card" isSaving={isSaving} onSubmit={handleCreate} onCancel={() => setIsCreating(false)}>
+                <Select value={newCardChapter} onValueChange={setNewCardChapter}>
+                  <SelectTrigger className="h-7 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {toc?.chapters.map((chapter) => (
+                      <SelectItem key={chapter.chapter_id} value={chapter.chapter_id} className="text-xs">
+                        {chapter.chapter_number}. {chapter.title}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={UNSORTED_DECK_ID} className="text-xs">No chapter</SelectItem>
+                  </SelectContent>
+                </Select>
+              </CardForm>
+            </CardContent>
+          </Card>
+        )}
+
+        {visibleCards.length > 0 ? (
+          <div className="space-y-2">{visibleCards.map(renderCard)}</div>
+        ) : (
+          <p className="py-6 text-center text-xs text-muted-foreground">
+            {cards.length === 0 ? 'No flashcards yet. Generate some from the chat or add your own.' : 'No cards match your search.'}
+          </p>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="absolute inset-0 bg-background/98 backdrop-blur-sm z-50 overflow-hidden">
+      <ScrollArea className="h-full">
+        <div className="p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Library className="w-4 h-4 text-blue-500" />
+              <h3 className="text-sm font-medium">Flashcard decks</h3>
+            </div>
+            <div className="flex items-center gap-1">
+              <FlashcardExportMenu
+                cards={exportCards}
+                deckName={selectedChapterDeck?.title ?? 'All flashcards'}
+                deckId={`${documentId}:${selectedDeck}`}
+              />
+              <Button variant="ghost" size="sm" onClick={onClose} className="h-6 w-6 p-0">
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+          {renderBody()}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Check, Loader2, Redo2, RotateCcw, Save, Undo2, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { MermaidDiagram } from './MermaidDiagram';
+import { validateMermaid } from '../lib/mermaid';
+
+interface DiagramEditorProps {
+  initialCode: string;
+  onCancel: () => void;
+  // Omitted when there is nowhere to save to; the editor is then preview-only
+  onSave?: (code: string) => Promise<void>;
+}
+
+interface EditHistory {
+  entries: string[];
+  index: number;
+}
+
+// Validation, preview refresh and undo snapshots all wait for a typing pause
+const EDIT_SETTLE_MS = 400;
+const MAX_HISTORY = 100;
+
+// Split code/preview editor for a single Mermaid diagram. The preview keeps
+// showing the last valid version while the code has errors.
+export const DiagramEditor: React.FC<DiagramEditorProps> = ({ initialCode, onCancel, onSave }) => {
+  const [code, setCode] = useState(initialCode);
+  const [previewCode, setPreviewCode] = useState(initialCode);
+  const [history, setHistory] = useState<EditHistory>({ entries: [initialCode], index: 0 });
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsValidating(true);
+
+    const timer = setTimeout(async () => {
+      let error: string | null;
+      try {
+        error = await validateMermaid(code);
+      } catch (loadError) {
+        // The next edit tries to load it again
+        console.error('Failed to load Mermaid:', loadError);
+        error = 'Could not load the diagram checker. Check your connection and edit the code to try again.';
+      }
+      if (cancelled) return;
+
+      setValidationError(error);
+      setIsValidating(false);
+      if (!error) setPreviewCode(code);
+
+      setHistory((current) => {
+        if (current.entries[current.index] === code) return current;
+        const entries = [...current.entries.slice(0, current.index + 1), code].slice(-MAX_HISTORY);
+        return { entries, index: entries.length - 1 };
+      });
+    }, EDIT_SETTLE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [code]);
+
+  const moveInHistory = (offset: number) => {
+    const index = history.index + offset;
+    if (index < 0 || index >= history.entries.length) return;
+    setHistory({ ...history, index });
+    setCode(history.entries[index]);
+  };
+
+  const handleSave = async () => {
+    if (!onSave) return;
+    setIsSaving(true);
+    try {
+      await onSave(code);
+    } catch {
+      // The caller reports the failure; the edits stay in place for another try
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isDirty = code !== initialCode;
+  const canSave = !!onSave && isDirty && !validationError && !isValidating && !isSaving;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={() => moveInHistory(-1)} disabled={history.index === 0} className="h-6 w-6 p-0" title="Undo">
+            <Undo2 className="w-3 h-3" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => moveInHistory(1)} disabled={history.index >= history.entries.length - 1} className="h-6 w-6 p-0" title="Redo">
+            <Redo2 className="w-3 h-3" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setCode(initialCode)} disabled={!isDirty} className="h-6 w-6 p-0" title="Revert to original">
+            <RotateCcw className="w-3 h-3" />
+          </Button>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSaving} className="h-6 px-2 gap-1 text-xs">
+            <X className="w-3 h-3" />
+            Cancel
+          </Button>
+          {onSave && (
+            <Button size="sm" onClick={handleSave} disabled={!canSave} className="h-6 px-2 gap-1 text-xs">
+              {isSaving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />}
+              Save revision
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-2 grid-cols-[repeat(auto-fit,minmax(15rem,1fr))]">
+        <div className="space-y-1">
+          <Textarea
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            spellCheck={false}
+            className="font-mono text-xs min-h-64 resize-y"
+            aria-label="Mermaid diagram code"
+            aria-invalid={!!validationError}
+          />
+          <div className="min-h-4 text-xs">
+            {isValidating ? (
+              <span className="flex items-center gap-1 text-muted-foreground">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                Checking...
+              </span>
+            ) : validationError ? (
+              <div className="flex items-start gap-1 text-destructive">
+                <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                <pre className="whitespace-pre-wrap break-words font-mono">{validationError}</pre>
+              </div>
+            ) : (
+              <span className="flex items-center gap-1 text-green-600 dark:text-green-400">
+                <Check className="w-3 h-3" />
+                Valid diagram
+              </span>
+            )}
+          </div>
+        </div>
+
+        <MermaidDiagram code={previewCode} title="Preview" fileName="diagram-draft" />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { CaseSensitive, ChevronDown, ChevronUp, List, Loader2, Search, WholeWord, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { ScrollArea } from './ui/scroll-area';
+import type { SearchOptions, SearchResults } from '../lib/search-index';
+
+interface DocumentSearchProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  options: SearchOptions;
+  onOptionsChange: (options: SearchOptions) => void;
+  results: SearchResults;
+  isSearching: boolean;
+  indexedPages: number;
+  totalPages: number;
+  // Index into `results.hits`; null until the reader moves to a hit
+  activeHit: number | null;
+  onSelectHit: (index: number) => void;
+  onStep: (offset: 1 | -1) => void;
+  getPageLabel: (page: number) => string;
+  onClose: () => void;
+}
+
+// Search bar under the viewer toolbar, with a list of hits and their snippets
+export const DocumentSearch: React.FC<DocumentSearchProps> = ({
+  query,
+  onQueryChange,
+  options,
+  onOptionsChange,
+  results,
+  isSearching,
+  indexedPages,
+  totalPages,
+  activeHit,
+  onSelectHit,
+  onStep,
+  getPageLabel,
+  onClose,
+}) => {
+  const [showResults, setShowResults] = useState(false);
+  const hitCount = results.hits.length;
+  const isIndexing = indexedPages < totalPages;
+  const more = results.truncated ? '+' : '';
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      onStep(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="relative border-b bg-card p-2 flex-shrink-0 space-y-1">
+      <div className="flex items-center gap-1">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-muted-foreground" />
+          <Input
+            autoFocus
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search in document..."
+            className="h-7 pl-7 text-xs"
+          />
+        </div>
+        <Button
+          variant={options.caseSensitive ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => onOptionsChange({ ...options, caseSensitive: !options.caseSensitive })}
+          className="h-7 w-7 p-0"
+          title="Match case"
+        >
+          <CaseSensitive className="w-4 h-4" />
+        </Button>
+        <Button
+          variant={options.wholeWord ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => onOptionsChange({ ...options, wholeWord: !options.wholeWord })}
+          className="h-7 w-7 p-0"
+          title="Whole words"
+        >
+          <WholeWord className="w-4 h-4" />
+        </Button>
+        <span className="min-w-[4.5rem] text-center text-xs text-muted-foreground">
+          {isSearching ? (
+            <Loader2 className="w-3 h-3 mx-auto animate-spin" />
+          ) : query.trim() ? (
+            activeHit === null ? `${hitCount}${more} found` : `${activeHit + 1} of ${hitCount}${more}`
+          ) : null}
+        </span>
+        <Button variant="ghost" size="sm" onClick={() => onStep(-1)} disabled={hitCount === 0} className="h-7 w-7 p-0" title="Previous (Shift+Enter)">
+          <ChevronUp className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => onStep(1)} disabled={hitCount === 0} className="h-7 w-7 p-0" title="Next (Enter)">
+          <ChevronDown className="w-4 h-4" />
+        </Button>
+        <Button
+          variant={showResults ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => setShowResults(!showResults)}
+          disabled={hitCount === 0}
+          className="h-7 w-7 p-0"
+          title="All results"
+        >
+          <List className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onClose} className="h-7 w-7 p-0">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {isIndexing && (
+        <p className="text-xs text-muted-foreground">Indexing pages {indexedPages} of {totalPages}... results so far are shown.</p>
+      )}
+
+      {showResults && hitCount > 0 && (
+        <div className="absolute left-2 right-2 top-full z-20 mt-1 rounded-lg border bg-card shadow-lg">
+          <ScrollArea className="h-64">
+            <div className="p-1">
+              {results.hits.map((hit, index) => (
+                <button
+                  key={`${hit.page}-${hit.start}`}
+                  type="button"
+                  onClick={() => onSelectHit(index)}
+                  className={`w-full flex gap-2 rounded-md px-2 py-1 text-left text-xs hover:bg-accent ${index === activeHit ? 'bg-accent' : ''}`}
+                >
+                  <span className="w-12 flex-shrink-0 text-muted-foreground">p. {getPageLabel(hit.page)}</span>
+                  <span className="min-w-0">
+                    {hit.snippet.before}
+                    <mark className="rounded-sm bg-orange-300/60 text-foreground">{hit.snippet.match}</mark>
+                    {hit.snippet.after}
+                  </span>
+                </button>
+              ))}
+              {results.truncated && (
+                <p className="px-2 py-1 text-xs text-muted-foreground">Only the first {hitCount} results are shown. Refine the search to see more.</p>
+              )}
+            </div>
+          </ScrollArea>
+        </div>
+      )}
+    </div>
+  );
+};
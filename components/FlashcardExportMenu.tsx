@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from './ui/dropdown-menu';
+import { createApkg } from '../lib/anki-export';
+import { cardsToDelimited, type Delimiter } from '../lib/flashcard-export';
+import { downloadBlob } from '../lib/download';
+import { useOverlayPlacement, useOverlayToast } from '../lib/overlay-placement';
+import type { FlashCard } from '../lib/schemas';
+
+interface FlashcardExportMenuProps {
+  cards: FlashCard[];
+  // Deck name inside Anki, also used for the file name
+  deckName: string;
+  // Stable id of the exported deck; keeps Anki note ids the same across exports
+  deckId: string;
+}
+
+const toFileName = (name: string) => name.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'flashcards';
+
+export const FlashcardExportMenu: React.FC<FlashcardExportMenuProps> = ({ cards, deckName, deckId }) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const { portalContainer } = useOverlayPlacement();
+  const toast = useOverlayToast();
+  const fileName = toFileName(deckName);
+
+  const handleExportApkg = async () => {
+    setIsExporting(true);
+    try {
+      downloadBlob(await createApkg(deckName, cards, deckId), `${fileName}.apkg`);
+    } catch (error) {
+      console.error('Anki export failed:', error);
+      toast.error('Failed to export Anki package');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportText = (delimiter: Delimiter) => {
+    const type = delimiter === ',' ? 'text/csv' : 'text/tab-separated-values';
+    downloadBlob(new Blob([cardsToDelimited(cards, delimiter)], { type: `${type};charset=utf-8` }), `${fileName}.${delimiter === ',' ? 'csv' : 'tsv'}`);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={cards.length === 0 || isExporting} className="h-6 w-6 p-0" title="Export deck">
+          {isExporting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" container={portalContainer}>
+        <DropdownMenuLabel className="text-xs">Export {cards.length} card{cards.length === 1 ? '' : 's'}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={handleExportApkg} className="text-xs">Anki package (.apkg)</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExportText(',')} className="text-xs">CSV (.csv)</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExportText('\t')} className="text-xs">Tab-separated (.tsv)</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
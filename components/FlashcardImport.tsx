@@ -0,0 +1,208 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FileUp, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { UNSORTED_DECK_ID } from '../lib/flashcard-decks';
+import {
+  detectDelimiter,
+  guessFieldMapping,
+  isHeaderLike,
+  parseDelimited,
+  rowsToCards,
+  type DelimitedTable,
+  type ImportField,
+  type ImportedCard,
+} from '../lib/flashcard-export';
+import type { TOC } from '../lib/schemas';
+
+interface FlashcardImportProps {
+  toc?: TOC;
+  defaultChapterId: string | null;
+  // Reports its own failures; the import stays open until the caller closes it
+  onImport: (chapterId: string | null, cards: ImportedCard[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface LoadedFile {
+  name: string;
+  table: DelimitedTable;
+}
+
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+const PREVIEW_ROWS = 5;
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  question: 'Question',
+  answer: 'Answer',
+  topic: 'Topic',
+  difficulty: 'Difficulty',
+  tags: 'Tags',
+  ignore: 'Ignore',
+};
+
+// CSV/TSV import in three steps: pick a file, map its columns, confirm the target deck
+export const FlashcardImport: React.FC<FlashcardImportProps> = ({ toc, defaultChapterId, onImport, onCancel }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [hasHeaderRow, setHasHeaderRow] = useState(false);
+  const [mapping, setMapping] = useState<ImportField[]>([]);
+  const [chapter, setChapter] = useState(defaultChapterId ?? UNSORTED_DECK_ID);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const columnCount = file ? Math.max(...file.table.rows.map((row) => row.length)) : 0;
+  const dataRows = useMemo(() => (file ? file.table.rows.slice(hasHeaderRow ? 1 : 0) : []), [file, hasHeaderRow]);
+  const result = useMemo(() => rowsToCards(dataRows, mapping), [dataRows, mapping]);
+  const isMappingComplete = mapping.includes('question') && mapping.includes('answer');
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    if (selected.size > MAX_FILE_BYTES) {
+      toast.error('File is too large to import (2 MB maximum)');
+      return;
+    }
+
+    try {
+      const text = await selected.text();
+      const table = parseDelimited(text, detectDelimiter(text, selected.name));
+      if (table.rows.length === 0) {
+        toast.error('No rows found in this file');
+        return;
+      }
+
+      const headerRow = !table.columns && isHeaderLike(table.rows[0]);
+      const width = Math.max(...table.rows.map((row) => row.length));
+      setFile({ name: selected.name, table });
+      setHasHeaderRow(headerRow);
+      setMapping(guessFieldMapping(table.columns ?? (headerRow ? table.rows[0] : null), width));
+    } catch (error) {
+      console.error('Failed to read import file:', error);
+      toast.error('Failed to read file');
+    }
+  };
+
+  const handleHeaderRowChange = (checked: boolean) => {
+    if (!file) return;
+    setHasHeaderRow(checked);
+    setMapping(guessFieldMapping(file.table.columns ?? (checked ? file.table.rows[0] : null), columnCount));
+  };
+
+  const handleMappingChange = (column: number, field: ImportField) => {
+    setMapping((current) => current.map((value, index) => {
+      if (index === column) return field;
+      // Each field except "ignore" maps from one column only
+      return field !== 'ignore' && value === field ? 'ignore' : value;
+    }));
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    await onImport(chapter === UNSORTED_DECK_ID ? null : chapter, result.cards);
+    setIsImporting(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain" onChange={handleFileChange} className="hidden" />
+
+      {!file ? (
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full rounded border border-dashed p-4 text-center text-xs text-muted-foreground hover:bg-accent/50 transition-colors"
+        >
+          <FileUp className="w-5 h-5 mx-auto mb-1" />
+          Choose a CSV or TSV file
+          <span className="block mt-1 text-[10px]">Anki text exports work as is</span>
+        </button>
+      ) : (
+        <>
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <span className="truncate font-medium" title={file.name}>{file.name}</span>
+            <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()} className="h-6 px-2 text-xs">
+              Change file
+            </Button>
+          </div>
+
+          {!file.table.columns && (
+            <label className="flex items-center gap-2 text-xs">
+              <Checkbox checked={hasHeaderRow} onCheckedChange={(checked) => handleHeaderRowChange(checked === true)} />
+              First row contains column names
+            </label>
+          )}
+
+          <div className="overflow-x-auto rounded border">
+            <table className="w-full text-xs">
+              <thead className="bg-muted/50">
+                <tr>
+                  {Array.from({ length: columnCount }, (_, column) => (
+                    <th key={column} className="p-1 font-normal min-w-24">
+                      <Select value={mapping[column] ?? 'ignore'} onValueChange={(value) => handleMappingChange(column, value as ImportField)}>
+                        <SelectTrigger className="h-6 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(FIELD_LABELS) as ImportField[]).map((field) => (
+                            <SelectItem key={field} value={field} className="text-xs">{FIELD_LABELS[field]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {hasHeaderRow && (
+                        <span className="block mt-0.5 truncate text-muted-foreground">{file.table.rows[0][column]}</span>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {dataRows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-t">
+                    {Array.from({ length: columnCount }, (_, column) => (
+                      <td key={column} className={`p-1 align-top max-w-40 truncate ${mapping[column] === 'ignore' ? 'text-muted-foreground/60' : ''}`} title={row[column]}>
+                        {row[column]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {isMappingComplete
+              ? `${result.cards.length} card${result.cards.length === 1 ? '' : 's'} ready to import${result.skipped > 0 ? `, ${result.skipped} row${result.skipped === 1 ? '' : 's'} without a question or answer will be skipped` : ''}.`
+              : 'Choose which columns hold the question and the answer.'}
+          </p>
+
+          <Select value={chapter} onValueChange={setChapter}>
+            <SelectTrigger className="h-7 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {toc?.chapters.map((tocChapter) => (
+                <SelectItem key={tocChapter.chapter_id} value={tocChapter.chapter_id} className="text-xs">
+                  {tocChapter.chapter_number}. {tocChapter.title}
+                </SelectItem>
+              ))}
+              <SelectItem value={UNSORTED_DECK_ID} className="text-xs">No chapter</SelectItem>
+            </SelectContent>
+          </Select>
+        </>
+      )}
+
+      <div className="flex justify-end gap-1">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={isImporting} className="h-6 px-2 text-xs">
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleImport} disabled={!file || !isMappingComplete || result.cards.length === 0 || isImporting} className="h-6 px-2 gap-1 text-xs">
+          {isImporting && <Loader2 className="w-3 h-3 animate-spin" />}
+          Import
+        </Button>
+      </div>
+    </div>
+  );
+};
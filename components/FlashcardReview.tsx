@@ -0,0 +1,206 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CalendarCheck, Loader2, RotateCcw, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { ScrollArea } from './ui/scroll-area';
+import { useApi } from '../lib/api-context';
+import { ApiError, isAbortError } from '../lib/api';
+import { createSchedule, formatInterval, getCardKey, isDueToday, readSchedules, reviewCard, REVIEW_GRADES, type CardSchedule, type ReviewGrade } from '../lib/srs';
+import { getFlashcardDecks } from '../lib/flashcard-decks';
+import { useCardSchedules } from '../hooks/use-card-schedules';
+import type { FlashCard } from '../lib/schemas';
+
+const gradeStyles: Record<ReviewGrade, { label: string; className: string }> = {
+  again: { label: 'Again', className: 'hover:bg-red-50 hover:border-red-300 dark:hover:bg-red-950/40' },
+  hard: { label: 'Hard', className: 'hover:bg-orange-50 hover:border-orange-300 dark:hover:bg-orange-950/40' },
+  good: { label: 'Good', className: 'hover:bg-green-50 hover:border-green-300 dark:hover:bg-green-950/40' },
+  easy: { label: 'Easy', className: 'hover:bg-blue-50 hover:border-blue-300 dark:hover:bg-blue-950/40' },
+};
+
+// Again/Hard/Good/Easy, each labelled with the interval it would schedule
+export const ReviewGradeButtons: React.FC<{ schedule?: CardSchedule; onGrade: (grade: ReviewGrade) => void }> = ({ schedule, onGrade }) => {
+  const now = new Date();
+  const current = schedule ?? createSchedule(now);
+
+  return (
+    <div className="grid grid-cols-4 gap-1">
+      {REVIEW_GRADES.map((grade) => (
+        <Button
+          key={grade}
+          variant="outline"
+          size="sm"
+          onClick={() => onGrade(grade)}
+          className={`h-auto py-1 flex flex-col gap-0 text-xs transition-colors ${gradeStyles[grade].className}`}
+        >
+          <span>{gradeStyles[grade].label}</span>
+          <span className="text-[10px] text-muted-foreground">{formatInterval(reviewCard(current, grade, now), now)}</span>
+        </Button>
+      ))}
+    </div>
+  );
+};
+
+interface QueuedCard {
+  key: string;
+  card: FlashCard;
+}
+
+// Collects the cards due today from every flashcard deck of the document:
+// overdue cards first, then cards that have never been reviewed
+const buildQueue = (decks: { id: string; response: FlashCard[] }[], documentId: string): QueuedCard[] => {
+  const schedules = readSchedules(documentId);
+  const now = new Date();
+  const cards = decks.flatMap((deck) => deck.response.map((card) => ({ key: getCardKey(deck.id, card.id), card })));
+
+  const reviews = cards
+    .filter(({ key }) => schedules[key] && isDueToday(schedules[key], now))
+    .sort((a, b) => Date.parse(schedules[a.key].due) - Date.parse(schedules[b.key].due));
+  const fresh = cards.filter(({ key }) => !schedules[key]);
+  return [...reviews, ...fresh];
+};
+
+// Review session over the document's "Due today" queue
+export const ReviewQueueOverlay: React.FC<{ documentId: string; onClose: () => void }> = ({ documentId, onClose }) => {
+  const api = useApi();
+  const { schedules, gradeCard } = useCardSchedules(documentId);
+  const [queue, setQueue] = useState<QueuedCard[] | null>(null);
+  const [initialSize, setInitialSize] = useState(0);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setQueue(null);
+    setLoadError(null);
+
+    api.listToolResponses(documentId, 'flashcard', { signal: controller.signal })
+      .then((toolResponses) => {
+        const dueCards = buildQueue(getFlashcardDecks(toolResponses), documentId);
+        setQueue(dueCards);
+        setInitialSize(dueCards.length);
+        setReviewedCount(0);
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        setLoadError(error instanceof ApiError ? error.message : 'Could not load your flashcards');
+      });
+
+    return () => controller.abort();
+  }, [api, documentId, loadAttempt]);
+
+  const currentCard = queue?.[0];
+  const nextDue = useMemo(() => {
+    const upcoming = Object.values(schedules).map((schedule) => Date.parse(schedule.due)).filter((due) => due > Date.now());
+    return upcoming.length > 0 ? new Date(Math.min(...upcoming)) : null;
+  }, [schedules]);
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!currentCard) return;
+    const schedule = gradeCard(currentCard.key, grade);
+    setIsRevealed(false);
+    setReviewedCount((count) => count + 1);
+    // Failed cards come back before the end of the session
+    setQueue((current) => {
+      if (!current) return current;
+      const rest = current.slice(1);
+      return isDueToday(schedule) ? [...rest, current[0]] : rest;
+    });
+  };
+
+  const renderBody = () => {
+    if (loadError) {
+      return (
+        <Card>
+          <CardContent className="pt-4 space-y-2 text-center">
+            <p className="text-sm text-destructive">{loadError}</p>
+            <Button variant="outline" size="sm" onClick={() => setLoadAttempt((attempt) => attempt + 1)} className="h-7 gap-1 text-xs">
+              <RotateCcw className="w-3 h-3" />
+              Try again
+            </Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    if (!queue) {
+      return (
+        <div className="flex items-center justify-center gap-2 py-8 text-xs text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading due cards...
+        </div>
+      );
+    }
+
+    if (!currentCard) {
+      return (
+        <Card>
+          <CardContent className="pt-4 space-y-1 text-center">
+            <CalendarCheck className="w-6 h-6 mx-auto text-green-500" />
+            <p className="text-sm font-medium">{initialSize > 0 ? 'All caught up for today!' : 'Nothing is due today'}</p>
+            <p className="text-xs text-muted-foreground">
+              {reviewedCount > 0 && `${reviewedCount} review${reviewedCount === 1 ? '' : 's'} this session. `}
+              {nextDue ? `Next card is due ${nextDue.toLocaleString()}.` : 'Generate flashcards to start reviewing.'}
+            </p>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return (
+      <>
+        <Progress value={reviewedCount / (reviewedCount + queue.length) * 100} className="h-1" />
+        <div className="flex items-center justify-between text-xs">
+          <Badge variant="outline" className="text-xs">{currentCard.card.topic}</Badge>
+          <span className="text-muted-foreground">{schedules[currentCard.key] ? 'Review' : 'New'}</span>
+        </div>
+        <Card>
+          <CardHeader className="text-center pb-2">
+            <CardTitle className="text-xs text-muted-foreground">Question</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-center text-sm select-text">{currentCard.card.question}</p>
+            {isRevealed && (
+              <>
+                <div className="border-t" />
+                <p className="text-center text-sm select-text">{currentCard.card.answer}</p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+        {isRevealed ? (
+          <ReviewGradeButtons schedule={schedules[currentCard.key]} onGrade={handleGrade} />
+        ) : (
+          <Button variant="outline" size="sm" onClick={() => setIsRevealed(true)} className="w-full h-7 text-xs">
+            Show answer
+          </Button>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="absolute inset-0 bg-background/98 backdrop-blur-sm z-50 overflow-hidden">
+      <ScrollArea className="h-full">
+        <div className="p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <CalendarCheck className="w-4 h-4 text-blue-500" />
+              <h3 className="text-sm font-medium">Due today</h3>
+              {queue && queue.length > 0 && (
+                <Badge variant="secondary" className="text-xs">{queue.length} left</Badge>
+              )}
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose} className="h-6 w-6 p-0">
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+          {renderBody()}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
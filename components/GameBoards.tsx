@@ -0,0 +1,366 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Check, Eye, Lock, X } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { MarkdownContent } from './MarkdownContent';
+import { POINTS_PER_STEP } from '../lib/game-scores';
+import { matchesAnswer } from '../lib/quiz-grading';
+import { shuffle, shuffleUnsolved } from '../lib/shuffle';
+import { BLANK_PATTERN, type StructuredGame } from '../lib/schemas';
+import type { UnsupportedGame } from '../lib/games';
+
+type GameOf<T extends StructuredGame['game_type']> = Extract<StructuredGame, { game_type: T }>;
+
+// Boards report base points; streak bonuses and miss penalties are applied by the caller
+interface GameBoardProps<G> {
+  game: G;
+  // Finished steps (matches, blanks, levels...) and the points they earned;
+  // zero points means the steps were given up rather than solved
+  onSolve: (steps: number, points: number, message?: string) => void;
+  onMiss: (message: string) => void;
+  onComplete: () => void;
+}
+
+// How long a wrong pair stays highlighted
+const MISMATCH_FEEDBACK_MS = 700;
+
+export const MatchingBoard: React.FC<GameBoardProps<GameOf<'matching'>>> = ({ game, onSolve, onMiss, onComplete }) => {
+  const [termOrder] = useState(() => shuffle(game.pairs.map((_, index) => index)));
+  // Never lines definitions up with their terms
+  const [definitionOrder] = useState(() => shuffleUnsolved(termOrder));
+  const [matched, setMatched] = useState<number[]>([]);
+  const [selectedTerm, setSelectedTerm] = useState<number | null>(null);
+  const [selectedDefinition, setSelectedDefinition] = useState<number | null>(null);
+  const [mismatch, setMismatch] = useState<[number, number] | null>(null);
+
+  const tryMatch = (term: number | null, definition: number | null) => {
+    setSelectedTerm(term);
+    setSelectedDefinition(definition);
+    if (term === null || definition === null) return;
+
+    // A term and a definition match when they come from the same pair
+    if (term === definition) {
+      const nextMatched = [...matched, term];
+      setMatched(nextMatched);
+      setSelectedTerm(null);
+      setSelectedDefinition(null);
+      onSolve(1, POINTS_PER_STEP, 'Match found!');
+      if (nextMatched.length === game.pairs.length) onComplete();
+      return;
+    }
+
+    setMismatch([term, definition]);
+    onMiss('Not a match, try again!');
+    window.setTimeout(() => {
+      setMismatch(null);
+      setSelectedTerm(null);
+      setSelectedDefinition(null);
+    }, MISMATCH_FEEDBACK_MS);
+  };
+
+  const getItemClass = (index: number, selected: number | null, column: 0 | 1) => {
+    if (matched.includes(index)) return 'border-green-500 bg-green-50 dark:bg-green-950/20 text-green-700 dark:text-green-400 opacity-60';
+    if (mismatch?.[column] === index) return 'border-red-500 bg-red-50 dark:bg-red-950/20';
+    if (selected === index) return 'border-primary bg-primary/10';
+    return 'border-border hover:bg-accent';
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="space-y-2">
+        <h4 className="text-xs font-medium text-muted-foreground">Terms</h4>
+        {termOrder.map((index) => (
+          <button
+            key={`term-${index}`}
+            type="button"
+            onClick={() => tryMatch(selectedTerm === index ? null : index, selectedDefinition)}
+            disabled={matched.includes(index) || mismatch !== null}
+            className={`w-full rounded-md border p-2 text-left text-xs font-medium transition-colors ${getItemClass(index, selectedTerm, 0)}`}
+          >
+            {game.pairs[index].term}
+          </button>
+        ))}
+      </div>
+      <div className="space-y-2">
+        <h4 className="text-xs font-medium text-muted-foreground">Definitions</h4>
+        {definitionOrder.map((index) => (
+          <button
+            key={`definition-${index}`}
+            type="button"
+            onClick={() => tryMatch(selectedTerm, selectedDefinition === index ? null : index)}
+            disabled={matched.includes(index) || mismatch !== null}
+            className={`w-full rounded-md border p-2 text-left text-xs transition-colors ${getItemClass(index, selectedDefinition, 1)}`}
+          >
+            {game.pairs[index].definition}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const OrderingBoard: React.FC<GameBoardProps<GameOf<'ordering'>>> = ({ game, onSolve, onMiss, onComplete }) => {
+  // Indices into game.items; solved when order[i] === i
+  const [order, setOrder] = useState(() => shuffleUnsolved(game.items.map((_, index) => index)));
+  const [isChecked, setIsChecked] = useState(false);
+  const [isSolved, setIsSolved] = useState(false);
+
+  const move = (position: number, offset: -1 | 1) => {
+    const target = position + offset;
+    if (target < 0 || target >= order.length) return;
+    setOrder((current) => {
+      const next = [...current];
+      [next[position], next[target]] = [next[target], next[position]];
+      return next;
+    });
+    setIsChecked(false);
+  };
+
+  const handleCheck = () => {
+    const correctCount = order.filter((item, position) => item === position).length;
+    setIsChecked(true);
+    if (correctCount === order.length) {
+      setIsSolved(true);
+      onSolve(order.length, order.length * POINTS_PER_STEP, 'Correct order!');
+      onComplete();
+      return;
+    }
+    onMiss(`${correctCount} of ${order.length} in the right place`);
+  };
+
+  return (
+    <div className="space-y-2">
+      {order.map((item, position) => {
+        const isCorrect = item === position;
+        return (
+          <div
+            key={item}
+            className={`flex items-center gap-2 rounded-md border p-2 text-xs transition-colors ${
+              isChecked ? (isCorrect ? 'border-green-500 bg-green-50 dark:bg-green-950/20' : 'border-red-500 bg-red-50 dark:bg-red-950/20') : 'border-border'
+            }`}
+          >
+            <span className="w-4 text-muted-foreground">{position + 1}.</span>
+            <span className="flex-1">{game.items[item]}</span>
+            {!isSolved && (
+              <div className="flex gap-0.5">
+                <Button variant="ghost" size="sm" onClick={() => move(position, -1)} disabled={position === 0} className="h-6 w-6 p-0" title="Move up">
+                  <ArrowUp className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => move(position, 1)} disabled={position === order.length - 1} className="h-6 w-6 p-0" title="Move down">
+                  <ArrowDown className="w-3 h-3" />
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {!isSolved && (
+        <Button size="sm" onClick={handleCheck} className="w-full h-7 text-xs">
+          Check order
+        </Button>
+      )}
+    </div>
+  );
+};
+
+type BlankStatus = 'open' | 'correct' | 'wrong' | 'revealed';
+
+export const FillBlankBoard: React.FC<GameBoardProps<GameOf<'fill_blank'>>> = ({ game, onSolve, onMiss, onComplete }) => {
+  const [responses, setResponses] = useState<string[]>(() => game.sentences.map(() => ''));
+  const [statuses, setStatuses] = useState<BlankStatus[]>(() => game.sentences.map(() => 'open'));
+  const isFinished = statuses.every((status) => status === 'correct' || status === 'revealed');
+
+  const handleCheck = () => {
+    const next = statuses.map((status, index): BlankStatus => {
+      if (status === 'correct' || status === 'revealed' || !responses[index].trim()) return status;
+      const sentence = game.sentences[index];
+      return matchesAnswer(responses[index], [sentence.answer, ...sentence.accepted_answers]) ? 'correct' : 'wrong';
+    });
+    const newlyCorrect = next.filter((status, index) => status === 'correct' && statuses[index] !== 'correct').length;
+    setStatuses(next);
+
+    if (newlyCorrect > 0) {
+      onSolve(newlyCorrect, newlyCorrect * POINTS_PER_STEP, `${newlyCorrect} correct!`);
+    }
+    if (next.some((status) => status === 'wrong')) {
+      onMiss('Some answers are not right yet');
+    }
+    if (next.every((status) => status === 'correct')) onComplete();
+  };
+
+  const handleReveal = () => {
+    const remaining = statuses.filter((status) => status !== 'correct').length;
+    setStatuses((current) => current.map((status) => (status === 'correct' ? status : 'revealed')));
+    onSolve(remaining, 0);
+    onComplete();
+  };
+
+  return (
+    <div className="space-y-3">
+      {game.sentences.map((sentence, index) => {
+        const [before, after] = sentence.text.split(BLANK_PATTERN);
+        const status = statuses[index];
+        const isLocked = status === 'correct' || status === 'revealed';
+        return (
+          <div key={index} className="flex flex-wrap items-center gap-1 text-sm leading-relaxed">
+            {before && <span>{before}</span>}
+            {isLocked ? (
+              <span className={`px-1.5 rounded font-medium ${status === 'correct' ? 'bg-green-100 dark:bg-green-950/40 text-green-700 dark:text-green-400' : 'bg-muted text-muted-foreground'}`}>
+                {status === 'correct' ? responses[index] : sentence.answer}
+              </span>
+            ) : (
+              <Input
+                value={responses[index]}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  setResponses((current) => current.map((response, i) => (i === index ? value : response)));
+                  setStatuses((current) => current.map((s, i) => (i === index ? 'open' : s)));
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleCheck();
+                  }
+                }}
+                className={`h-7 w-32 text-sm ${status === 'wrong' ? 'border-red-500' : ''}`}
+              />
+            )}
+            {after && <span>{after}</span>}
+          </div>
+        );
+      })}
+      {!isFinished && (
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleCheck} disabled={responses.every((response) => !response.trim())} className="flex-1 h-7 text-xs">
+            Check answers
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleReveal} className="h-7 gap-1 text-xs">
+            <Eye className="w-3 h-3" />
+            Reveal
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+type LevelResult = 'passed' | 'skipped';
+
+export const LevelQuizBoard: React.FC<GameBoardProps<GameOf<'level_quiz'>>> = ({ game, onSolve, onMiss, onComplete }) => {
+  const [results, setResults] = useState<LevelResult[]>([]);
+  const [response, setResponse] = useState('');
+  const [hasMissed, setHasMissed] = useState(false);
+  const [isRevealed, setIsRevealed] = useState(false);
+
+  const levelIndex = results.length;
+  const level = game.levels[levelIndex];
+  // Level 1 is worth 10 points, level 2 is worth 20, and so on
+  const levelPoints = (levelIndex + 1) * POINTS_PER_STEP;
+
+  const finishLevel = (result: LevelResult) => {
+    onSolve(1, result === 'passed' ? levelPoints : 0, `Level ${levelIndex + 1} cleared!`);
+    setResults((current) => [...current, result]);
+    setResponse('');
+    setHasMissed(false);
+    setIsRevealed(false);
+    if (levelIndex === game.levels.length - 1) onComplete();
+  };
+
+  const handleCheck = () => {
+    if (!level?.answer || !response.trim()) return;
+    if (matchesAnswer(response, [level.answer, ...level.accepted_answers])) {
+      finishLevel('passed');
+    } else {
+      setHasMissed(true);
+      onMiss('Not quite, try again!');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1">
+        {game.levels.map((_, index) => (
+          <Badge
+            key={index}
+            variant={index === levelIndex ? 'default' : 'outline'}
+            className={`text-xs gap-1 ${results[index] === 'passed' ? 'border-green-500 text-green-600' : results[index] === 'skipped' ? 'text-muted-foreground' : ''}`}
+          >
+            {results[index] === 'passed' && <Check className="w-3 h-3" />}
+            {results[index] === 'skipped' && <X className="w-3 h-3" />}
+            {index > levelIndex && <Lock className="w-3 h-3" />}
+            Level {index + 1}
+          </Badge>
+        ))}
+      </div>
+
+      {level && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">{level.question}</p>
+
+          {level.answer ? (
+            <>
+              {isRevealed ? (
+                <p className="text-sm rounded-md bg-muted p-2">{level.answer}</p>
+              ) : (
+                <Input
+                  value={response}
+                  onChange={(e) => setResponse(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleCheck();
+                    }
+                  }}
+                  placeholder="Your answer..."
+                  className="h-8 text-sm"
+                />
+              )}
+              <div className="flex gap-2">
+                {isRevealed ? (
+                  <Button size="sm" onClick={() => finishLevel('skipped')} className="flex-1 h-7 text-xs">
+                    {levelIndex === game.levels.length - 1 ? 'Finish' : 'Next level'}
+                  </Button>
+                ) : (
+                  <>
+                    <Button size="sm" onClick={handleCheck} disabled={!response.trim()} className="flex-1 h-7 text-xs">
+                      Check
+                    </Button>
+                    {hasMissed && (
+                      <Button variant="outline" size="sm" onClick={() => setIsRevealed(true)} className="h-7 gap-1 text-xs">
+                        <Eye className="w-3 h-3" />
+                        Show answer
+                      </Button>
+                    )}
+                  </>
+                )}
+              </div>
+            </>
+          ) : (
+            // No reference answer to check against, so the player grades themselves
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">Answer it in your head or on paper, then be honest:</p>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => finishLevel('passed')} className="flex-1 h-7 gap-1 text-xs">
+                  <Check className="w-3 h-3" />
+                  I got it
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => finishLevel('skipped')} className="flex-1 h-7 text-xs">
+                  Not yet
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Markdown rounds whose format is not recognised are shown rather than played
+export const UnsupportedBoard: React.FC<{ game: UnsupportedGame }> = ({ game }) => (
+  <div className="space-y-2">
+    <p className="text-xs text-muted-foreground">This round can't be played interactively.</p>
+    <MarkdownContent content={game.content} className="text-sm" />
+  </div>
+);
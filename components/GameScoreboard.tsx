@@ -0,0 +1,123 @@
+import React from 'react';
+import { ChevronLeft, Clock, Flame, Trophy } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { formatGameTime, getPersonalBest, isFullySolved, rankRuns } from '../lib/game-scores';
+import type { GameRun } from '../lib/schemas';
+
+// Runs shown in a round's leaderboard
+const TOP_RUNS = 5;
+
+const formatDifference = (value: number, unit: string) => `${value > 0 ? '+' : ''}${value} ${unit}`;
+
+interface GameRunSummaryProps {
+  run: GameRun;
+  // Earlier runs of the same round, oldest first
+  previousRuns: GameRun[];
+}
+
+// Completion summary comparing a finished run with the earlier runs of its round
+export const GameRunSummary: React.FC<GameRunSummaryProps> = ({ run, previousRuns }) => {
+  const best = getPersonalBest(previousRuns);
+  const lastRun = previousRuns[previousRuns.length - 1];
+  const isBestScore = best !== null && run.score > best.score;
+  const isBestTime = best !== null && isFullySolved(run) && (best.timeSeconds === null || run.time_seconds < best.timeSeconds);
+  const leaderboard = rankRuns([...previousRuns, run]).slice(0, TOP_RUNS);
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex flex-wrap items-center justify-center gap-1">
+        {best === null && <Badge variant="outline" className="text-xs">First run</Badge>}
+        {isBestScore && <Badge className="text-xs gap-1"><Trophy className="w-3 h-3" />New best score</Badge>}
+        {isBestTime && <Badge className="text-xs gap-1"><Clock className="w-3 h-3" />New best time</Badge>}
+        {run.max_streak >= 3 && <Badge variant="outline" className="text-xs gap-1"><Flame className="w-3 h-3 text-orange-500" />{run.max_streak} streak</Badge>}
+        <Badge variant="outline" className="text-xs">{run.mistakes} miss{run.mistakes === 1 ? '' : 'es'}</Badge>
+      </div>
+
+      {lastRun && (
+        <p className="text-muted-foreground">
+          Last time: {lastRun.score} points in {formatGameTime(lastRun.time_seconds)}
+          {' '}({formatDifference(run.score - lastRun.score, 'points')}, {formatDifference(run.time_seconds - lastRun.time_seconds, 's')})
+        </p>
+      )}
+
+      {previousRuns.length > 0 && (
+        <div className="space-y-1 text-left">
+          {leaderboard.map((entry, index) => (
+            <div
+              key={entry.id}
+              className={`flex items-center justify-between rounded-md border px-2 py-1 ${entry.id === run.id ? 'border-primary bg-primary/10' : ''}`}
+            >
+              <span className="text-muted-foreground">{index + 1}. {new Date(entry.completed_at).toLocaleDateString()}</span>
+              <span className="font-medium">{entry.score} • {formatGameTime(entry.time_seconds)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface GameScoreboardProps {
+  // Every run of the document, oldest first
+  runs: GameRun[];
+  onBack: () => void;
+}
+
+// Personal bests of every game round played in the document, most recently played first
+export const GameScoreboard: React.FC<GameScoreboardProps> = ({ runs, onBack }) => {
+  const rounds = new Map<string, GameRun[]>();
+  runs.forEach((run) => {
+    const key = `${run.tool_response_id}:${run.round_index}`;
+    rounds.set(key, [...(rounds.get(key) ?? []), run]);
+  });
+  const lastPlayed = (roundRuns: GameRun[]) => Date.parse(roundRuns[roundRuns.length - 1].completed_at);
+  const entries = Array.from(rounds.entries()).sort(([, a], [, b]) => lastPlayed(b) - lastPlayed(a));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="sm" onClick={onBack} className="h-6 px-2 gap-1 text-xs">
+          <ChevronLeft className="w-3 h-3" />
+          Back
+        </Button>
+        <span className="text-xs text-muted-foreground">{runs.length} run{runs.length === 1 ? '' : 's'} in this document</span>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-center text-xs text-muted-foreground">Finish a game to see your scores here.</p>
+      ) : (
+        <div className="space-y-1">
+          {entries.map(([key, roundRuns]) => {
+            const best = getPersonalBest(roundRuns);
+            const latest = roundRuns[roundRuns.length - 1];
+            return (
+              <div key={key} className="flex items-center justify-between gap-2 rounded-lg border p-2 text-xs">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{latest.title}</p>
+                  <p className="text-muted-foreground">
+                    {roundRuns.length} run{roundRuns.length === 1 ? '' : 's'} • last played {new Date(latest.completed_at).toLocaleDateString()}
+                  </p>
+                </div>
+                {best && (
+                  <div className="text-right flex-shrink-0">
+                    <p className="flex items-center justify-end gap-1 font-semibold">
+                      <Trophy className="w-3 h-3 text-yellow-500" />
+                      {best.score}
+                    </p>
+                    {best.timeSeconds !== null && (
+                      <p className="flex items-center justify-end gap-1 text-muted-foreground">
+                        <Clock className="w-3 h-3" />
+                        {formatGameTime(best.timeSeconds)}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useRef, useState } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import { Check, Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github-dark.css';
+
+// Renders model output as Markdown. Raw HTML in the source is never parsed
+// (there is no rehype-raw), and react-markdown drops unsafe link protocols,
+// so assistant replies cannot inject markup or scripts.
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+// Models often write LaTeX with \( \) and \[ \] delimiters, which remark-math
+// does not recognise; convert them to $ / $$ outside of code spans and fences.
+const normalizeMathDelimiters = (markdown: string): string => {
+  return markdown
+    .split(/(```[\s\S]*?(?:```|$)|`[^`\n]*`)/)
+    .map((segment, index) => {
+      // Odd indices are the captured code segments
+      if (index % 2 === 1) return segment;
+      return segment
+        .replace(/\\\[([\s\S]+?)\\\]/g, (_, math: string) => `$$${math}$$`)
+        .replace(/\\\(([\s\S]+?)\\\)/g, (_, math: string) => `$${math}$`);
+    })
+    .join('');
+};
+
+const CodeBlock: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [isCopied, setIsCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent ?? '');
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (error) {
+      toast.error('Failed to copy code');
+    }
+  };
+
+  return (
+    <div className="relative group">
+      <pre ref={preRef}>{children}</pre>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleCopy}
+        className="absolute top-1 right-1 h-5 w-5 p-0 opacity-60 group-hover:opacity-100 hover:bg-accent"
+        title="Copy code"
+      >
+        {isCopied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+      </Button>
+    </div>
+  );
+};
+
+const components: Components = {
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer">
+      {children}
+    </a>
+  ),
+  table: ({ children }) => (
+    <div className="overflow-x-auto">
+      <table>{children}</table>
+    </div>
+  ),
+};
+
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, className = '' }) => {
+  return (
+    <div className={`markdown-content ${className}`}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[rehypeKatex, [rehypeHighlight, { detect: true }]]}
+        components={components}
+      >
+        {normalizeMathDelimiters(content)}
+      </ReactMarkdown>
+    </div>
+  );
+};
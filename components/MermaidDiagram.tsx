@@ -0,0 +1,261 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertCircle, Copy, Download, Maximize2, Minimize, RotateCcw, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { renderMermaid, svgToBlob, svgToPngBlob } from '../lib/mermaid';
+import { downloadBlob } from '../lib/download';
+import { useOverlayToast } from '../lib/overlay-placement';
+
+interface MermaidDiagramProps {
+  code: string;
+  title?: string;
+  // Base name for downloaded files, without extension
+  fileName?: string;
+}
+
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 6;
+const INITIAL_VIEW: ViewTransform = { scale: 1, x: 0, y: 0 };
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const isDarkTheme = () => document.documentElement.classList.contains('dark');
+
+export const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ code, title, fileName = 'diagram' }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerId: number; startX: number; startY: number; originX: number; originY: number } | null>(null);
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(true);
+  const [view, setView] = useState<ViewTransform>(INITIAL_VIEW);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const toast = useOverlayToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsRendering(true);
+    setError(null);
+    setView(INITIAL_VIEW);
+
+    renderMermaid(code, isDarkTheme() ? 'dark' : 'default')
+      .then((renderedSvg) => {
+        if (!cancelled) setSvg(renderedSvg);
+      })
+      .catch((renderError) => {
+        if (cancelled) return;
+        setSvg(null);
+        setError(renderError instanceof Error ? renderError.message : String(renderError));
+      })
+      .finally(() => {
+        if (!cancelled) setIsRendering(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  // Zooms by `factor` keeping the point (px, py) in viewport coordinates fixed
+  const zoomAt = useCallback((factor: number, px: number, py: number) => {
+    setView((current) => {
+      const scale = clampScale(current.scale * factor);
+      const ratio = scale / current.scale;
+      return {
+        scale,
+        x: px - (px - current.x) * ratio,
+        y: py - (py - current.y) * ratio,
+      };
+    });
+  }, []);
+
+  const zoomAtCenter = (factor: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    zoomAt(factor, viewport.clientWidth / 2, viewport.clientHeight / 2);
+  };
+
+  // React registers wheel listeners as passive, so preventDefault needs a native
+  // listener. It is attached once the viewport exists, i.e. after a successful render.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      // Plain wheel scrolls the overlay; ctrl/cmd (and trackpad pinch) zooms.
+      // In fullscreen there is nothing to scroll, so any wheel zooms.
+      if (!e.ctrlKey && !e.metaKey && !isFullscreen) return;
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      zoomAt(Math.exp(-e.deltaY * 0.002), e.clientX - rect.left, e.clientY - rect.top);
+    };
+
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [zoomAt, isFullscreen, svg]);
+
+  // Listens on the container rather than the document, which differs when the
+  // diagram is shown in a popped-out window
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleFullscreenChange = () => {
+      setIsFullscreen(container.ownerDocument.fullscreenElement === container);
+      setView(INITIAL_VIEW);
+    };
+    container.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => container.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, originX: view.x, originY: view.y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    setView((current) => ({
+      ...current,
+      x: drag.originX + e.clientX - drag.startX,
+      y: drag.originY + e.clientY - drag.startY,
+    }));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current?.pointerId === e.pointerId) {
+      dragRef.current = null;
+    }
+  };
+
+  const handleToggleFullscreen = async () => {
+    const ownerDocument = containerRef.current?.ownerDocument ?? document;
+    try {
+      if (ownerDocument.fullscreenElement) {
+        await ownerDocument.exitFullscreen();
+      } else {
+        await containerRef.current?.requestFullscreen();
+      }
+    } catch (fullscreenError) {
+      console.error('Fullscreen request failed:', fullscreenError);
+      toast.error('Fullscreen is not available');
+    }
+  };
+
+  const handleCopyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast.success('Diagram code copied!');
+    } catch (copyError) {
+      toast.error('Failed to copy code');
+    }
+  };
+
+  const handleDownloadSvg = () => {
+    if (!svg) return;
+    downloadBlob(svgToBlob(svg), `${fileName}.svg`);
+  };
+
+  const handleDownloadPng = async () => {
+    if (!svg) return;
+    try {
+      const background = getComputedStyle(viewportRef.current ?? document.body).backgroundColor;
+      downloadBlob(await svgToPngBlob(svg, background), `${fileName}.png`);
+    } catch (exportError) {
+      console.error('PNG export failed:', exportError);
+      toast.error('Failed to export PNG');
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={isFullscreen ? 'bg-background p-2' : undefined}>
+      <Card className={`mb-3 ${isFullscreen ? 'h-full flex flex-col' : ''}`}>
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="text-sm truncate">{title}</CardTitle>
+            <div className="flex gap-1 flex-shrink-0">
+              <Button variant="ghost" size="sm" onClick={handleToggleFullscreen} className="h-6 w-6 p-0" title={isFullscreen ? 'Exit fullscreen' : 'Fullscreen'}>
+                {isFullscreen ? <Minimize className="w-3 h-3" /> : <Maximize2 className="w-3 h-3" />}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleCopyCode} className="h-6 w-6 p-0" title="Copy Mermaid code">
+                <Copy className="w-3 h-3" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleDownloadSvg} disabled={!svg} className="h-6 px-1.5 gap-1 text-xs" title="Download SVG">
+                <Download className="w-3 h-3" />
+                SVG
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleDownloadPng} disabled={!svg} className="h-6 px-1.5 gap-1 text-xs" title="Download PNG">
+                <Download className="w-3 h-3" />
+                PNG
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className={`pt-2 ${isFullscreen ? 'flex-1 min-h-0' : ''}`}>
+          {isRendering ? (
+            <div className="flex items-center justify-center h-32 bg-muted rounded">
+              <div className="text-center space-y-2">
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary mx-auto"></div>
+                <p className="text-xs text-muted-foreground">Rendering diagram...</p>
+              </div>
+            </div>
+          ) : error ? (
+            <div className="rounded border border-destructive/50 p-3 space-y-2">
+              <div className="flex items-center gap-2 text-destructive">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <p className="text-xs font-medium">This diagram could not be rendered</p>
+              </div>
+              <pre className="text-xs text-muted-foreground whitespace-pre-wrap break-words font-mono">{error}</pre>
+              <pre className="text-xs bg-muted p-2 rounded font-mono overflow-auto max-h-40">{code}</pre>
+            </div>
+          ) : (
+            <div
+              ref={viewportRef}
+              className={`relative overflow-hidden rounded border bg-white dark:bg-gray-800 cursor-grab active:cursor-grabbing touch-none select-none ${
+                isFullscreen ? 'h-full' : 'h-64'
+              }`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              onDoubleClick={() => setView(INITIAL_VIEW)}
+            >
+              <div
+                className="absolute inset-0 flex items-center justify-center p-3 [&_svg]:max-h-full"
+                style={{
+                  transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+                  transformOrigin: '0 0',
+                }}
+                // Rendered by Mermaid with securityLevel 'strict'
+                dangerouslySetInnerHTML={{ __html: svg ?? '' }}
+              />
+              <div
+                className="absolute bottom-1 right-1 flex items-center gap-0.5 rounded bg-background/80 backdrop-blur-sm"
+                onPointerDown={(e) => e.stopPropagation()}
+                onDoubleClick={(e) => e.stopPropagation()}
+              >
+                <Button variant="ghost" size="sm" onClick={() => zoomAtCenter(1 / 1.25)} className="h-6 w-6 p-0" title="Zoom out">
+                  <ZoomOut className="w-3 h-3" />
+                </Button>
+                <span className="text-[10px] text-muted-foreground w-8 text-center">{Math.round(view.scale * 100)}%</span>
+                <Button variant="ghost" size="sm" onClick={() => zoomAtCenter(1.25)} className="h-6 w-6 p-0" title="Zoom in">
+                  <ZoomIn className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setView(INITIAL_VIEW)} className="h-6 w-6 p-0" title="Reset view">
+                  <RotateCcw className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TextLayer } from 'pdfjs-dist';
+import type { RenderTask } from 'pdfjs-dist';
+import { AlertCircle } from 'lucide-react';
+import { isRenderCancellation, type PDFDocumentProxy } from '../lib/pdf';
+import { clearAnnotationMarks, clearSearchHits, clearTextHighlights, getLayerText, highlightTextInLayer, markAnnotation, markSearchHit } from '../lib/text-highlight';
+import { resolveAnchor, type Annotation } from '../lib/annotations';
+import { useDevicePixelRatio } from '../hooks/use-device-pixel-ratio';
+
+interface PDFPageProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  scale: number;
+  isDarkMode: boolean;
+  // Passage to highlight and scroll into view once the text layer is ready
+  highlightText?: string | null;
+  // The reader's highlights on this page
+  annotations?: Annotation[];
+  // Outlined and scrolled into view
+  activeAnnotationId?: string | null;
+  onAnnotationClick?: (id: string) => void;
+  // Search hits on this page, as text layer offsets
+  searchHits?: { start: number; end: number }[];
+  // Index into `searchHits` of the current hit, which is scrolled into view
+  activeSearchHit?: number | null;
+}
+
+interface PageSize {
+  width: number;
+  height: number;
+}
+
+// A page that is already shown is redrawn this long after the last zoom step,
+// so a pinch or a run of wheel steps only renders once it settles
+const REDRAW_DELAY_MS = 150;
+
+// Scrolls `element` into view unless `target` is what was last scrolled to
+const scrollIntoViewOnce = (scrolledTo: React.MutableRefObject<string | null>, element: Element | null | undefined, target: string) => {
+  if (!element || scrolledTo.current === target) return;
+  scrolledTo.current = target;
+  element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+};
+
+// Renders a single page as a canvas with a transparent, selectable text layer on top
+export const PDFPage: React.FC<PDFPageProps> = ({
+  pdf,
+  pageNumber,
+  scale,
+  isDarkMode,
+  highlightText,
+  annotations,
+  activeAnnotationId,
+  onAnnotationClick,
+  searchHits,
+  activeSearchHit,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  // Size at scale 1; the page is laid out at the current scale straight away
+  const [pageSize, setPageSize] = useState<PageSize | null>(null);
+  const [isRendering, setIsRendering] = useState(true);
+  // Bumped whenever the text layer is rebuilt, so the marks on it are reapplied
+  const [textLayerVersion, setTextLayerVersion] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const outputScale = useDevicePixelRatio();
+  const renderedPageRef = useRef<{ pdf: PDFDocumentProxy; pageNumber: number } | null>(null);
+  // What was last scrolled into view, so a redraw does not scroll to it again
+  const scrolledToRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const textLayerContainer = textLayerRef.current;
+    if (!canvas || !textLayerContainer) return;
+
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    let textLayer: TextLayer | null = null;
+
+    // A new zoom or screen density only redraws the page: the old drawing stays,
+    // stretched to the new size, until the sharp one replaces it
+    const isRedraw = renderedPageRef.current?.pdf === pdf && renderedPageRef.current.pageNumber === pageNumber;
+
+    const renderPage = async () => {
+      if (isRedraw) {
+        await new Promise((resolve) => setTimeout(resolve, REDRAW_DELAY_MS));
+        if (cancelled) return;
+      } else {
+        renderedPageRef.current = null;
+        scrolledToRef.current = null;
+        setIsRendering(true);
+      }
+      setError(null);
+
+      const page = await pdf.getPage(pageNumber);
+      if (cancelled) return;
+
+      const unscaledViewport = page.getViewport({ scale: 1 });
+      setPageSize({ width: unscaledViewport.width, height: unscaledViewport.height });
+      const viewport = page.getViewport({ scale });
+
+      // Drawn off screen, so the page does not go blank while rendering
+      const buffer = document.createElement('canvas');
+      buffer.width = Math.floor(viewport.width * outputScale);
+      buffer.height = Math.floor(viewport.height * outputScale);
+      const bufferContext = buffer.getContext('2d');
+      if (!bufferContext) throw new Error('Canvas 2D context is not available');
+
+      renderTask = page.render({
+        canvasContext: bufferContext,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+      });
+      await renderTask.promise;
+      if (cancelled) return;
+
+      canvas.width = buffer.width;
+      canvas.height = buffer.height;
+      canvas.getContext('2d')?.drawImage(buffer, 0, 0);
+
+      textLayerContainer.replaceChildren();
+      textLayer = new TextLayer({
+        textContentSource: page.streamTextContent(),
+        container: textLayerContainer,
+        viewport,
+      });
+      await textLayer.render();
+      if (cancelled) return;
+
+      renderedPageRef.current = { pdf, pageNumber };
+      setIsRendering(false);
+      setTextLayerVersion((version) => version + 1);
+    };
+
+    renderPage().catch((renderError) => {
+      if (cancelled || isRenderCancellation(renderError)) return;
+      console.error(`Failed to render page ${pageNumber}:`, renderError);
+      setError('This page could not be rendered.');
+      setIsRendering(false);
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayer?.cancel();
+    };
+  }, [pdf, pageNumber, scale, outputScale]);
+
+  // The text layer is rebuilt on every render, so highlights are reapplied afterwards
+  useEffect(() => {
+    const textLayerContainer = textLayerRef.current;
+    if (!textLayerContainer || isRendering) return;
+
+    clearTextHighlights(textLayerContainer);
+    if (!highlightText) return;
+
+    const highlight = highlightTextInLayer(textLayerContainer, highlightText);
+    scrollIntoViewOnce(scrolledToRef, highlight, `highlight:${highlightText}`);
+  }, [highlightText, isRendering, textLayerVersion]);
+
+  useEffect(() => {
+    const textLayerContainer = textLayerRef.current;
+    if (!textLayerContainer || isRendering) return;
+
+    clearAnnotationMarks(textLayerContainer);
+    const pageText = getLayerText(textLayerContainer);
+    annotations?.forEach((annotation) => {
+      const position = resolveAnchor(pageText, annotation);
+      if (position) {
+        markAnnotation(textLayerContainer, annotation.id, annotation.color, annotation.note.trim().length > 0, position.start, position.end);
+      }
+    });
+
+    if (!activeAnnotationId) return;
+    const activeMarks = textLayerContainer.querySelectorAll<HTMLElement>(`[data-annotation-id="${activeAnnotationId}"]`);
+    activeMarks.forEach((mark) => mark.classList.add('is-active'));
+    scrollIntoViewOnce(scrolledToRef, activeMarks[0], `annotation:${activeAnnotationId}`);
+  }, [annotations, activeAnnotationId, isRendering, textLayerVersion]);
+
+  useEffect(() => {
+    const textLayerContainer = textLayerRef.current;
+    if (!textLayerContainer || isRendering) return;
+
+    clearSearchHits(textLayerContainer);
+    searchHits?.forEach((hit, index) => {
+      const mark = markSearchHit(textLayerContainer, hit.start, hit.end, index === activeSearchHit);
+      if (index === activeSearchHit) scrollIntoViewOnce(scrolledToRef, mark, `search:${hit.start}-${hit.end}`);
+    });
+  }, [searchHits, activeSearchHit, isRendering, textLayerVersion]);
+
+  const handleTextLayerClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    // Clicks that end a text selection are not meant to open the annotation
+    if (!onAnnotationClick || !e.currentTarget.ownerDocument.getSelection()?.isCollapsed) return;
+    const mark = (e.target as HTMLElement).closest<HTMLElement>('[data-annotation-id]');
+    if (mark?.dataset.annotationId) onAnnotationClick(mark.dataset.annotationId);
+  };
+
+  return (
+    <div
+      data-page-number={pageNumber}
+      className="relative shadow-lg rounded-sm overflow-hidden bg-white flex-shrink-0"
+      style={{
+        width: pageSize ? `${pageSize.width * scale}px` : undefined,
+        height: pageSize ? `${pageSize.height * scale}px` : undefined,
+        minWidth: pageSize ? undefined : '16rem',
+        minHeight: pageSize ? undefined : '20rem',
+      }}
+    >
+      <canvas
+        ref={canvasRef}
+        className="block"
+        style={{
+          width: pageSize ? `${pageSize.width * scale}px` : 0,
+          height: pageSize ? `${pageSize.height * scale}px` : 0,
+          filter: isDarkMode ? 'invert(0.88) hue-rotate(180deg)' : undefined,
+        }}
+      />
+      <div
+        ref={textLayerRef}
+        className="textLayer"
+        onClick={handleTextLayerClick}
+        style={{ '--scale-factor': scale } as React.CSSProperties}
+      />
+
+      {isRendering && !error && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      )}
+
+      {error && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-muted text-muted-foreground">
+          <AlertCircle className="w-5 h-5" />
+          <p className="text-xs">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
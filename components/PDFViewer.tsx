@@ -1,17 +1,45 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Moon, Sun, RotateCcw, FileText, MessageCircle, X, Brain, Network, HelpCircle, Gamepad2 } from 'lucide-react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Moon, Sun, AlertCircle, MessageCircle, X, Brain, Network, HelpCircle, Gamepad2, Highlighter, Search, File, Rows3, BookOpen, PanelLeft } from 'lucide-react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Separator } from './ui/separator';
 import { Card } from './ui/card';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from './ui/dropdown-menu';
+import { PDFPage } from './PDFPage';
+import { ContinuousPages } from './ContinuousPages';
+import { PageThumbnails } from './PageThumbnails';
+import { AnnotationsSidebar } from './AnnotationsSidebar';
+import { DocumentSearch } from './DocumentSearch';
+import { useAnnotations } from '../hooks/use-annotations';
+import { useDocumentSearch } from '../hooks/use-document-search';
+import { useFirstPageSize } from '../hooks/use-first-page-size';
+import { useViewerZoom } from '../hooks/use-viewer-zoom';
+import { PDF_TO_CSS_UNITS, type PDFDocumentProxy } from '../lib/pdf';
+import type { PageLabels } from '../lib/page-labels';
+import type { TOC } from '../lib/schemas';
+import { HIGHLIGHT_COLORS, annotationsToMarkdown, createAnchor, type Annotation, type HighlightColor, type TextAnchor } from '../lib/annotations';
+import { getLayerOffset, getLayerText, getRangeOffsets } from '../lib/text-highlight';
+import { getDocumentSelectionContext, getRangeContext, getSectionTitle, type SelectionPosition } from '../lib/selection-context';
+import { downloadBlob } from '../lib/download';
+import type { SearchHit, SearchOptions } from '../lib/search-index';
+import { MAX_ZOOM, MIN_ZOOM, ZOOM_STEPS, stepZoom, type ZoomMode } from '../lib/zoom';
 import { toast } from 'sonner';
 
 interface PDFViewerProps {
   currentPage: number;
-  totalPages: number;
+  // Explicit navigation: buttons, page input, thumbnails, search hits, annotations
   onPageChange: (page: number) => void;
+  // The page most in view changed while scrolling in continuous mode
+  onPageScroll: (page: number) => void;
   documentId: string;
   fileName: string;
+  pdf: PDFDocumentProxy | null;
+  pageLabels: PageLabels | null;
+  // Names the section a selection comes from in the context sent to the tools
+  toc?: TOC;
+  loadError?: Error | null;
+  // Passage to highlight, e.g. from a citation in the chat
+  highlight?: { page: number; text: string } | null;
   onTextHighlight?: (selectedText: string, context: string, toolType?: string) => void;
 }
 
@@ -19,9 +47,31 @@ interface TextSelection {
   text: string;
   x: number;
   y: number;
+  // Sentences around the selection as rendered; replaced by the book's text when a tool is picked
   context: string;
+  // Set when the selection starts and ends on page text
+  position: SelectionPosition | null;
+  // Set when the selection is on one page's text, so it can be highlighted
+  anchor: TextAnchor | null;
 }
 
+// One page at a time, every page in a scrolling column, or two pages side by side
+type ViewMode = 'single' | 'continuous' | 'spread';
+
+const VIEW_MODES: { id: ViewMode; label: string; icon: React.ReactNode }[] = [
+  { id: 'single', label: 'Single page', icon: <File className="w-4 h-4" /> },
+  { id: 'continuous', label: 'Continuous scroll', icon: <Rows3 className="w-4 h-4" /> },
+  { id: 'spread', label: 'Two-page spread', icon: <BookOpen className="w-4 h-4" /> },
+];
+
+const FIT_MODES: { id: Exclude<ZoomMode, 'custom'>; label: string }[] = [
+  { id: 'fit-width', label: 'Fit width' },
+  { id: 'fit-page', label: 'Fit page' },
+];
+
+const NO_ANNOTATIONS: Annotation[] = [];
+const NO_SEARCH_HITS: SearchHit[] = [];
+
 interface Tool {
   id: string;
   name: string;
@@ -70,58 +120,110 @@ const availableTools: Tool[] = [
 
 export const PDFViewer: React.FC<PDFViewerProps> = ({
   currentPage,
-  totalPages,
   onPageChange,
+  onPageScroll,
   documentId,
   fileName,
+  pdf,
+  pageLabels,
+  toc,
+  loadError,
+  highlight,
   onTextHighlight,
 }) => {
-  const [zoom, setZoom] = useState(1.0);
   const [isDarkMode, setIsDarkMode] = useState(true);
-  const [pageInput, setPageInput] = useState(currentPage.toString());
+  const [pageInput, setPageInput] = useState(pageLabels?.getLabel(currentPage) ?? currentPage.toString());
   const [textSelection, setTextSelection] = useState<TextSelection | null>(null);
   const [showPopup, setShowPopup] = useState(false);
   const [hoveredTool, setHoveredTool] = useState<string | null>(null);
-  const contentRef = useRef<HTMLDivElement>(null);
+  const [isAnnotationsOpen, setIsAnnotationsOpen] = useState(false);
+  const [activeAnnotationId, setActiveAnnotationId] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>('single');
+  const [showThumbnails, setShowThumbnails] = useState(false);
+  const [scrollRoot, setScrollRoot] = useState<HTMLDivElement | null>(null);
   const popupRef = useRef<HTMLDivElement>(null);
 
+  const firstPageSize = useFirstPageSize(pdf);
+  const { zoom, setting: zoomSetting, changeZoom } = useViewerZoom({
+    documentId,
+    scrollRoot,
+    pageSize: firstPageSize,
+    columns: viewMode === 'spread' ? 2 : 1,
+  });
+
+  const { annotations, addAnnotation, updateAnnotation, removeAnnotation } = useAnnotations(documentId);
+  // Memoised so pages only re-mark their text when the highlights change
+  const annotationsByPage = useMemo(() => {
+    const byPage = new Map<number, Annotation[]>();
+    annotations.forEach((annotation) => {
+      byPage.set(annotation.page, [...(byPage.get(annotation.page) ?? []), annotation]);
+    });
+    return byPage;
+  }, [annotations]);
+
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  // Indexing starts the first time search is opened and is kept afterwards
+  const [isSearchEnabled, setIsSearchEnabled] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>({ caseSensitive: false, wholeWord: false });
+  const [activeSearchHit, setActiveSearchHit] = useState<number | null>(null);
+  const search = useDocumentSearch(pdf, isSearchEnabled, searchQuery, searchOptions);
+  const searchHits = search.results.hits;
+  const currentSearchHit = activeSearchHit !== null && activeSearchHit < searchHits.length ? activeSearchHit : null;
+
+  // Hits on each page, with the index of the page's first hit in `searchHits`
+  const searchHitsByPage = useMemo(() => {
+    const byPage = new Map<number, { first: number; hits: SearchHit[] }>();
+    searchHits.forEach((hit, index) => {
+      const pageHits = byPage.get(hit.page);
+      if (pageHits) pageHits.hits.push(hit);
+      else byPage.set(hit.page, { first: index, hits: [hit] });
+    });
+    return byPage;
+  }, [searchHits]);
+
+  const totalPages = pageLabels?.numPages ?? 0;
+  const getPageLabel = useCallback((page: number) => pageLabels?.getLabel(page) ?? String(page), [pageLabels]);
+
+  // A spread shows an odd page and the one after it
+  const spreadStart = currentPage % 2 === 1 ? currentPage : currentPage - 1;
+  const firstShownPage = viewMode === 'spread' ? spreadStart : currentPage;
+  const lastShownPage = viewMode === 'spread' ? Math.min(spreadStart + 1, totalPages) : currentPage;
+
   const handleZoomIn = () => {
-    setZoom(Math.min(zoom + 0.1, 2.0));
+    changeZoom({ mode: 'custom', zoom: stepZoom(zoom, 1) });
   };
 
   const handleZoomOut = () => {
-    setZoom(Math.max(zoom - 0.1, 0.5));
-  };
-
-  const handleResetZoom = () => {
-    setZoom(1.0);
+    changeZoom({ mode: 'custom', zoom: stepZoom(zoom, -1) });
   };
 
   const handlePrevPage = () => {
-    if (currentPage > 1) {
-      onPageChange(currentPage - 1);
+    if (firstShownPage > 1) {
+      onPageChange(viewMode === 'spread' ? Math.max(1, spreadStart - 2) : currentPage - 1);
     }
   };
 
   const handleNextPage = () => {
-    if (currentPage < totalPages) {
-      onPageChange(currentPage + 1);
+    if (lastShownPage < totalPages) {
+      onPageChange(lastShownPage + 1);
     }
   };
 
   const handlePageInputSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const page = parseInt(pageInput);
-    if (!isNaN(page) && page >= 1 && page <= totalPages) {
+    // Accept either the printed page label (e.g. "xii") or the physical page number
+    const page = pageLabels?.getPageIndex(pageInput) ?? null;
+    if (page !== null) {
       onPageChange(page);
     } else {
-      setPageInput(currentPage.toString());
+      setPageInput(pageLabels?.getLabel(currentPage) ?? currentPage.toString());
     }
   };
 
   React.useEffect(() => {
-    setPageInput(currentPage.toString());
-  }, [currentPage]);
+    setPageInput(pageLabels?.getLabel(currentPage) ?? currentPage.toString());
+  }, [currentPage, pageLabels]);
 
   // Handle text selection
   const handleTextSelection = useCallback(() => {
@@ -143,22 +245,33 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
     const range = selection.getRangeAt(0);
     const rect = range.getBoundingClientRect();
     
-    // Get surrounding context (previous and next sentences)
-    const container = range.commonAncestorContainer;
-    const textContent = container.textContent || '';
-    const startOffset = range.startOffset;
-    const endOffset = range.endOffset;
-    
-    // Extract context around the selection
-    const beforeText = textContent.substring(Math.max(0, startOffset - 100), startOffset);
-    const afterText = textContent.substring(endOffset, Math.min(textContent.length, endOffset + 100));
-    const context = `${beforeText}${selectedText}${afterText}`.trim();
+    // Several pages can be shown, and a selection may run from one onto the next
+    const getTextLayer = (node: Node) => {
+      const element = node instanceof Element ? node : node.parentElement;
+      const textLayer = element?.closest<HTMLElement>('.textLayer');
+      const pageElement = textLayer?.closest<HTMLElement>('[data-page-number]');
+      return textLayer && pageElement ? { textLayer, page: Number(pageElement.dataset.pageNumber) } : null;
+    };
+    const startLayer = getTextLayer(range.startContainer);
+    const endLayer = getTextLayer(range.endContainer);
+    const position = startLayer && endLayer ? {
+      startPage: startLayer.page,
+      start: getLayerOffset(startLayer.textLayer, range.startContainer, range.startOffset),
+      endPage: endLayer.page,
+      end: getLayerOffset(endLayer.textLayer, range.endContainer, range.endOffset),
+    } : null;
+    // Highlights are anchored to a single page
+    const offsets = startLayer && startLayer.page === endLayer?.page ? getRangeOffsets(startLayer.textLayer, range) : null;
 
     setTextSelection({
       text: selectedText,
       x: rect.left + rect.width / 2,
       y: rect.top - 10,
-      context: context
+      context: getRangeContext(range),
+      position,
+      anchor: startLayer && offsets
+        ? createAnchor(getLayerText(startLayer.textLayer), startLayer.page, offsets.start, offsets.end)
+        : null,
     });
     setShowPopup(true);
   }, []);
@@ -203,15 +316,33 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
     }
   }, [showPopup]);
 
-  const handleToolSelect = (toolId: string) => {
+  // The book's text around the selection, headed by its section and pages; the
+  // rendered context is kept if the text cannot be read
+  const getSelectionContext = async (selection: TextSelection): Promise<string> => {
+    const { position } = selection;
+    if (!pdf || !position) return selection.context;
+    const pages = position.startPage === position.endPage
+      ? getPageLabel(position.startPage)
+      : `${getPageLabel(position.startPage)}–${getPageLabel(position.endPage)}`;
+    try {
+      return await getDocumentSelectionContext(pdf, position, { pages, section: getSectionTitle(toc, pageLabels, position.startPage) });
+    } catch (error) {
+      console.error('Failed to read the context of the selection:', error);
+      return selection.context;
+    }
+  };
+
+  const handleToolSelect = async (toolId: string) => {
     if (textSelection && onTextHighlight) {
-      // For "ask" tool, use the original behavior, for others pass the tool type
-      const toolType = toolId === 'ask' ? undefined : toolId;
-      onTextHighlight(textSelection.text, textSelection.context, toolType);
+      const selection = textSelection;
       setShowPopup(false);
       setTextSelection(null);
       setHoveredTool(null);
       window.getSelection()?.removeAllRanges();
+
+      // For "ask" tool, use the original behavior, for others pass the tool type
+      const toolType = toolId === 'ask' ? undefined : toolId;
+      onTextHighlight(selection.text, await getSelectionContext(selection), toolType);
       
       // Show appropriate toast message
       const tool = availableTools.find(t => t.id === toolId);
@@ -221,6 +352,77 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
     }
   };
 
+  const handleHighlight = (color: HighlightColor) => {
+    if (!textSelection?.anchor) return;
+    const annotation = addAnnotation(textSelection.anchor, color);
+    handleClosePopup();
+    toast.success('Highlight saved', {
+      action: {
+        label: 'Add note',
+        onClick: () => {
+          setActiveAnnotationId(annotation.id);
+          setIsAnnotationsOpen(true);
+        },
+      },
+    });
+  };
+
+  const handleSelectAnnotation = (annotation: Annotation) => {
+    setActiveAnnotationId(annotation.id);
+    if (annotation.page !== currentPage) onPageChange(annotation.page);
+  };
+
+  const handleAnnotationClick = useCallback((id: string) => {
+    setActiveAnnotationId(id);
+    setIsAnnotationsOpen(true);
+  }, []);
+
+  const handleRemoveAnnotation = (id: string) => {
+    removeAnnotation(id);
+    if (activeAnnotationId === id) setActiveAnnotationId(null);
+  };
+
+  const handleExportAnnotations = () => {
+    const markdown = annotationsToMarkdown(annotations, fileName, getPageLabel);
+    downloadBlob(new Blob([markdown], { type: 'text/markdown' }), `${fileName.replace(/\.pdf$/i, '')} - highlights.md`);
+  };
+
+  const handleOpenSearch = () => {
+    setIsSearchOpen(true);
+    setIsSearchEnabled(true);
+  };
+
+  const handleSearchQueryChange = (query: string) => {
+    setSearchQuery(query);
+    setActiveSearchHit(null);
+  };
+
+  const handleSearchOptionsChange = (options: SearchOptions) => {
+    setSearchOptions(options);
+    setActiveSearchHit(null);
+  };
+
+  const selectSearchHit = (index: number) => {
+    setActiveSearchHit(index);
+    const hit = searchHits[index];
+    if (hit && hit.page !== currentPage) onPageChange(hit.page);
+  };
+
+  // The first step goes to the nearest hit from the shown page onwards
+  const stepSearchHit = (offset: 1 | -1) => {
+    if (searchHits.length === 0) return;
+    if (currentSearchHit !== null) {
+      selectSearchHit((currentSearchHit + offset + searchHits.length) % searchHits.length);
+      return;
+    }
+    const next = searchHits.findIndex((hit) => hit.page >= currentPage);
+    if (offset === 1) {
+      selectSearchHit(next === -1 ? 0 : next);
+    } else {
+      selectSearchHit(next <= 0 ? searchHits.length - 1 : next - 1);
+    }
+  };
+
   const handleClosePopup = () => {
     setShowPopup(false);
     setTextSelection(null);
@@ -228,47 +430,26 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
     window.getSelection()?.removeAllRanges();
   };
 
-  // Generate dynamic content based on current page
-  const generatePageContent = () => {
-    const chapterNum = Math.ceil(currentPage / 20);
-    const sectionNum = Math.ceil((currentPage % 20) / 5) || 1;
-    
-    const topics = [
-      "Algorithm Analysis and Complexity",
-      "Data Structures and Abstract Data Types", 
-      "Sorting and Searching Algorithms",
-      "Graph Algorithms and Network Flow",
-      "Dynamic Programming Techniques",
-      "Greedy Algorithms and Optimization",
-      "Divide and Conquer Strategies",
-      "Advanced Tree Structures"
-    ];
-    
-    const currentTopic = topics[(currentPage - 1) % topics.length];
-    
-    const concepts = [
-      ["Big O Notation", "Time Complexity", "Space Complexity", "Asymptotic Analysis"],
-      ["Arrays", "Linked Lists", "Stacks", "Queues", "Hash Tables"],
-      ["Quick Sort", "Merge Sort", "Binary Search", "Heap Sort"],
-      ["BFS", "DFS", "Dijkstra's Algorithm", "Minimum Spanning Trees"],
-      ["Optimal Substructure", "Memoization", "Tabulation", "State Transitions"],
-      ["Greedy Choice Property", "Activity Selection", "Huffman Coding", "Fractional Knapsack"],
-      ["Recurrence Relations", "Master Theorem", "Binary Search Trees", "FFT"],
-      ["AVL Trees", "Red-Black Trees", "B-Trees", "Segment Trees"]
-    ];
-    
-    const currentConcepts = concepts[(currentPage - 1) % concepts.length];
-    
-    return {
-      chapter: chapterNum,
-      section: sectionNum,
-      topic: currentTopic,
-      concepts: currentConcepts
-    };
+  const renderPage = (pageNumber: number) => {
+    if (!pdf) return null;
+    const pageSearch = searchHitsByPage.get(pageNumber);
+    const isActiveHitPage = currentSearchHit !== null && searchHits[currentSearchHit].page === pageNumber;
+    return (
+      <PDFPage
+        pdf={pdf}
+        pageNumber={pageNumber}
+        scale={zoom * PDF_TO_CSS_UNITS}
+        isDarkMode={isDarkMode}
+        highlightText={highlight?.page === pageNumber ? highlight.text : null}
+        annotations={annotationsByPage.get(pageNumber) ?? NO_ANNOTATIONS}
+        activeAnnotationId={activeAnnotationId}
+        onAnnotationClick={handleAnnotationClick}
+        searchHits={isSearchOpen ? pageSearch?.hits ?? NO_SEARCH_HITS : undefined}
+        activeSearchHit={pageSearch && isActiveHitPage ? currentSearchHit - pageSearch.first : null}
+      />
+    );
   };
 
-  const pageContent = generatePageContent();
-
   return (
     <div className="flex flex-col h-full bg-background overflow-hidden relative">
       {/* Enhanced Text Selection Popup with All Tools */}
@@ -333,6 +514,21 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
               </div>
             </div>
 
+            {textSelection.anchor && (
+              <div className="mt-3 flex items-center gap-2">
+                <p className="text-xs text-muted-foreground">Highlight:</p>
+                {HIGHLIGHT_COLORS.map((color) => (
+                  <button
+                    key={color.id}
+                    type="button"
+                    onClick={() => handleHighlight(color.id)}
+                    className={`h-5 w-5 rounded-full ${color.swatch} hover:ring-2 hover:ring-offset-1 hover:ring-primary`}
+                    title={`Highlight in ${color.label.toLowerCase()}`}
+                  />
+                ))}
+              </div>
+            )}
+
             {/* Quick hint */}
             <div className="mt-3 pt-2 border-t">
               <p className="text-xs text-muted-foreground text-center">
@@ -345,23 +541,58 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
 
       {/* Compact Toolbar with Centered Navigation */}
       <div className="border-b p-2 flex items-center justify-between bg-card flex-shrink-0">
-        {/* Left: Zoom Controls */}
+        {/* Left: Thumbnails and Zoom Controls */}
         <div className="flex items-center gap-2">
-          <Button variant="outline" size="sm" onClick={handleZoomOut} className="h-7">
+          <Button
+            variant={showThumbnails ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setShowThumbnails(!showThumbnails)}
+            disabled={!pdf}
+            className="h-7"
+            title="Page thumbnails"
+          >
+            <PanelLeft className="w-4 h-4" />
+          </Button>
+
+          <Button variant="outline" size="sm" onClick={handleZoomOut} disabled={zoom <= MIN_ZOOM} className="h-7">
             <ZoomOut className="w-4 h-4" />
           </Button>
           
-          <span className="text-xs text-muted-foreground min-w-[2.5rem] text-center">
-            {Math.round(zoom * 100)}%
-          </span>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-7 px-1 text-xs text-muted-foreground min-w-[3rem]" title="Zoom presets">
+                {Math.round(zoom * 100)}%
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              {FIT_MODES.map((mode) => (
+                <DropdownMenuItem
+                  key={mode.id}
+                  onSelect={() => changeZoom({ mode: mode.id, zoom })}
+                  className={`text-xs ${zoomSetting.mode === mode.id ? 'font-medium' : ''}`}
+                >
+                  {mode.label}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuItem onSelect={() => changeZoom({ mode: 'custom', zoom: 1 })} className="text-xs">
+                Actual size
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              {ZOOM_STEPS.map((step) => (
+                <DropdownMenuItem
+                  key={step}
+                  onSelect={() => changeZoom({ mode: 'custom', zoom: step })}
+                  className={`text-xs ${zoomSetting.mode === 'custom' && zoomSetting.zoom === step ? 'font-medium' : ''}`}
+                >
+                  {step * 100}%
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
           
-          <Button variant="outline" size="sm" onClick={handleZoomIn} className="h-7">
+          <Button variant="outline" size="sm" onClick={handleZoomIn} disabled={zoom >= MAX_ZOOM} className="h-7">
             <ZoomIn className="w-4 h-4" />
           </Button>
-
-          <Button variant="outline" size="sm" onClick={handleResetZoom} className="h-7">
-            <RotateCcw className="w-4 h-4" />
-          </Button>
         </div>
 
         {/* Center: Page Navigation */}
@@ -370,7 +601,7 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
             variant="outline"
             size="sm"
             onClick={handlePrevPage}
-            disabled={currentPage <= 1}
+            disabled={firstShownPage <= 1}
             className="h-7"
           >
             <ChevronLeft className="w-4 h-4" />
@@ -384,22 +615,58 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
               className="w-12 text-center h-7 text-xs"
               size={3}
             />
-            <span className="text-muted-foreground text-xs">of {totalPages}</span>
+            <span className="text-muted-foreground text-xs">
+              {pageLabels?.hasCustomLabels ? `(${currentPage} of ${totalPages})` : `of ${totalPages}`}
+            </span>
           </form>
           
           <Button
             variant="outline"
             size="sm"
             onClick={handleNextPage}
-            disabled={currentPage >= totalPages}
+            disabled={lastShownPage >= totalPages}
             className="h-7"
           >
             <ChevronRight className="w-4 h-4" />
           </Button>
         </div>
 
-        {/* Right: Dark Mode Toggle */}
+        {/* Right: View Mode, Search, Highlights and Dark Mode Toggle */}
         <div className="flex items-center gap-2">
+          <div className="flex items-center">
+            {VIEW_MODES.map((mode) => (
+              <Button
+                key={mode.id}
+                variant={viewMode === mode.id ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setViewMode(mode.id)}
+                className="h-7 w-7 p-0"
+                title={mode.label}
+              >
+                {mode.icon}
+              </Button>
+            ))}
+          </div>
+          <Button
+            variant={isSearchOpen ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => (isSearchOpen ? setIsSearchOpen(false) : handleOpenSearch())}
+            disabled={!pdf}
+            className="h-7"
+            title="Search"
+          >
+            <Search className="w-4 h-4" />
+          </Button>
+          <Button
+            variant={isAnnotationsOpen ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setIsAnnotationsOpen(!isAnnotationsOpen)}
+            className="h-7 gap-1"
+            title="Highlights"
+          >
+            <Highlighter className="w-4 h-4" />
+            {annotations.length > 0 && <span className="text-xs">{annotations.length}</span>}
+          </Button>
           <Button
             variant="outline"
             size="sm"
@@ -411,166 +678,91 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
         </div>
       </div>
 
-      {/* PDF Content Area with Custom Scrollbar */}
-      <div 
-        className={`flex-1 overflow-auto transition-colors custom-scrollbar ${
-          isDarkMode ? 'bg-gray-900' : 'bg-gray-100'
-        }`}
-      >        
-        <div className="h-full flex justify-center p-3">
-          <div 
-            ref={contentRef}
-            className={`w-full max-w-4xl transition-all duration-200 ${
-              isDarkMode ? 'bg-gray-800 text-gray-100' : 'bg-white text-gray-900'
-            } rounded-lg shadow-lg overflow-hidden select-text`}
-            style={{ 
-              fontSize: `${zoom}em`,
-              lineHeight: 1.6
-            }}
-          >
-            <div className="p-4 lg:p-6 h-full overflow-auto">
-              {/* PDF Header - Compact */}
-              <div className="flex items-center gap-3 mb-4 pb-3 border-b">
-                <FileText className="w-5 h-5 text-blue-500 flex-shrink-0" />
-                <div className="min-w-0">
-                  <h1 className="text-lg mb-1 truncate">{fileName}</h1>
-                  <p className="text-xs text-muted-foreground">Page {currentPage} of {totalPages}</p>
-                </div>
-              </div>
+      {isSearchOpen && (
+        <DocumentSearch
+          query={searchQuery}
+          onQueryChange={handleSearchQueryChange}
+          options={searchOptions}
+          onOptionsChange={handleSearchOptionsChange}
+          results={search.results}
+          isSearching={search.isSearching}
+          indexedPages={search.indexedPages}
+          totalPages={totalPages}
+          activeHit={currentSearchHit}
+          onSelectHit={selectSearchHit}
+          onStep={stepSearchHit}
+          getPageLabel={getPageLabel}
+          onClose={() => setIsSearchOpen(false)}
+        />
+      )}
 
-              {/* Dynamic Content - Tighter spacing with selectable text */}
-              <div className="space-y-4 user-select-text">
-                <div className="border-b pb-3">
-                  <h1 className="text-2xl mb-2">Chapter {pageContent.chapter}: {pageContent.topic}</h1>
-                  <p className="text-muted-foreground text-sm">Section {pageContent.section} - Introduction and Fundamentals</p>
+      <div className="flex-1 min-h-0 flex">
+        {showThumbnails && pdf && (
+          <PageThumbnails
+            pdf={pdf}
+            currentPage={currentPage}
+            isDarkMode={isDarkMode}
+            getPageLabel={getPageLabel}
+            onPageSelect={onPageChange}
+          />
+        )}
+
+        {/* PDF Content Area with Custom Scrollbar */}
+        <div 
+          ref={setScrollRoot}
+          className={`flex-1 min-w-0 overflow-auto transition-colors custom-scrollbar ${
+            isDarkMode ? 'bg-gray-900' : 'bg-gray-100'
+          }`}
+        >        
+          <div className="min-h-full flex justify-center p-3">
+            <div className="select-text">
+              {pdf && viewMode === 'continuous' ? (
+                <ContinuousPages
+                  pdf={pdf}
+                  scale={zoom * PDF_TO_CSS_UNITS}
+                  currentPage={currentPage}
+                  scrollRoot={scrollRoot}
+                  onVisiblePageChange={onPageScroll}
+                  renderPage={renderPage}
+                />
+              ) : pdf && viewMode === 'spread' ? (
+                <div className="flex gap-3">
+                  {renderPage(spreadStart)}
+                  {spreadStart + 1 <= totalPages && renderPage(spreadStart + 1)}
                 </div>
-                
-                <div className="space-y-3">
-                  <h2 className="text-xl">Overview</h2>
-                  <p className="leading-relaxed text-sm">
-                    This section introduces the fundamental concepts of {pageContent.topic.toLowerCase()}. 
-                    Understanding these principles is essential for developing efficient algorithms and 
-                    solving complex computational problems in computer science. Algorithm analysis provides 
-                    the mathematical foundation for understanding how programs behave under different conditions.
-                  </p>
-                  
-                  <p className="leading-relaxed text-sm">
-                    The concepts covered in this chapter build upon previous knowledge and provide 
-                    the foundation for more advanced topics. Students should focus on understanding 
-                    both the theoretical aspects and practical applications. Performance analysis is crucial 
-                    for writing efficient code that scales well with larger input sizes.
-                  </p>
-                  
-                  <h3 className="text-lg mt-4">Key Concepts</h3>
-                  <ul className="grid grid-cols-1 md:grid-cols-2 gap-1 list-disc pl-4">
-                    {pageContent.concepts.map((concept, index) => (
-                      <li key={index} className="leading-relaxed text-sm">{concept}</li>
-                    ))}
-                  </ul>
-                  
-                  <div className={`mt-6 p-3 rounded-lg ${
-                    isDarkMode ? 'bg-blue-900/20 border border-blue-800' : 'bg-blue-50 border border-blue-200'
-                  }`}>
-                    <h4 className="flex items-center gap-2 mb-2 text-sm">
-                      <span className="text-blue-500">💡</span>
-                      Study Tip
-                    </h4>
-                    <p className="text-xs">
-                      Practice implementing these concepts in your preferred programming language. 
-                      Use the study tools on the right to create flashcards and quizzes for better retention. 
-                      Work through the exercises at the end of each section to reinforce your understanding.
-                      <strong> Try highlighting any text in this document to access all learning tools instantly!</strong>
-                    </p>
-                  </div>
-
-                  {/* Detailed Algorithm Analysis Section */}
-                  <div className="mt-6 space-y-3">
-                    <h3 className="text-lg">Algorithm Analysis in Detail</h3>
-                    <p className="text-sm leading-relaxed">
-                      Algorithm analysis is the theoretical study of computer program performance and resource usage. 
-                      It involves mathematical techniques to describe the running time of an algorithm as a function 
-                      of its input size. This analysis helps us predict how the algorithm will perform on large datasets 
-                      and compare different algorithmic approaches.
-                    </p>
-                    
-                    <p className="text-sm leading-relaxed">
-                      The most common complexity measures are time complexity and space complexity. Time complexity 
-                      describes how the running time increases with input size, while space complexity describes 
-                      how memory usage grows. Both are typically expressed using Big O notation, which provides 
-                      an upper bound on the growth rate.
-                    </p>
-
-                    <h4 className="text-base mt-4">Common Time Complexities</h4>
-                    <div className="space-y-2 text-sm">
-                      <p><strong>O(1) - Constant Time:</strong> Operations that take the same amount of time regardless of input size, such as array indexing or hash table lookups.</p>
-                      <p><strong>O(log n) - Logarithmic Time:</strong> Algorithms that divide the problem in half at each step, like binary search or balanced tree operations.</p>
-                      <p><strong>O(n) - Linear Time:</strong> Algorithms that examine each element once, such as linear search or finding the maximum element in an unsorted array.</p>
-                      <p><strong>O(n log n) - Linearithmic Time:</strong> Efficient sorting algorithms like merge sort and heap sort fall into this category.</p>
-                      <p><strong>O(n²) - Quadratic Time:</strong> Algorithms with nested loops over the input, such as bubble sort or simple matrix multiplication.</p>
+              ) : pdf ? (
+                renderPage(currentPage)
+              ) : (
+                <div className="h-64 flex items-center justify-center">
+                  {loadError ? (
+                    <div className="text-center space-y-2 text-muted-foreground">
+                      <AlertCircle className="w-6 h-6 mx-auto" />
+                      <p className="text-sm">Failed to load {fileName}</p>
                     </div>
-                  </div>
-
-                  {/* Example/Algorithm Box - Compact */}
-                  <div className={`mt-4 p-3 rounded-lg font-mono text-xs ${
-                    isDarkMode ? 'bg-gray-700 border border-gray-600' : 'bg-gray-50 border border-gray-300'
-                  }`}>
-                    <h4 className="mb-2 font-sans text-sm">Algorithm Example: Binary Search</h4>
-                    <pre className="whitespace-pre-wrap overflow-auto">
-{`function binarySearch(arr, target) {
-  let left = 0;
-  let right = arr.length - 1;
-  
-  while (left <= right) {
-    let mid = Math.floor((left + right) / 2);
-    
-    if (arr[mid] === target) {
-      return mid; // Found target at index mid
-    } else if (arr[mid] < target) {
-      left = mid + 1; // Search right half
-    } else {
-      right = mid - 1; // Search left half
-    }
-  }
-  
-  return -1; // Target not found
-}
-
-// Time Complexity: O(log n)
-// Space Complexity: O(1)`}
-                    </pre>
-                  </div>
-
-                  {/* Exercises Section - Compact */}
-                  <div className="mt-6">
-                    <h3 className="text-lg mb-3">Practice Exercises</h3>
-                    <div className="space-y-2">
-                      <div className={`p-2 rounded text-sm ${
-                        isDarkMode ? 'bg-gray-700' : 'bg-gray-50'
-                      }`}>
-                        <p><strong>Exercise {currentPage}.1:</strong> Implement the basic binary search algorithm and analyze its time complexity step by step. Explain why it's O(log n).</p>
-                      </div>
-                      <div className={`p-2 rounded text-sm ${
-                        isDarkMode ? 'bg-gray-700' : 'bg-gray-50'
-                      }`}>
-                        <p><strong>Exercise {currentPage}.2:</strong> Compare linear search vs binary search performance. When would you use each approach?</p>
-                      </div>
-                      <div className={`p-2 rounded text-sm ${
-                        isDarkMode ? 'bg-gray-700' : 'bg-gray-50'
-                      }`}>
-                        <p><strong>Exercise {currentPage}.3:</strong> Apply the concept to solve a real-world problem: design an efficient algorithm to find a specific record in a large sorted database.</p>
-                      </div>
+                  ) : (
+                    <div className="text-center space-y-2">
+                      <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mx-auto"></div>
+                      <p className="text-xs text-muted-foreground">Loading document...</p>
                     </div>
-                  </div>
+                  )}
                 </div>
-              </div>
-
-              {/* Footer - Compact */}
-              <div className="mt-8 pt-4 border-t text-center text-xs text-muted-foreground">
-                <p>Introduction to Algorithms • Page {currentPage} • Highlight text to access all learning tools</p>
-              </div>
+              )}
             </div>
           </div>
         </div>
+
+        {isAnnotationsOpen && (
+          <AnnotationsSidebar
+            annotations={annotations}
+            activeId={activeAnnotationId}
+            getPageLabel={getPageLabel}
+            onSelect={handleSelectAnnotation}
+            onUpdate={updateAnnotation}
+            onRemove={handleRemoveAnnotation}
+            onExport={handleExportAnnotations}
+            onClose={() => setIsAnnotationsOpen(false)}
+          />
+        )}
       </div>
     </div>
   );
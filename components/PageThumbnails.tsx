@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { RenderTask } from 'pdfjs-dist';
+import { usePageSlots } from '../hooks/use-page-slots';
+import { useFirstPageSize } from '../hooks/use-first-page-size';
+import { useDevicePixelRatio } from '../hooks/use-device-pixel-ratio';
+import { isRenderCancellation, type PDFDocumentProxy } from '../lib/pdf';
+
+// CSS width of a thumbnail
+const THUMBNAIL_WIDTH = 96;
+
+interface PageThumbnailProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  isDarkMode: boolean;
+}
+
+const PageThumbnail: React.FC<PageThumbnailProps> = ({ pdf, pageNumber, isDarkMode }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [height, setHeight] = useState<number | null>(null);
+  const outputScale = useDevicePixelRatio();
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    const renderThumbnail = async () => {
+      const page = await pdf.getPage(pageNumber);
+      if (cancelled) return;
+
+      const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width });
+      canvas.width = Math.floor(viewport.width * outputScale);
+      canvas.height = Math.floor(viewport.height * outputScale);
+      setHeight(viewport.height);
+
+      const canvasContext = canvas.getContext('2d');
+      if (!canvasContext) throw new Error('Canvas 2D context is not available');
+
+      renderTask = page.render({
+        canvasContext,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+      });
+      await renderTask.promise;
+    };
+
+    renderThumbnail().catch((error) => {
+      if (cancelled || isRenderCancellation(error)) return;
+      console.error(`Failed to render the thumbnail of page ${pageNumber}:`, error);
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, outputScale]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="block bg-white"
+      style={{
+        width: `${THUMBNAIL_WIDTH}px`,
+        height: height ? `${height}px` : 0,
+        filter: isDarkMode ? 'invert(0.88) hue-rotate(180deg)' : undefined,
+      }}
+    />
+  );
+};
+
+interface PageThumbnailsProps {
+  pdf: PDFDocumentProxy;
+  currentPage: number;
+  isDarkMode: boolean;
+  getPageLabel: (page: number) => string;
+  onPageSelect: (page: number) => void;
+}
+
+// Strip of page previews beside the viewer. Only the thumbnails near the
+// visible part of the strip are drawn.
+export const PageThumbnails: React.FC<PageThumbnailsProps> = ({ pdf, currentPage, isDarkMode, getPageLabel, onPageSelect }) => {
+  const [scrollRoot, setScrollRoot] = useState<HTMLDivElement | null>(null);
+  const nearPages = usePageSlots(scrollRoot, pdf.numPages);
+  const firstPageSize = useFirstPageSize(pdf);
+  const placeholderHeight = (THUMBNAIL_WIDTH * firstPageSize.height) / firstPageSize.width;
+
+  // Keeps the current page's thumbnail in view as the reader moves through the book
+  useEffect(() => {
+    scrollRoot?.querySelector(`[data-page-slot="${currentPage}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [currentPage, scrollRoot]);
+
+  return (
+    <div ref={setScrollRoot} className="w-32 flex-shrink-0 border-r bg-card overflow-y-auto custom-scrollbar">
+      <div className="flex flex-col items-center gap-3 p-2">
+        {Array.from({ length: pdf.numPages }, (_, i) => i + 1).map((pageNumber) => (
+          <button
+            key={pageNumber}
+            type="button"
+            data-page-slot={pageNumber}
+            onClick={() => onPageSelect(pageNumber)}
+            className="flex flex-col items-center gap-1 text-xs"
+            title={`Page ${getPageLabel(pageNumber)}`}
+          >
+            <span
+              className={`block rounded-sm overflow-hidden shadow ring-offset-1 ${
+                pageNumber === currentPage ? 'ring-2 ring-primary' : 'hover:ring-2 hover:ring-muted-foreground/40'
+              }`}
+              style={{ minWidth: `${THUMBNAIL_WIDTH}px`, minHeight: `${placeholderHeight}px` }}
+            >
+              {nearPages.has(pageNumber) && <PageThumbnail pdf={pdf} pageNumber={pageNumber} isDarkMode={isDarkMode} />}
+            </span>
+            <span className={pageNumber === currentPage ? 'font-medium' : 'text-muted-foreground'}>
+              {getPageLabel(pageNumber)}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
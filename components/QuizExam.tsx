@@ -0,0 +1,300 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Clock, Flag, Loader2, Timer } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader } from './ui/card';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { formatDuration, getDefaultTimeLimit, type ExamSettings, type ExamState, type QuizAttempt } from '../lib/quiz-attempts';
+import { stripOptionLabel } from '../lib/quiz-grading';
+import { useOverlayPlacement } from '../lib/overlay-placement';
+import type { QuizQuestion } from '../lib/schemas';
+
+const TIME_LIMIT_OPTIONS = [5, 10, 15, 20, 30, 45, 60, 90];
+const NO_LIMIT = 'none';
+
+interface ExamSetupProps {
+  questionCount: number;
+  onStart: (settings: ExamSettings) => void;
+  onCancel: () => void;
+}
+
+export const ExamSetup: React.FC<ExamSetupProps> = ({ questionCount, onStart, onCancel }) => {
+  const defaultLimit = getDefaultTimeLimit(questionCount);
+  const [timeLimit, setTimeLimit] = useState(String(defaultLimit));
+  const [shuffleQuestions, setShuffleQuestions] = useState(true);
+  const [shuffleOptions, setShuffleOptions] = useState(true);
+  const limits = Array.from(new Set([...TIME_LIMIT_OPTIONS, defaultLimit])).sort((a, b) => a - b);
+  const { portalContainer } = useOverlayPlacement();
+
+  return (
+    <Card>
+      <CardContent className="pt-4 space-y-3">
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Exam mode</p>
+          <p className="text-xs text-muted-foreground">
+            Answer all {questionCount} questions before seeing any results. The exam is submitted automatically when time runs out.
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between gap-2 text-xs">
+          <span>Time limit</span>
+          <Select value={timeLimit} onValueChange={setTimeLimit}>
+            <SelectTrigger className="h-7 w-32 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent container={portalContainer}>
+              {limits.map((minutes) => (
+                <SelectItem key={minutes} value={String(minutes)} className="text-xs">{minutes} minutes</SelectItem>
+              ))}
+              <SelectItem value={NO_LIMIT} className="text-xs">No limit</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <label className="flex items-center gap-2 text-xs">
+          <Checkbox checked={shuffleQuestions} onCheckedChange={(checked) => setShuffleQuestions(checked === true)} />
+          Shuffle question order
+        </label>
+        <label className="flex items-center gap-2 text-xs">
+          <Checkbox checked={shuffleOptions} onCheckedChange={(checked) => setShuffleOptions(checked === true)} />
+          Shuffle answer options
+        </label>
+
+        <div className="flex justify-end gap-1">
+          <Button variant="ghost" size="sm" onClick={onCancel} className="h-7 px-2 text-xs">
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => onStart({
+              timeLimitMinutes: timeLimit === NO_LIMIT ? null : Number(timeLimit),
+              shuffleQuestions,
+              shuffleOptions,
+            })}
+            className="h-7 px-3 gap-1 text-xs"
+          >
+            <Timer className="w-3 h-3" />
+            Start exam
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+interface QuizExamProps {
+  attempt: QuizAttempt & { exam: ExamState };
+  questions: QuizQuestion[];
+  isSubmitting: boolean;
+  onChange: (exam: ExamState) => void;
+  // Called with the exam up to date; grading happens in the caller
+  onSubmit: () => void;
+}
+
+// One question at a time with no feedback until the whole exam is submitted
+export const QuizExam: React.FC<QuizExamProps> = ({ attempt, questions, isSubmitting, onChange, onSubmit }) => {
+  const { exam } = attempt;
+  const examQuestions = attempt.questionIds.flatMap((id) => questions.filter((question) => question.id === id));
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [isConfirming, setIsConfirming] = useState(false);
+  const shownAtRef = useRef(Date.now());
+  const hasSubmittedRef = useRef(false);
+
+  const question = examQuestions[currentIndex];
+  const remainingMs = exam.deadline ? Date.parse(exam.deadline) - now : null;
+  const answeredCount = examQuestions.filter((q) => exam.responses[q.id]?.trim()).length;
+  const unansweredCount = examQuestions.length - answeredCount;
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  // Adds the time spent on the question being left to its total
+  const flushTime = (): ExamState => {
+    if (!question) return exam;
+    const elapsed = Date.now() - shownAtRef.current;
+    shownAtRef.current = Date.now();
+    return { ...exam, timeSpentMs: { ...exam.timeSpentMs, [question.id]: (exam.timeSpentMs[question.id] ?? 0) + elapsed } };
+  };
+
+  const submit = () => {
+    if (hasSubmittedRef.current) return;
+    hasSubmittedRef.current = true;
+    onChange(flushTime());
+    onSubmit();
+  };
+
+  useEffect(() => {
+    if (remainingMs !== null && remainingMs <= 0) submit();
+  });
+
+  const goTo = (index: number) => {
+    if (index === currentIndex || index < 0 || index >= examQuestions.length) return;
+    onChange(flushTime());
+    setCurrentIndex(index);
+    setIsConfirming(false);
+  };
+
+  const setResponse = (value: string) => {
+    if (!question) return;
+    onChange({ ...exam, responses: { ...exam.responses, [question.id]: value } });
+  };
+
+  const toggleFlag = () => {
+    if (!question) return;
+    const flagged = exam.flagged.includes(question.id)
+      ? exam.flagged.filter((id) => id !== question.id)
+      : [...exam.flagged, question.id];
+    onChange({ ...exam, flagged });
+  };
+
+  const handleSubmitClick = () => {
+    if ((unansweredCount > 0 || exam.flagged.length > 0) && !isConfirming) {
+      setIsConfirming(true);
+      return;
+    }
+    submit();
+  };
+
+  if (isSubmitting || !question) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-8 text-xs text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Grading your exam...
+      </div>
+    );
+  }
+
+  const response = exam.responses[question.id] ?? '';
+  const isFlagged = exam.flagged.includes(question.id);
+  const options = exam.optionOrder[question.id] ?? question.options;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs">
+        <span className={`flex items-center gap-1 font-medium ${remainingMs !== null && remainingMs < 60 * 1000 ? 'text-red-500' : ''}`}>
+          <Clock className="w-3 h-3" />
+          {remainingMs !== null ? `${formatCountdown(remainingMs)} left` : `${formatDuration(now - Date.parse(attempt.startedAt))} elapsed`}
+        </span>
+        <span className="text-muted-foreground">Answered {answeredCount}/{examQuestions.length}</span>
+      </div>
+
+      {/* Navigation grid */}
+      <div className="flex flex-wrap gap-1">
+        {examQuestions.map((q, index) => {
+          const isAnswered = !!exam.responses[q.id]?.trim();
+          return (
+            <button
+              key={q.id}
+              type="button"
+              onClick={() => goTo(index)}
+              title={exam.flagged.includes(q.id) ? 'Flagged for review' : isAnswered ? 'Answered' : 'Not answered'}
+              className={`relative w-7 h-7 rounded text-xs border transition-colors ${
+                isAnswered ? 'bg-primary/15 border-primary/40 text-primary' : 'border-border hover:bg-accent'
+              } ${index === currentIndex ? 'ring-2 ring-primary ring-offset-1 ring-offset-background' : ''}`}
+            >
+              {index + 1}
+              {exam.flagged.includes(q.id) && (
+                <Flag className="absolute -top-1 -right-1 w-2.5 h-2.5 text-amber-500 fill-amber-500" />
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">Question {currentIndex + 1}</span>
+              <Badge variant="outline" className="text-xs">{question.topic}</Badge>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={toggleFlag}
+              className={`h-6 px-2 gap-1 text-xs ${isFlagged ? 'text-amber-500' : 'text-muted-foreground'}`}
+            >
+              <Flag className={`w-3 h-3 ${isFlagged ? 'fill-amber-500' : ''}`} />
+              {isFlagged ? 'Flagged' : 'Flag'}
+            </Button>
+          </div>
+          <p className="text-sm tool-content select-text">{question.question}</p>
+        </CardHeader>
+        <CardContent>
+          {question.question_type === 'short_answer' ? (
+            <Input
+              value={response}
+              onChange={(e) => setResponse(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  goTo(currentIndex + 1);
+                }
+              }}
+              placeholder="Type your answer..."
+              className="text-sm"
+            />
+          ) : (
+            <div className={question.question_type === 'true_false' ? 'grid grid-cols-2 gap-2' : 'space-y-2'}>
+              {options.map((option, optionIndex) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setResponse(option)}
+                  className={`w-full flex items-center gap-3 p-3 rounded-lg border text-sm text-left transition-all duration-200 ${
+                    response === option ? 'border-primary bg-primary/10' : 'border-border hover:bg-accent'
+                  } ${question.question_type === 'true_false' ? 'justify-center font-medium' : ''}`}
+                >
+                  {question.question_type === 'multiple_choice' && (
+                    <span className="text-xs text-muted-foreground">{String.fromCharCode(65 + optionIndex)}.</span>
+                  )}
+                  <span className="tool-content">{stripOptionLabel(option)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="outline" size="sm" onClick={() => goTo(currentIndex - 1)} disabled={currentIndex === 0} className="h-7 px-3">
+          <ChevronLeft className="w-3 h-3" />
+          <span className="text-xs">Prev</span>
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => goTo(currentIndex + 1)} disabled={currentIndex === examQuestions.length - 1} className="h-7 px-3">
+          <span className="text-xs">Next</span>
+          <ChevronRight className="w-3 h-3" />
+        </Button>
+      </div>
+
+      {isConfirming && (
+        <p className="text-xs text-amber-600 dark:text-amber-400 text-center">
+          {[
+            unansweredCount > 0 && `${unansweredCount} question${unansweredCount === 1 ? ' is' : 's are'} unanswered`,
+            exam.flagged.length > 0 && `${exam.flagged.length} flagged for review`,
+          ].filter(Boolean).join(', ')}. Submit anyway?
+        </p>
+      )}
+      <div className="flex gap-2">
+        {isConfirming && (
+          <Button variant="ghost" size="sm" onClick={() => setIsConfirming(false)} className="flex-1 h-7 text-xs">
+            Keep working
+          </Button>
+        )}
+        <Button size="sm" onClick={handleSubmitClick} className="flex-1 h-7 text-xs">
+          Submit exam
+        </Button>
+      </div>
+    </div>
+  );
+};
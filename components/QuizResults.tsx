@@ -0,0 +1,160 @@
+import React from 'react';
+import { ChevronLeft, Clock, History, ListChecks, RotateCcw, Trophy } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import { Progress } from './ui/progress';
+import { formatDuration, getMissedQuestionIds, summarizeAttempt, type QuizAttempt } from '../lib/quiz-attempts';
+import type { QuizQuestion } from '../lib/schemas';
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return 'text-green-500';
+  if (score >= 50) return 'text-amber-500';
+  return 'text-red-500';
+};
+
+interface QuizResultsProps {
+  attempt: QuizAttempt;
+  questions: QuizQuestion[];
+  hasHistory: boolean;
+  onRetryMissed: () => void;
+  onRetake: () => void;
+  onShowHistory: () => void;
+  // Shows every question with its answer and explanation
+  onReviewAnswers?: () => void;
+  // Set when the results were opened from the history
+  onBack?: () => void;
+}
+
+// Summary of a finished attempt with a per-topic breakdown, weakest topics first
+export const QuizResults: React.FC<QuizResultsProps> = ({ attempt, questions, hasHistory, onRetryMissed, onRetake, onShowHistory, onReviewAnswers, onBack }) => {
+  const summary = summarizeAttempt(attempt, questions);
+  const missedCount = getMissedQuestionIds(attempt).length;
+  const unanswered = summary.total - summary.answered;
+
+  return (
+    <div className="space-y-3">
+      {onBack && (
+        <Button variant="ghost" size="sm" onClick={onBack} className="h-6 px-2 gap-1 text-xs">
+          <ChevronLeft className="w-3 h-3" />
+          All attempts
+        </Button>
+      )}
+
+      <Card>
+        <CardContent className="pt-4 space-y-2 text-center">
+          <Trophy className={`w-6 h-6 mx-auto ${getScoreColor(summary.score)}`} />
+          <p className={`text-2xl font-semibold ${getScoreColor(summary.score)}`}>{summary.score}%</p>
+          <p className="text-xs text-muted-foreground">
+            {new Date(attempt.completedAt ?? attempt.startedAt).toLocaleString()}
+            {attempt.exam && ' • Exam'}
+            {attempt.retryOf && ' • Retry of missed questions'}
+          </p>
+          <div className="flex flex-wrap items-center justify-center gap-1 text-xs">
+            <Badge variant="outline" className="text-xs text-green-600">{summary.correct} correct</Badge>
+            {summary.partial > 0 && <Badge variant="outline" className="text-xs text-amber-600">{summary.partial} partial</Badge>}
+            <Badge variant="outline" className="text-xs text-red-600">{summary.incorrect} incorrect</Badge>
+            {unanswered > 0 && <Badge variant="outline" className="text-xs">{unanswered} unanswered</Badge>}
+          </div>
+          <p className="flex items-center justify-center gap-1 text-xs text-muted-foreground">
+            <Clock className="w-3 h-3" />
+            {formatDuration(summary.timeSpentMs)} on {summary.answered} question{summary.answered === 1 ? '' : 's'}
+          </p>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-2">
+        <h4 className="text-xs font-medium">By topic</h4>
+        {summary.topics.map((topic) => {
+          const score = Math.round(topic.earned / topic.total * 100);
+          return (
+            <div key={topic.topic} className="space-y-1">
+              <div className="flex items-center justify-between text-xs">
+                <span className="truncate">{topic.topic}</span>
+                <span className={getScoreColor(score)}>
+                  {Number.isInteger(topic.earned) ? topic.earned : topic.earned.toFixed(1)}/{topic.total}
+                </span>
+              </div>
+              <Progress value={score} className="h-1" />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        {onReviewAnswers && (
+          <Button variant="outline" size="sm" onClick={onReviewAnswers} className="h-7 gap-1 text-xs">
+            <ListChecks className="w-3 h-3" />
+            Review answers
+          </Button>
+        )}
+        {missedCount > 0 && (
+          <Button size="sm" onClick={onRetryMissed} className="h-7 gap-1 text-xs">
+            <RotateCcw className="w-3 h-3" />
+            Retry {missedCount} missed question{missedCount === 1 ? '' : 's'}
+          </Button>
+        )}
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={onRetake} className="flex-1 h-7 gap-1 text-xs">
+            <RotateCcw className="w-3 h-3" />
+            Retake quiz
+          </Button>
+          {hasHistory && !onBack && (
+            <Button variant="outline" size="sm" onClick={onShowHistory} className="flex-1 h-7 gap-1 text-xs">
+              <History className="w-3 h-3" />
+              All attempts
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface QuizHistoryProps {
+  // Finished attempts, oldest first
+  attempts: QuizAttempt[];
+  questions: QuizQuestion[];
+  onSelect: (attempt: QuizAttempt) => void;
+  onBack: () => void;
+}
+
+export const QuizHistory: React.FC<QuizHistoryProps> = ({ attempts, questions, onSelect, onBack }) => {
+  const best = Math.max(...attempts.filter((attempt) => !attempt.retryOf).map((attempt) => summarizeAttempt(attempt, questions).score));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="sm" onClick={onBack} className="h-6 px-2 gap-1 text-xs">
+          <ChevronLeft className="w-3 h-3" />
+          Back
+        </Button>
+        {Number.isFinite(best) && <span className="text-xs text-muted-foreground">Best full attempt: {best}%</span>}
+      </div>
+
+      <div className="space-y-1">
+        {[...attempts].reverse().map((attempt) => {
+          const summary = summarizeAttempt(attempt, questions);
+          return (
+            <button
+              key={attempt.id}
+              type="button"
+              onClick={() => onSelect(attempt)}
+              className="w-full flex items-center justify-between gap-2 rounded-lg border p-2 text-left text-xs hover:bg-accent transition-colors"
+            >
+              <div className="min-w-0">
+                <p className="font-medium">{new Date(attempt.completedAt ?? attempt.startedAt).toLocaleString()}</p>
+                <p className="text-muted-foreground">
+                  {summary.total} question{summary.total === 1 ? '' : 's'} • {formatDuration(summary.timeSpentMs)}
+                  {attempt.exam && ' • Exam'}
+                  {attempt.retryOf && ' • Retry'}
+                </p>
+              </div>
+              <span className={`text-sm font-semibold ${getScoreColor(summary.score)}`}>{summary.score}%</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -3,24 +3,8 @@ import { ChevronDown, ChevronRight, PanelLeftClose, PanelLeftOpen } from 'lucide
 import { Button } from './ui/button';
 import { ScrollArea } from './ui/scroll-area';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
-
-interface Section {
-  section_id: string;
-  title: string;
-  page: number;
-}
-
-interface Chapter {
-  chapter_id: string;
-  chapter_number: string;
-  title: string;
-  sections: Section[] | null;
-}
-
-interface TOC {
-  book_id: string;
-  chapters: Chapter[];
-}
+import { resolveTocPage, type PageLabels } from '../lib/page-labels';
+import type { Chapter, Section, TOC } from '../lib/schemas';
 
 interface TableOfContentsProps {
   isCollapsed: boolean;
@@ -28,13 +12,15 @@ interface TableOfContentsProps {
   currentPage: number;
   onPageSelect: (page: number, sectionId?: string, chapterId?: string) => void;
   tocData: TOC;
+  pageLabels?: PageLabels | null;
 }
 
 const TOCItemComponent: React.FC<{
   chapter: Chapter;
   currentPage: number;
   onPageSelect: (page: number, sectionId?: string, chapterId?: string) => void;
-}> = ({ chapter, currentPage, onPageSelect }) => {
+  pageLabels?: PageLabels | null;
+}> = ({ chapter, currentPage, onPageSelect, pageLabels }) => {
   const [isOpen, setIsOpen] = useState(true);
   
   // Check if chapter has only one section with the same name as chapter
@@ -47,16 +33,16 @@ const TOCItemComponent: React.FC<{
   const chapterPage = chapter.sections && chapter.sections.length > 0 ? 
     chapter.sections[0].page : null;
   
-  const isCurrentChapter = chapterPage && currentPage === chapterPage;
+  const isCurrentChapter = chapterPage && currentPage === resolveTocPage(pageLabels, chapterPage);
 
   const handleChapterClick = () => {
     if (chapterPage) {
-      onPageSelect(chapterPage, chapter.sections?.[0]?.section_id, chapter.chapter_id);
+      onPageSelect(resolveTocPage(pageLabels, chapterPage), chapter.sections?.[0]?.section_id, chapter.chapter_id);
     }
   };
 
   const handleSectionClick = (section: Section) => {
-    onPageSelect(section.page, section.section_id, chapter.chapter_id);
+    onPageSelect(resolveTocPage(pageLabels, section.page), section.section_id, chapter.chapter_id);
   };
 
   const handleToggleExpand = (e: React.MouseEvent) => {
@@ -109,7 +95,7 @@ const TOCItemComponent: React.FC<{
           <CollapsibleContent>
             <div className="mt-0.5 ml-3">
               {chapter.sections?.map((section) => {
-                const isCurrentSection = currentPage === section.page;
+                const isCurrentSection = currentPage === resolveTocPage(pageLabels, section.page);
                 return (
                   <div
                     key={section.section_id}
@@ -142,6 +128,7 @@ export const TableOfContents: React.FC<TableOfContentsProps> = ({
   currentPage,
   onPageSelect,
   tocData,
+  pageLabels,
 }) => {
   if (isCollapsed) {
     return (
@@ -186,6 +173,7 @@ export const TableOfContents: React.FC<TableOfContentsProps> = ({
               chapter={chapter}
               currentPage={currentPage}
               onPageSelect={onPageSelect}
+              pageLabels={pageLabels}
             />
           ))}
         </div>
@@ -1,51 +1,53 @@
-import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
-import { X, Minimize2, ChevronLeft, ChevronRight, RotateCcw, Check, Zap, Network, Copy, Download, Gamepad2, Trophy, Target, Clock, Star, HelpCircle, AlertCircle, BookOpen, Lightbulb, MessageCircle } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useLayoutEffect, useCallback, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Minimize2, ChevronLeft, ChevronRight, RotateCcw, Check, Zap, Network, Copy, Gamepad2, Trophy, Target, Clock, Star, HelpCircle, Flame, AlertCircle, BookOpen, Lightbulb, MessageCircle, Pencil, Loader2, History, Timer, Maximize2, ExternalLink, PanelRight } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
+import { Input } from './ui/input';
 import { Progress } from './ui/progress';
 import { ScrollArea } from './ui/scroll-area';
-import { toast } from 'sonner';
+import { Toaster } from './ui/sonner';
+import { MermaidDiagram } from './MermaidDiagram';
+import { DiagramEditor } from './DiagramEditor';
+import { ReviewGradeButtons } from './FlashcardReview';
+import { FlashcardExportMenu } from './FlashcardExportMenu';
+import { useCardSchedules } from '../hooks/use-card-schedules';
+import { useApi } from '../lib/api-context';
+import { ApiError } from '../lib/api';
+import { formatInterval, getCardKey, isDueToday, type ReviewGrade } from '../lib/srs';
+import { fromAnswerGrade, gradeChoice, gradeShortAnswerLocally, stripOptionLabel, type AnswerVerdict, type GradedAnswer } from '../lib/quiz-grading';
+import { createAttempt, createExamAttempt, getMissedQuestionIds, type ExamState, type QuizAnswer, type QuizAttempt } from '../lib/quiz-attempts';
+import { useQuizAttempts } from '../hooks/use-quiz-attempts';
+import { QuizHistory, QuizResults } from './QuizResults';
+import { ExamSetup, QuizExam } from './QuizExam';
+import { FillBlankBoard, LevelQuizBoard, MatchingBoard, OrderingBoard, UnsupportedBoard } from './GameBoards';
+import { GameRunSummary, GameScoreboard } from './GameScoreboard';
+import { GAME_TYPE_LABELS, getRoundSize, toGameRounds } from '../lib/games';
+import { MISS_PENALTY, formatGameTime, getStreakMultiplier, isSameRound } from '../lib/game-scores';
+import { useGameRuns } from '../hooks/use-game-runs';
+import { openPopoutWindow } from '../lib/popout-window';
+import { OverlayPlacementContext, useOverlayPlacement, useOverlayToast, type OverlayPlacement } from '../lib/overlay-placement';
+import { getRangeContext } from '../lib/selection-context';
+import type { FlashCard, Game, GameRun, QuizQuestion, ToolPayload } from '../lib/schemas';
 
 interface ToolOverlayProps {
-  toolType: string;
-  content: string | string[] | any[];
+  tool: ToolPayload;
+  documentId: string;
+  // Set once the tool output is stored; review progress is only kept for stored decks
+  toolResponseId?: string;
+  placement?: OverlayPlacement;
+  // False while another tool is shown or this one is minimised; a popped-out window stays open
+  isVisible?: boolean;
+  // Id for the Toaster of a popped-out window, so the overlay's toasts show there
+  toasterId: string;
+  // Placement controls are hidden without it
+  onPlacementChange?: (placement: OverlayPlacement) => void;
   onClose: () => void;
   onMinimize: () => void;
   onTextHighlight?: (selectedText: string, context: string) => void;
-}
-
-interface FlashCard {
-  id: string;
-  question: string;
-  answer: string;
-  difficulty: number;
-  topic: string;
-}
-
-interface QuizQuestion {
-  id: string;
-  question: string;
-  options: string[];
-  correct_answer: string;
-  explanation: string;
-  difficulty: number;
-  topic: string;
-  question_type: 'multiple_choice' | 'true_false' | 'short_answer';
-}
-
-interface QuestionState {
-  answered: boolean;
-  selectedAnswer: string | null;
-  isCorrect: boolean;
-  showExplanation: boolean;
-}
-
-interface GameItem {
-  id: string;
-  concept: string;
-  definition: string;
-  matched?: boolean;
+  // Persists an edited copy of the tool output; editing is read-only without it
+  onSaveRevision?: (tool: ToolPayload) => Promise<void>;
 }
 
 interface TextSelection {
@@ -55,14 +57,48 @@ interface TextSelection {
   context: string;
 }
 
+// Header buttons that move the overlay between the panel, full screen and a separate window
+const OverlayPlacementButtons: React.FC = () => {
+  const { placement, onPlacementChange } = useOverlayPlacement();
+  if (!onPlacementChange) return null;
+
+  return (
+    <>
+      {placement !== 'window' && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onPlacementChange(placement === 'fullscreen' ? 'panel' : 'fullscreen')}
+          className="h-6 w-6 p-0"
+          title={placement === 'fullscreen' ? 'Back to panel' : 'Full screen'}
+        >
+          {placement === 'fullscreen' ? <PanelRight className="w-3 h-3" /> : <Maximize2 className="w-3 h-3" />}
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onPlacementChange(placement === 'window' ? 'panel' : 'window')}
+        className="h-6 w-6 p-0"
+        title={placement === 'window' ? 'Back to panel' : 'Open in new window'}
+      >
+        {placement === 'window' ? <PanelRight className="w-3 h-3" /> : <ExternalLink className="w-3 h-3" />}
+      </Button>
+    </>
+  );
+};
+
 // Text Selection Hook for Tool Content
 const useTextSelection = (onTextHighlight?: (selectedText: string, context: string) => void) => {
+  // Selections are read from the window the overlay is shown in
+  const { view } = useOverlayPlacement();
+  const toast = useOverlayToast();
   const [textSelection, setTextSelection] = useState<TextSelection | null>(null);
   const [showPopup, setShowPopup] = useState(false);
   const popupRef = useRef<HTMLDivElement>(null);
 
   const handleTextSelection = useCallback(() => {
-    const selection = window.getSelection();
+    const selection = view.getSelection();
     if (!selection || selection.rangeCount === 0) {
       setShowPopup(false);
       setTextSelection(null);
@@ -80,24 +116,15 @@ const useTextSelection = (onTextHighlight?: (selectedText: string, context: stri
     const range = selection.getRangeAt(0);
     const rect = range.getBoundingClientRect();
     
-    // Get surrounding context
-    const container = range.commonAncestorContainer;
-    const textContent = container.textContent || '';
-    const startOffset = range.startOffset;
-    const endOffset = range.endOffset;
-    
-    const beforeText = textContent.substring(Math.max(0, startOffset - 50), startOffset);
-    const afterText = textContent.substring(endOffset, Math.min(textContent.length, endOffset + 50));
-    const context = `${beforeText}${selectedText}${afterText}`.trim();
-
     setTextSelection({
       text: selectedText,
       x: rect.left + rect.width / 2,
       y: rect.top - 10,
-      context: context
+      // The sentences around the selection
+      context: getRangeContext(range)
     });
     setShowPopup(true);
-  }, []);
+  }, [view]);
 
   useEffect(() => {
     const handleMouseUp = () => {
@@ -108,18 +135,18 @@ const useTextSelection = (onTextHighlight?: (selectedText: string, context: stri
       if (e.key === 'Escape') {
         setShowPopup(false);
         setTextSelection(null);
-        window.getSelection()?.removeAllRanges();
+        view.getSelection()?.removeAllRanges();
       }
     };
 
-    document.addEventListener('mouseup', handleMouseUp);
-    document.addEventListener('keyup', handleKeyUp);
+    view.document.addEventListener('mouseup', handleMouseUp);
+    view.document.addEventListener('keyup', handleKeyUp);
 
     return () => {
-      document.removeEventListener('mouseup', handleMouseUp);
-      document.removeEventListener('keyup', handleKeyUp);
+      view.document.removeEventListener('mouseup', handleMouseUp);
+      view.document.removeEventListener('keyup', handleKeyUp);
     };
-  }, [handleTextSelection]);
+  }, [handleTextSelection, view]);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -130,17 +157,17 @@ const useTextSelection = (onTextHighlight?: (selectedText: string, context: stri
     };
 
     if (showPopup) {
-      document.addEventListener('mousedown', handleClickOutside);
-      return () => document.removeEventListener('mousedown', handleClickOutside);
+      view.document.addEventListener('mousedown', handleClickOutside);
+      return () => view.document.removeEventListener('mousedown', handleClickOutside);
     }
-  }, [showPopup]);
+  }, [showPopup, view]);
 
   const handleAskLLM = () => {
     if (textSelection && onTextHighlight) {
       onTextHighlight(textSelection.text, textSelection.context);
       setShowPopup(false);
       setTextSelection(null);
-      window.getSelection()?.removeAllRanges();
+      view.getSelection()?.removeAllRanges();
       toast.success('Selected text sent to chat!');
     }
   };
@@ -148,7 +175,7 @@ const useTextSelection = (onTextHighlight?: (selectedText: string, context: stri
   const handleClosePopup = () => {
     setShowPopup(false);
     setTextSelection(null);
-    window.getSelection()?.removeAllRanges();
+    view.getSelection()?.removeAllRanges();
   };
 
   const TextSelectionPopup = () => (
@@ -157,7 +184,7 @@ const useTextSelection = (onTextHighlight?: (selectedText: string, context: stri
         ref={popupRef}
         className="fixed z-50 bg-card border rounded-lg shadow-lg animate-in fade-in zoom-in-95"
         style={{
-          left: `${Math.max(10, Math.min(window.innerWidth - 200, textSelection.x - 100))}px`,
+          left: `${Math.max(10, Math.min(view.innerWidth - 200, textSelection.x - 100))}px`,
           top: `${Math.max(10, textSelection.y)}px`,
         }}
       >
@@ -195,141 +222,48 @@ const useTextSelection = (onTextHighlight?: (selectedText: string, context: stri
   return { TextSelectionPopup, showPopup };
 };
 
-// Mermaid component (simplified for this implementation)
-const MermaidDiagram: React.FC<{ code: string; title?: string }> = ({ code, title }) => {
-  const [isRendered, setIsRendered] = useState(false);
-  
-  useEffect(() => {
-    // Simulate mermaid rendering
-    const timer = setTimeout(() => {
-      setIsRendered(true);
-    }, 500);
-    
-    return () => clearTimeout(timer);
-  }, [code]);
-
-  const handleCopyCode = async () => {
-    try {
-      await navigator.clipboard.writeText(code);
-      toast.success('Diagram code copied!');
-    } catch (error) {
-      toast.error('Failed to copy code');
-    }
-  };
-
-  const handleDownload = () => {
-    toast.info('Download functionality would be implemented here');
-  };
-
-  return (
-    <Card className="mb-3">
-      {title && (
-        <CardHeader className="pb-2">
-          <div className="flex items-center justify-between">
-            <CardTitle className="text-sm">{title}</CardTitle>
-            <div className="flex gap-1">
-              <Button variant="ghost" size="sm" onClick={handleCopyCode} className="h-6 px-2">
-                <Copy className="w-3 h-3" />
-              </Button>
-              <Button variant="ghost" size="sm" onClick={handleDownload} className="h-6 px-2">
-                <Download className="w-3 h-3" />
-              </Button>
-            </div>
-          </div>
-        </CardHeader>
-      )}
-      <CardContent className="pt-2">
-        {!isRendered ? (
-          <div className="flex items-center justify-center h-32 bg-muted rounded">
-            <div className="text-center space-y-2">
-              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary mx-auto"></div>
-              <p className="text-xs text-muted-foreground">Rendering diagram...</p>
-            </div>
-          </div>
-        ) : (
-          <div className="bg-white dark:bg-gray-800 rounded border p-3 min-h-32 flex items-center justify-center">
-            <div className="text-center space-y-3">
-              <Network className="w-8 h-8 text-blue-500 mx-auto" />
-              <div className="space-y-2">
-                <p className="text-xs font-medium">Mermaid Diagram</p>
-                <div className="text-xs text-muted-foreground bg-muted p-2 rounded font-mono max-w-full overflow-auto">
-                  {code.length > 100 ? code.substring(0, 100) + '...' : code}
-                </div>
-              </div>
-              <p className="text-xs text-muted-foreground">
-                Interactive diagram would render here
-              </p>
-            </div>
-          </div>
-        )}
-      </CardContent>
-    </Card>
-  );
-};
-
 // Game Component
-const GameOverlay: React.FC<{ content: string | string[] | any[]; onClose: () => void; onMinimize: () => void }> = ({
-  content,
+interface FinishedRun {
+  run: GameRun;
+  // Earlier runs of the same round, oldest first
+  previousRuns: GameRun[];
+}
+
+const GameOverlay: React.FC<{ rounds: Game[]; documentId: string; toolResponseId?: string; onClose: () => void; onMinimize: () => void }> = ({
+  rounds,
+  documentId,
+  toolResponseId,
   onClose,
   onMinimize,
 }) => {
+  const toast = useOverlayToast();
   const [currentGame, setCurrentGame] = useState(0);
   const [gameState, setGameState] = useState<'playing' | 'completed'>('playing');
   const [score, setScore] = useState(0);
   const [timeElapsed, setTimeElapsed] = useState(0);
-  const [gameData, setGameData] = useState<GameItem[]>([]);
-  const [selectedItems, setSelectedItems] = useState<string[]>([]);
-
-  const games = useMemo(() => {
-    try {
-      const contentStr = Array.isArray(content) ? content.join('\n\n') : content;
-      const sections = contentStr.split('\n\n').filter(section => section.trim().length > 0);
-      return sections;
-    } catch (error) {
-      console.error('Error parsing game content:', error);
-      return [];
-    }
-  }, [content]);
-
-  // Parse game data from content
-  useEffect(() => {
-    if (games.length > 0) {
-      const currentGameContent = games[currentGame];
-      
-      // Extract concept-definition pairs
-      const items: GameItem[] = [];
-      const lines = currentGameContent.split('\n').filter(line => line.includes('→'));
-      
-      lines.forEach((line, index) => {
-        const [concept, definition] = line.split('→').map(s => s.trim());
-        if (concept && definition) {
-          items.push({
-            id: `item-${index}`,
-            concept: concept.replace(/^\d+\.\s*/, ''),
-            definition,
-            matched: false
-          });
-        }
-      });
-      
-      // If no items found, create sample data
-      if (items.length === 0) {
-        items.push(
-          { id: 'item-1', concept: 'Big O', definition: 'Time complexity upper bound', matched: false },
-          { id: 'item-2', concept: 'DFS', definition: 'Depth-first search', matched: false },
-          { id: 'item-3', concept: 'BFS', definition: 'Breadth-first search', matched: false },
-          { id: 'item-4', concept: 'Heap', definition: 'Complete binary tree', matched: false }
-        );
-      }
-      
-      setGameData(items);
-    }
-  }, [games, currentGame]);
+  const [solvedSteps, setSolvedSteps] = useState(0);
+  const [revealedSteps, setRevealedSteps] = useState(0);
+  const [streak, setStreak] = useState(0);
+  const [maxStreak, setMaxStreak] = useState(0);
+  const [mistakes, setMistakes] = useState(0);
+  const [finishedRun, setFinishedRun] = useState<FinishedRun | null>(null);
+  const [showScoreboard, setShowScoreboard] = useState(false);
+  // Bumped to remount the board, which restarts the round
+  const [boardKey, setBoardKey] = useState(0);
+  // Read by the solve handler, which must not be recreated on every answer
+  const streakRef = useRef(0);
+
+  const { runs, recordRun } = useGameRuns(documentId);
+
+  const games = useMemo(() => toGameRounds(rounds), [rounds]);
+  const game = games[currentGame];
+  const totalSteps = game ? getRoundSize(game) : 0;
+  const isPlayable = game?.game_type !== 'unsupported';
 
   // Timer effect
   useEffect(() => {
     let interval: number;
-    if (gameState === 'playing') {
+    if (gameState === 'playing' && isPlayable) {
       interval = window.setInterval(() => {
         setTimeElapsed(prev => prev + 1);
       }, 1000);
@@ -337,71 +271,94 @@ const GameOverlay: React.FC<{ content: string | string[] | any[]; onClose: () =>
     return () => {
       if (interval) clearInterval(interval);
     };
-  }, [gameState]);
-
-  const handleItemClick = (itemId: string) => {
-    if (gameState !== 'playing') return;
-
-    const newSelected = selectedItems.includes(itemId) 
-      ? selectedItems.filter(id => id !== itemId)
-      : [...selectedItems, itemId];
-
-    setSelectedItems(newSelected);
-
-    // Check for matches when 2 items are selected
-    if (newSelected.length === 2) {
-      const [first, second] = newSelected.map(id => gameData.find(item => item.id === id)!);
-      
-      // Simple matching logic - in real implementation this would be more sophisticated
-      const isMatch = (
-        (first.concept && second.definition) || 
-        (first.definition && second.concept)
-      );
+  }, [gameState, isPlayable]);
 
-      setTimeout(() => {
-        if (isMatch) {
-          setGameData(prev => prev.map(item => 
-            newSelected.includes(item.id) ? { ...item, matched: true } : item
-          ));
-          setScore(prev => prev + 10);
-          toast.success('Match found! +10 points');
-        } else {
-          toast.error('Not a match, try again!');
-        }
-        setSelectedItems([]);
+  // Records the run once the round is completed, when score and time are final
+  useEffect(() => {
+    if (gameState !== 'completed' || finishedRun || !game) return;
+    const run: GameRun = {
+      id: `run-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      tool_response_id: toolResponseId ?? '',
+      round_index: currentGame,
+      title: game.title,
+      score,
+      time_seconds: timeElapsed,
+      max_streak: maxStreak,
+      mistakes,
+      revealed_steps: revealedSteps,
+      completed_at: new Date().toISOString(),
+    };
+    const previousRuns = toolResponseId ? runs.filter((entry) => isSameRound(entry, toolResponseId, currentGame)) : [];
+    setFinishedRun({ run, previousRuns });
+    // Scores of unsaved tool outputs can't be matched to a game later, so they aren't kept
+    if (toolResponseId) recordRun(run);
+  }, [gameState, finishedRun, game, toolResponseId, currentGame, score, timeElapsed, maxStreak, mistakes, revealedSteps, runs, recordRun]);
+
+  const updateStreak = useCallback((next: number) => {
+    streakRef.current = next;
+    setStreak(next);
+    setMaxStreak(prev => Math.max(prev, next));
+  }, []);
 
-        // Check if game is completed
-        const updatedData = gameData.map(item => 
-          newSelected.includes(item.id) && isMatch ? { ...item, matched: true } : item
-        );
-        
-        if (updatedData.every(item => item.matched)) {
-          setGameState('completed');
-          toast.success('🎉 Game completed!');
-        }
-      }, 1000);
+  const handleSolve = useCallback((steps: number, points: number, message?: string) => {
+    setSolvedSteps(prev => prev + steps);
+    // Revealed or skipped steps earn nothing and end the streak
+    if (points === 0) {
+      setRevealedSteps(prev => prev + steps);
+      updateStreak(0);
+      return;
     }
-  };
+    const nextStreak = streakRef.current + 1;
+    const multiplier = getStreakMultiplier(nextStreak);
+    const earned = Math.round(points * multiplier);
+    updateStreak(nextStreak);
+    setScore(prev => prev + earned);
+    toast.success(`${message ?? 'Correct!'} +${earned} points${multiplier > 1 ? ` (×${multiplier} streak)` : ''}`);
+  }, [updateStreak, toast]);
+
+  const handleMiss = useCallback((message: string) => {
+    updateStreak(0);
+    setMistakes(prev => prev + 1);
+    setScore(prev => Math.max(0, prev - MISS_PENALTY));
+    toast.error(`${message} (-${MISS_PENALTY} points)`);
+  }, [updateStreak, toast]);
+
+  const handleComplete = useCallback(() => {
+    setGameState('completed');
+    toast.success('🎉 Game completed!');
+  }, [toast]);
 
   const resetGame = () => {
     setGameState('playing');
     setScore(0);
     setTimeElapsed(0);
-    setSelectedItems([]);
-    setGameData(prev => prev.map(item => ({ ...item, matched: false })));
+    setSolvedSteps(0);
+    setRevealedSteps(0);
+    setMistakes(0);
+    setMaxStreak(0);
+    updateStreak(0);
+    setFinishedRun(null);
+    setBoardKey(prev => prev + 1);
   };
 
-  const nextGame = () => {
-    if (currentGame < games.length - 1) {
-      setCurrentGame(prev => prev + 1);
-      resetGame();
-    }
+  const goToGame = (index: number) => {
+    setCurrentGame(index);
+    resetGame();
   };
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  const renderBoard = () => {
+    switch (game.game_type) {
+      case 'matching':
+        return <MatchingBoard key={boardKey} game={game} onSolve={handleSolve} onMiss={handleMiss} onComplete={handleComplete} />;
+      case 'ordering':
+        return <OrderingBoard key={boardKey} game={game} onSolve={handleSolve} onMiss={handleMiss} onComplete={handleComplete} />;
+      case 'fill_blank':
+        return <FillBlankBoard key={boardKey} game={game} onSolve={handleSolve} onMiss={handleMiss} onComplete={handleComplete} />;
+      case 'level_quiz':
+        return <LevelQuizBoard key={boardKey} game={game} onSolve={handleSolve} onMiss={handleMiss} onComplete={handleComplete} />;
+      case 'unsupported':
+        return <UnsupportedBoard game={game} />;
+    }
   };
 
   if (games.length === 0) {
@@ -413,6 +370,7 @@ const GameOverlay: React.FC<{ content: string | string[] | any[]; onClose: () =>
             <h3 className="text-sm font-medium">Learning Games</h3>
           </div>
           <div className="flex items-center gap-1">
+            <OverlayPlacementButtons />
             <Button variant="ghost" size="sm" onClick={onMinimize} className="h-6 w-6 p-0">
               <Minimize2 className="w-3 h-3" />
             </Button>
@@ -442,6 +400,16 @@ const GameOverlay: React.FC<{ content: string | string[] | any[]; onClose: () =>
           )}
         </div>
         <div className="flex items-center gap-1">
+          <Button
+            variant={showScoreboard ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setShowScoreboard(prev => !prev)}
+            className="h-6 w-6 p-0"
+            title="Scoreboard"
+          >
+            <Trophy className="w-3 h-3" />
+          </Button>
+          <OverlayPlacementButtons />
           <Button variant="ghost" size="sm" onClick={onMinimize} className="h-6 w-6 p-0">
             <Minimize2 className="w-3 h-3" />
           </Button>
@@ -451,209 +419,169 @@ const GameOverlay: React.FC<{ content: string | string[] | any[]; onClose: () =>
         </div>
       </div>
 
-      {/* Game Stats */}
-      <div className="grid grid-cols-3 gap-2">
-        <Card className="p-2">
-          <div className="flex items-center gap-1">
-            <Trophy className="w-3 h-3 text-yellow-500" />
-            <div>
-              <p className="text-xs text-muted-foreground">Score</p>
-              <p className="text-sm font-medium">{score}</p>
-            </div>
-          </div>
-        </Card>
-        <Card className="p-2">
-          <div className="flex items-center gap-1">
-            <Clock className="w-3 h-3 text-blue-500" />
-            <div>
-              <p className="text-xs text-muted-foreground">Time</p>
-              <p className="text-sm font-medium">{formatTime(timeElapsed)}</p>
-            </div>
-          </div>
-        </Card>
-        <Card className="p-2">
-          <div className="flex items-center gap-1">
-            <Target className="w-3 h-3 text-green-500" />
-            <div>
-              <p className="text-xs text-muted-foreground">Matches</p>
-              <p className="text-sm font-medium">{gameData.filter(item => item.matched).length}/{gameData.length}</p>
+      {showScoreboard && <GameScoreboard runs={runs} onBack={() => setShowScoreboard(false)} />}
+
+      {/* Hidden rather than unmounted so the round keeps its state */}
+      <div className={showScoreboard ? 'hidden' : 'space-y-3'}>
+        {isPlayable && (
+          <>
+            {/* Game Stats */}
+            <div className="grid grid-cols-4 gap-2">
+              <Card className="p-2">
+                <div className="flex items-center gap-1">
+                  <Trophy className="w-3 h-3 text-yellow-500" />
+                  <div>
+                    <p className="text-xs text-muted-foreground">Score</p>
+                    <p className="text-sm font-medium">{score}</p>
+                  </div>
+                </div>
+              </Card>
+              <Card className="p-2">
+                <div className="flex items-center gap-1">
+                  <Clock className="w-3 h-3 text-blue-500" />
+                  <div>
+                    <p className="text-xs text-muted-foreground">Time</p>
+                    <p className="text-sm font-medium">{formatGameTime(timeElapsed)}</p>
+                  </div>
+                </div>
+              </Card>
+              <Card className="p-2">
+                <div className="flex items-center gap-1">
+                  <Target className="w-3 h-3 text-green-500" />
+                  <div>
+                    <p className="text-xs text-muted-foreground">Progress</p>
+                    <p className="text-sm font-medium">{solvedSteps}/{totalSteps}</p>
+                  </div>
+                </div>
+              </Card>
+              <Card className="p-2">
+                <div className="flex items-center gap-1">
+                  <Flame className={`w-3 h-3 ${streak >= 3 ? 'text-orange-500' : 'text-muted-foreground'}`} />
+                  <div>
+                    <p className="text-xs text-muted-foreground">Streak</p>
+                    <p className="text-sm font-medium">
+                      {streak}
+                      {getStreakMultiplier(streak + 1) > 1 && <span className="text-xs text-orange-500"> ×{getStreakMultiplier(streak + 1)}</span>}
+                    </p>
+                  </div>
+                </div>
+              </Card>
             </div>
-          </div>
-        </Card>
-      </div>
 
-      {/* Progress */}
-      <Progress value={(gameData.filter(item => item.matched).length / gameData.length) * 100} className="h-1" />
-
-      {/* Game Area */}
-      <Card>
-        <CardHeader className="pb-2">
-          <CardTitle className="text-sm">Memory Match - Connect concepts with definitions</CardTitle>
-        </CardHeader>
-        <CardContent>
-          {gameState === 'completed' ? (
-            <div className="text-center space-y-3">
-              <div className="text-2xl">🎉</div>
-              <div>
-                <h3 className="font-medium">Game Completed!</h3>
-                <p className="text-sm text-muted-foreground">
-                  Score: {score} • Time: {formatTime(timeElapsed)}
-                </p>
-              </div>
-              <div className="flex gap-2 justify-center">
-                <Button onClick={resetGame} size="sm">
-                  <RotateCcw className="w-3 h-3 mr-1" />
-                  Play Again
-                </Button>
-                {games.length > 1 && currentGame < games.length - 1 && (
-                  <Button onClick={nextGame} size="sm" variant="outline">
-                    Next Game
-                  </Button>
-                )}
-              </div>
+            {/* Progress */}
+            <Progress value={totalSteps > 0 ? (solvedSteps / totalSteps) * 100 : 0} className="h-1" />
+          </>
+        )}
+
+        {/* Game Area */}
+        <Card>
+          <CardHeader className="pb-2">
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="text-sm">{game.title}</CardTitle>
+              <Badge variant="outline" className="text-xs flex-shrink-0">{GAME_TYPE_LABELS[game.game_type]}</Badge>
             </div>
-          ) : (
-            <div className="grid grid-cols-2 gap-2">
-              {/* Concepts Column */}
-              <div className="space-y-2">
-                <h4 className="text-xs font-medium text-muted-foreground">Concepts</h4>
-                {gameData.map((item) => (
-                  <Button
-                    key={`concept-${item.id}`}
-                    variant={
-                      item.matched ? "default" : 
-                      selectedItems.includes(item.id) ? "secondary" : "outline"
-                    }
-                    size="sm"
-                    onClick={() => handleItemClick(item.id)}
-                    disabled={item.matched}
-                    className={`w-full text-xs h-auto p-2 ${
-                      item.matched ? 'opacity-50' : ''
-                    }`}
-                  >
-                    {item.concept}
+            {game.game_type !== 'unsupported' && game.instructions && (
+              <p className="text-xs text-muted-foreground">{game.instructions}</p>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {/* Kept mounted on completion so the solved board stays visible */}
+            {renderBoard()}
+
+            {gameState === 'completed' && (
+              <div className="text-center space-y-3 border-t pt-3">
+                <div className="text-2xl">🎉</div>
+                <div>
+                  <h3 className="font-medium">Game Completed!</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Score: {score} • Time: {formatGameTime(timeElapsed)}
+                  </p>
+                </div>
+                {finishedRun && <GameRunSummary run={finishedRun.run} previousRuns={finishedRun.previousRuns} />}
+                <div className="flex gap-2 justify-center">
+                  <Button onClick={resetGame} size="sm">
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Play Again
                   </Button>
-                ))}
+                  {games.length > 1 && currentGame < games.length - 1 && (
+                    <Button onClick={() => goToGame(currentGame + 1)} size="sm" variant="outline">
+                      Next Game
+                    </Button>
+                  )}
+                </div>
               </div>
+            )}
+          </CardContent>
+        </Card>
 
-              {/* Definitions Column */}
-              <div className="space-y-2">
-                <h4 className="text-xs font-medium text-muted-foreground">Definitions</h4>
-                {gameData.map((item) => (
-                  <Button
-                    key={`definition-${item.id}`}
-                    variant={
-                      item.matched ? "default" : 
-                      selectedItems.includes(item.id) ? "secondary" : "outline"
-                    }
-                    size="sm"
-                    onClick={() => handleItemClick(item.id)}
-                    disabled={item.matched}
-                    className={`w-full text-xs h-auto p-2 ${
-                      item.matched ? 'opacity-50' : ''
-                    }`}
-                  >
-                    {item.definition}
-                  </Button>
-                ))}
-              </div>
-            </div>
-          )}
-        </CardContent>
-      </Card>
-
-      {/* Game Controls */}
-      {gameState === 'playing' && (
-        <div className="flex gap-2">
-          <Button onClick={resetGame} variant="outline" size="sm" className="flex-1">
-            <RotateCcw className="w-3 h-3 mr-1" />
-            Reset
-          </Button>
-          {games.length > 1 && (
-            <div className="flex gap-1">
-              <Button 
-                onClick={() => setCurrentGame(Math.max(0, currentGame - 1))}
-                disabled={currentGame === 0}
-                variant="outline" 
-                size="sm"
-              >
-                <ChevronLeft className="w-3 h-3" />
+        {/* Game Controls */}
+        {gameState === 'playing' && (
+          <div className="flex gap-2">
+            {isPlayable && (
+              <Button onClick={resetGame} variant="outline" size="sm" className="flex-1">
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Reset
               </Button>
-              <Button 
-                onClick={() => setCurrentGame(Math.min(games.length - 1, currentGame + 1))}
-                disabled={currentGame === games.length - 1}
-                variant="outline" 
-                size="sm"
-              >
-                <ChevronRight className="w-3 h-3" />
-              </Button>
-            </div>
-          )}
-        </div>
-      )}
+            )}
+            {games.length > 1 && (
+              <div className="flex gap-1 ml-auto">
+                <Button 
+                  onClick={() => goToGame(Math.max(0, currentGame - 1))}
+                  disabled={currentGame === 0}
+                  variant="outline" 
+                  size="sm"
+                >
+                  <ChevronLeft className="w-3 h-3" />
+                </Button>
+                <Button 
+                  onClick={() => goToGame(Math.min(games.length - 1, currentGame + 1))}
+                  disabled={currentGame === games.length - 1}
+                  variant="outline" 
+                  size="sm"
+                >
+                  <ChevronRight className="w-3 h-3" />
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
     </div>
   );
 };
 
 // Updated Flashcard Component with flip animation and text selection
-const FlashcardOverlay: React.FC<{ content: string | string[] | any[]; onClose: () => void; onMinimize: () => void; onTextHighlight?: (selectedText: string, context: string) => void }> = ({
-  content,
+const FlashcardOverlay: React.FC<{
+  flashcards: FlashCard[];
+  documentId: string;
+  deckId?: string;
+  onClose: () => void;
+  onMinimize: () => void;
+  onTextHighlight?: (selectedText: string, context: string) => void;
+}> = ({
+  flashcards,
+  documentId,
+  deckId,
   onClose,
   onMinimize,
   onTextHighlight
 }) => {
+  const toast = useOverlayToast();
   const [currentCard, setCurrentCard] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
+  const { schedules, gradeCard } = useCardSchedules(documentId);
 
   const { TextSelectionPopup } = useTextSelection(onTextHighlight);
   
   const cards = useMemo(() => {
-    try {
-      // Handle new API format - array of objects
-      if (Array.isArray(content) && content.length > 0 && typeof content[0] === 'object') {
-        const flashcardObjects = content as FlashCard[];
-        return flashcardObjects.map(card => ({
-          front: card.question,
-          back: card.answer,
-          difficulty: card.difficulty,
-          topic: card.topic,
-          id: card.id
-        }));
-      }
-      
-      // Legacy format fallback
-      const contentStr = Array.isArray(content) ? content[0] : content;
-      const sections = contentStr.split('\n\n').filter(section => section.includes('**Front:**'));
-      const parsedCards: (FlashCard & { front: string; back: string })[] = [];
-      
-      for (const section of sections) {
-        const frontMatch = section.match(/\*\*Front:\*\* (.*?)(?=\n\*\*Back:\*\*|$)/s);
-        const backMatch = section.match(/\*\*Back:\*\* (.*?)$/s);
-        
-        if (frontMatch && backMatch) {
-          const front = frontMatch[1]?.trim();
-          const back = backMatch[1]?.trim();
-          
-          if (front && back) {
-            parsedCards.push({ 
-              front, 
-              back, 
-              difficulty: 1, 
-              topic: 'General', 
-              id: `legacy-${parsedCards.length + 1}`,
-              question: front,
-              answer: back
-            });
-          }
-        }
-      }
-      
-      return parsedCards;
-    } catch (error) {
-      console.error('Error parsing flashcard content:', error);
-      return [];
-    }
-  }, [content]);
+    return flashcards.map(card => ({
+      front: card.question,
+      back: card.answer,
+      difficulty: card.difficulty,
+      topic: card.topic,
+      id: card.id
+    }));
+  }, [flashcards]);
 
   const handleNext = () => {
     if (cards.length === 0) return;
@@ -671,6 +599,12 @@ const FlashcardOverlay: React.FC<{ content: string | string[] | any[]; onClose:
     setIsFlipped(!isFlipped);
   };
 
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!deckId) return;
+    gradeCard(getCardKey(deckId, cards[currentCard].id), grade);
+    handleNext();
+  };
+
   const handleCopyCard = async () => {
     if (cards.length === 0) return;
     const currentCardData = cards[currentCard];
@@ -711,6 +645,7 @@ const FlashcardOverlay: React.FC<{ content: string | string[] | any[]; onClose:
             <h3 className="text-sm font-medium">Flashcards</h3>
           </div>
           <div className="flex items-center gap-1">
+            <OverlayPlacementButtons />
             <Button variant="ghost" size="sm" onClick={onMinimize} className="h-6 w-6 p-0">
               <Minimize2 className="w-3 h-3" />
             </Button>
@@ -729,6 +664,21 @@ const FlashcardOverlay: React.FC<{ content: string | string[] | any[]; onClose:
   }
 
   const currentCardData = cards[currentCard];
+  const currentSchedule = deckId ? schedules[getCardKey(deckId, currentCardData.id)] : undefined;
+
+  // Named after the most common topic, since generated decks have no title
+  const getDeckName = () => {
+    const counts = new Map<string, number>();
+    flashcards.forEach((card) => card.topic && counts.set(card.topic, (counts.get(card.topic) ?? 0) + 1));
+    const [topic] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0] ?? ['Flashcards'];
+    return topic;
+  };
+
+  const getScheduleLabel = () => {
+    if (!currentSchedule) return 'New';
+    if (isDueToday(currentSchedule)) return 'Due today';
+    return `Next review in ${formatInterval(currentSchedule)}`;
+  };
 
   return (
     <div className="space-y-3 tool-bg-flashcard rounded-lg p-1 relative">
@@ -741,9 +691,11 @@ const FlashcardOverlay: React.FC<{ content: string | string[] | any[]; onClose:
           <Badge variant="secondary" className="text-xs">{currentCard + 1} of {cards.length}</Badge>
         </div>
         <div className="flex items-center gap-1">
-          <Button variant="ghost" size="sm" onClick={handleCopyCard} className="h-6 w-6 p-0">
+          <Button variant="ghost" size="sm" onClick={handleCopyCard} className="h-6 w-6 p-0" title="Copy card">
             <Copy className="w-3 h-3" />
           </Button>
+          <FlashcardExportMenu cards={flashcards} deckName={getDeckName()} deckId={deckId ?? 'unsaved'} />
+          <OverlayPlacementButtons />
           <Button variant="ghost" size="sm" onClick={onMinimize} className="h-6 w-6 p-0">
             <Minimize2 className="w-3 h-3" />
           </Button>
@@ -761,6 +713,9 @@ const FlashcardOverlay: React.FC<{ content: string | string[] | any[]; onClose:
           <Badge variant="outline" className="text-xs">
             {currentCardData.topic}
           </Badge>
+          {deckId && (
+            <span className="text-muted-foreground">{getScheduleLabel()}</span>
+          )}
         </div>
         <div className="flex items-center gap-1">
           <span className="text-muted-foreground">Difficulty:</span>
@@ -831,101 +786,226 @@ const FlashcardOverlay: React.FC<{ content: string | string[] | any[]; onClose:
           <ChevronRight className="w-3 h-3" />
         </Button>
       </div>
+
+      {deckId && isFlipped && (
+        <div className="space-y-1">
+          <p className="text-xs text-center text-muted-foreground">How well did you remember?</p>
+          <ReviewGradeButtons schedule={currentSchedule} onGrade={handleGrade} />
+        </div>
+      )}
     </div>
   );
 };
 
 // Redesigned Quiz Component with text selection
-const QuizOverlay: React.FC<{ content: string | string[] | any[]; onClose: () => void; onMinimize: () => void; onTextHighlight?: (selectedText: string, context: string) => void }> = ({
-  content,
+const getVerdictStyle = (verdict: AnswerVerdict) => {
+  switch (verdict) {
+    case 'correct': return 'border-green-500 bg-green-50/50 dark:bg-green-950/20';
+    case 'partial': return 'border-amber-500 bg-amber-50/50 dark:bg-amber-950/20';
+    case 'incorrect': return 'border-red-500 bg-red-50/50 dark:bg-red-950/20';
+  }
+};
+
+const getVerdictLabel = (grade: GradedAnswer) => {
+  switch (grade.verdict) {
+    case 'correct': return '✓ Correct';
+    case 'partial': return `◐ Partial (${Math.round(grade.score * 100)}%)`;
+    case 'incorrect': return '✗ Incorrect';
+  }
+};
+
+// Attempts of a quiz that is not stored yet are only kept in memory
+const UNSAVED_QUIZ_ID = 'unsaved';
+
+type QuizView = 'quiz' | 'exam-setup' | 'results' | 'history';
+
+const QuizOverlay: React.FC<{
+  questions: QuizQuestion[];
+  documentId: string;
+  toolResponseId?: string;
+  onClose: () => void;
+  onMinimize: () => void;
+  onTextHighlight?: (selectedText: string, context: string) => void;
+}> = ({
+  questions,
+  documentId,
+  toolResponseId,
   onClose,
   onMinimize,
   onTextHighlight
 }) => {
+  const toast = useOverlayToast();
+  const api = useApi();
   const [currentPage, setCurrentPage] = useState(0); // Pages of 2 questions each
-  const [questionStates, setQuestionStates] = useState<{ [key: string]: QuestionState }>({});
   const [selectedAnswers, setSelectedAnswers] = useState<{ [key: string]: string }>({});
+  const { attempts, saveAttempt } = useQuizAttempts(toolResponseId);
+  // Reopening resumes an unfinished attempt, or shows the results of the last one
+  const [attempt, setAttempt] = useState<QuizAttempt>(() => (
+    attempts[attempts.length - 1] ?? createAttempt(toolResponseId ?? UNSAVED_QUIZ_ID, questions.map(q => q.id))
+  ));
+  const [view, setView] = useState<QuizView>(() => (attempt.completedAt ? 'results' : 'quiz'));
+  // Finished attempt opened from the history
+  const [reviewedAttempt, setReviewedAttempt] = useState<QuizAttempt | null>(null);
+  // Mirrors `attempt` so answers graded concurrently are all kept
+  const attemptRef = useRef(attempt);
+  // When the current question was shown, for the time spent on it
+  const shownAtRef = useRef(Date.now());
+  const [gradingIds, setGradingIds] = useState<Set<string>>(new Set());
+  const [isSubmittingExam, setIsSubmittingExam] = useState(false);
 
   const { TextSelectionPopup } = useTextSelection(onTextHighlight);
 
-  const questions = useMemo(() => {
-    try {
-      // Handle new API format - array of objects
-      if (Array.isArray(content) && content.length > 0 && typeof content[0] === 'object') {
-        return content as QuizQuestion[];
-      }
-      
-      // Legacy format fallback
-      const contentStr = Array.isArray(content) ? content[0] : content;
-      const sections = contentStr.split('\n\n').filter(section => section.includes('**Question'));
-      const parsedQuestions: QuizQuestion[] = [];
-      
-      for (let index = 0; index < sections.length; index++) {
-        const section = sections[index];
-        const questionMatch = section.match(/\*\*Question \d+:\*\* (.*?)(?=\n[a-d]\)|$)/s);
-        const optionsMatch = section.match(/\n([a-d]\).*?)(?=\n\*\*Answer\*\*|\n\n|$)/gs);
-        const answerMatch = section.match(/\*\*Answer:\*\* (.*?)$/s);
-        
-        if (questionMatch && optionsMatch && answerMatch) {
-          const question = questionMatch[1]?.trim();
-          const options = optionsMatch.map(opt => opt.trim());
-          const correctAnswer = answerMatch[1]?.trim();
-          
-          if (question && options.length > 0 && correctAnswer) {
-            parsedQuestions.push({
-              id: index.toString(),
-              question,
-              options,
-              correct_answer: correctAnswer,
-              explanation: 'No explanation provided.',
-              difficulty: 1,
-              topic: 'General',
-              question_type: 'multiple_choice'
-            });
-          }
-        }
-      }
-      
-      return parsedQuestions;
-    } catch (error) {
-      console.error('Error parsing quiz content:', error);
-      return [];
-    }
-  }, [content]);
-
   // Calculate pages (2 questions per page)
   const questionsPerPage = 2;
-  const totalPages = Math.ceil(questions.length / questionsPerPage);
-  const currentQuestions = questions.slice(
+  const attemptQuestions = attempt.questionIds.flatMap(id => questions.filter(q => q.id === id));
+  const totalPages = Math.ceil(attemptQuestions.length / questionsPerPage);
+  const currentQuestions = attemptQuestions.slice(
     currentPage * questionsPerPage,
     (currentPage + 1) * questionsPerPage
   );
 
+  const attemptKey = toolResponseId ?? UNSAVED_QUIZ_ID;
+  const finishedAttempts = attempts.filter(a => a.completedAt);
+  const isExamRunning = !!attempt.exam && !attempt.completedAt;
+  // A finished attempt shown question by question, read-only
+  const isLocked = !!attempt.completedAt;
+
+  useEffect(() => {
+    shownAtRef.current = Date.now();
+  }, [currentPage, attempt.id]);
+
+  const updateAttempt = (next: QuizAttempt) => {
+    attemptRef.current = next;
+    setAttempt(next);
+    saveAttempt(next);
+  };
+
+  const startAttempt = (next: QuizAttempt) => {
+    attemptRef.current = next;
+    setAttempt(next);
+    // Exams are saved right away so the clock keeps running if the overlay is closed
+    if (next.exam) saveAttempt(next);
+    setSelectedAnswers({});
+    setCurrentPage(0);
+    setReviewedAttempt(null);
+    setView('quiz');
+  };
+
+  const handleFinish = () => {
+    updateAttempt({ ...attemptRef.current, completedAt: new Date().toISOString() });
+    setView('results');
+  };
+
+  const handleExamChange = (exam: ExamState) => {
+    updateAttempt({ ...attemptRef.current, exam });
+  };
+
+  // Grades every response at once. An answer the model could not grade scores
+  // zero rather than holding up the results.
+  const handleSubmitExam = async () => {
+    const { exam } = attemptRef.current;
+    if (!exam || isSubmittingExam) return;
+
+    setIsSubmittingExam(true);
+    const submittedAt = new Date().toISOString();
+    let failedCount = 0;
+    const graded = await Promise.all(attemptQuestions.flatMap(question => {
+      const response = exam.responses[question.id]?.trim();
+      if (!response) return [];
+      return [(async (): Promise<[string, QuizAnswer]> => {
+        let grade: GradedAnswer;
+        try {
+          grade = await gradeAnswer(question, response);
+        } catch (error) {
+          console.error('Failed to grade answer:', error);
+          failedCount++;
+          grade = { answer: response, score: 0, verdict: 'incorrect', feedback: 'This answer could not be graded.' };
+        }
+        return [question.id, { ...grade, answeredAt: submittedAt, timeSpentMs: exam.timeSpentMs[question.id] ?? 0 }];
+      })()];
+    }));
+
+    updateAttempt({ ...attemptRef.current, answers: Object.fromEntries(graded), completedAt: submittedAt });
+    setIsSubmittingExam(false);
+    setView('results');
+    if (failedCount > 0) {
+      toast.error(`${failedCount} answer${failedCount === 1 ? '' : 's'} could not be graded`);
+    }
+  };
+
   const handleAnswerSelect = (questionId: string, answer: string) => {
     setSelectedAnswers(prev => ({ ...prev, [questionId]: answer }));
   };
 
-  const handleSubmitQuestion = (questionId: string) => {
+  const setGrading = (questionId: string, isGrading: boolean) => {
+    setGradingIds(prev => {
+      const next = new Set(prev);
+      if (isGrading) next.add(questionId);
+      else next.delete(questionId);
+      return next;
+    });
+  };
+
+  // Short answers that do not match locally are graded by the model against
+  // the question's rubric, which may award partial credit
+  const gradeAnswer = async (question: QuizQuestion, answer: string): Promise<GradedAnswer> => {
+    if (question.question_type !== 'short_answer') {
+      return gradeChoice(question, answer);
+    }
+
+    const localGrade = gradeShortAnswerLocally(question, answer);
+    if (localGrade) return localGrade;
+
+    setGrading(question.id, true);
+    try {
+      const grade = await api.gradeAnswer({
+        document_id: documentId,
+        question: question.question,
+        reference_answer: question.correct_answer,
+        accepted_answers: question.accepted_answers,
+        rubric: question.rubric,
+        answer,
+      });
+      return fromAnswerGrade(answer, grade);
+    } finally {
+      setGrading(question.id, false);
+    }
+  };
+
+  const handleSubmitQuestion = async (questionId: string) => {
     const question = questions.find(q => q.id === questionId);
-    const selectedAnswer = selectedAnswers[questionId];
+    const selectedAnswer = selectedAnswers[questionId]?.trim();
     
-    if (!question || !selectedAnswer) return;
+    if (!question || !selectedAnswer || gradingIds.has(questionId)) return;
 
-    const isCorrect = selectedAnswer === question.correct_answer;
-    
-    setQuestionStates(prev => ({
-      ...prev,
-      [questionId]: {
-        answered: true,
-        selectedAnswer,
-        isCorrect,
-        showExplanation: true
+    const submittedAt = Date.now();
+    const timeSpentMs = submittedAt - shownAtRef.current;
+    shownAtRef.current = submittedAt;
+
+    let grade: GradedAnswer;
+    try {
+      grade = await gradeAnswer(question, selectedAnswer);
+    } catch (error) {
+      // Leave the question open so the answer can be submitted again
+      console.error('Failed to grade answer:', error);
+      toast.error(error instanceof ApiError ? `Failed to grade answer: ${error.message}` : 'Failed to grade answer');
+      return;
+    }
+
+    const current = attemptRef.current;
+    updateAttempt({
+      ...current,
+      answers: {
+        ...current.answers,
+        [questionId]: { ...grade, answeredAt: new Date(submittedAt).toISOString(), timeSpentMs }
       }
-    }));
+    });
 
     // Show toast feedback
-    if (isCorrect) {
+    if (grade.verdict === 'correct') {
       toast.success('Correct answer! 🎉');
+    } else if (grade.verdict === 'partial') {
+      toast.warning(`Partly correct (${Math.round(grade.score * 100)}%). Check the explanation below.`);
     } else {
       toast.error('Incorrect answer. Check the explanation below.');
     }
@@ -944,12 +1024,16 @@ const QuizOverlay: React.FC<{ content: string | string[] | any[]; onClose: () =>
   };
 
   const handleCopyQuiz = async () => {
-    const quizText = questions.map((q, idx) => {
-      const state = questionStates[q.id];
-      const userAnswer = state?.selectedAnswer || 'Not answered';
-      const isCorrect = state?.isCorrect || false;
+    const copiedAttempt = reviewedAttempt ?? attempt;
+    const copiedQuestions = copiedAttempt.questionIds.flatMap(id => questions.filter(q => q.id === id));
+    const quizText = copiedQuestions.map((q, idx) => {
+      const answer = copiedAttempt.answers[q.id];
+      const userAnswer = answer?.answer || 'Not answered';
+      const options = q.options.length > 0 ? `${q.options.join('\n')}\n` : '';
+      const result = answer ? getVerdictLabel(answer) : '✗ Incorrect';
+      const feedback = answer?.feedback ? `\nFeedback: ${answer.feedback}` : '';
       
-      return `Question ${idx + 1}: ${q.question}\n${q.options.join('\n')}\nYour answer: ${userAnswer}\nCorrect answer: ${q.correct_answer}\nExplanation: ${q.explanation}\nResult: ${isCorrect ? '✓ Correct' : '✗ Incorrect'}`;
+      return `Question ${idx + 1}: ${q.question}\n${options}Your answer: ${userAnswer}\nCorrect answer: ${q.correct_answer}\nExplanation: ${q.explanation}\nResult: ${result}${feedback}`;
     }).join('\n\n');
 
     try {
@@ -960,15 +1044,16 @@ const QuizOverlay: React.FC<{ content: string | string[] | any[]; onClose: () =>
     }
   };
 
+  // Partial credit counts towards the score
   const calculateScore = () => {
-    const answeredQuestions = Object.keys(questionStates);
-    if (answeredQuestions.length === 0) return 0;
-    const correctAnswers = answeredQuestions.filter(qId => questionStates[qId].isCorrect).length;
-    return Math.round((correctAnswers / answeredQuestions.length) * 100);
+    const answers = Object.values(attempt.answers);
+    if (answers.length === 0) return 0;
+    const earned = answers.reduce((sum, answer) => sum + answer.score, 0);
+    return Math.round((earned / answers.length) * 100);
   };
 
   const getAnsweredCount = () => {
-    return Object.keys(questionStates).length;
+    return Object.keys(attempt.answers).length;
   };
 
   const getDifficultyColor = (difficulty: number) => {
@@ -989,6 +1074,135 @@ const QuizOverlay: React.FC<{ content: string | string[] | any[]; onClose: () =>
     }
   };
 
+  const renderMultipleChoice = (question: QuizQuestion, selectedAnswer: string | undefined, isAnswered: boolean) => (
+    <div className="space-y-2">
+      {question.options.map((option, optionIndex) => {
+        const isSelected = selectedAnswer === option;
+        const isCorrectAnswer = option === question.correct_answer;
+        
+        let optionStyle = 'border cursor-pointer transition-all duration-200';
+        
+        if (isAnswered) {
+          if (isCorrectAnswer) {
+            optionStyle += ' border-green-500 bg-green-50 dark:bg-green-950/20';
+          } else if (isSelected && !isCorrectAnswer) {
+            optionStyle += ' border-red-500 bg-red-50 dark:bg-red-950/20';
+          } else {
+            optionStyle += ' border-border bg-muted/30';
+          }
+        } else {
+          if (isSelected) {
+            optionStyle += ' border-primary bg-primary/10';
+          } else {
+            optionStyle += ' border-border hover:bg-accent';
+          }
+        }
+
+        return (
+          <label
+            key={`${question.id}-option-${optionIndex}`}
+            className={`flex items-center gap-3 p-3 rounded-lg text-sm ${optionStyle}`}
+            onClick={!isAnswered ? () => handleAnswerSelect(question.id, option) : undefined}
+          >
+            <div className={`w-4 h-4 rounded-full border-2 flex items-center justify-center flex-shrink-0 ${
+              isAnswered ? (
+                isCorrectAnswer ? 'border-green-500 bg-green-500' :
+                isSelected && !isCorrectAnswer ? 'border-red-500 bg-red-500' : 'border-gray-300'
+              ) : (
+                isSelected ? 'border-primary bg-primary' : 'border-gray-300'
+              )
+            }`}>
+              {((isAnswered && isCorrectAnswer) || (!isAnswered && isSelected)) && (
+                <div className="w-2 h-2 rounded-full bg-white" />
+              )}
+              {isAnswered && isSelected && !isCorrectAnswer && (
+                <X className="w-2.5 h-2.5 text-white" />
+              )}
+              {isAnswered && isCorrectAnswer && (
+                <Check className="w-2.5 h-2.5 text-white" />
+              )}
+            </div>
+            <span className="flex-1 tool-content select-text">{option}</span>
+          </label>
+        );
+      })}
+    </div>
+  );
+
+  const renderTrueFalse = (question: QuizQuestion, selectedAnswer: string | undefined, isAnswered: boolean) => (
+    <div className="grid grid-cols-2 gap-2">
+      {question.options.map((option) => {
+        const isSelected = selectedAnswer === option;
+        const isCorrectAnswer = option === question.correct_answer;
+
+        let optionStyle = 'border-border hover:bg-accent';
+        if (isAnswered) {
+          if (isCorrectAnswer) optionStyle = 'border-green-500 bg-green-50 dark:bg-green-950/20 text-green-700 dark:text-green-400';
+          else if (isSelected) optionStyle = 'border-red-500 bg-red-50 dark:bg-red-950/20 text-red-700 dark:text-red-400';
+          else optionStyle = 'border-border bg-muted/30 text-muted-foreground';
+        } else if (isSelected) {
+          optionStyle = 'border-primary bg-primary/10';
+        }
+
+        return (
+          <button
+            key={`${question.id}-${option}`}
+            type="button"
+            disabled={isAnswered}
+            onClick={() => handleAnswerSelect(question.id, option)}
+            className={`flex items-center justify-center gap-2 p-3 rounded-lg border text-sm font-medium transition-all duration-200 ${optionStyle}`}
+          >
+            {isAnswered && isCorrectAnswer && <Check className="w-3 h-3" />}
+            {isAnswered && isSelected && !isCorrectAnswer && <X className="w-3 h-3" />}
+            {stripOptionLabel(option)}
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  const renderShortAnswer = (question: QuizQuestion, selectedAnswer: string | undefined, answer: QuizAnswer | undefined) => {
+    if (!answer && isLocked) {
+      return (
+        <p className="text-xs text-muted-foreground px-1">
+          Not answered. Expected: <span className="text-foreground tool-content select-text">{question.correct_answer}</span>
+        </p>
+      );
+    }
+
+    if (!answer) {
+      return (
+        <Input
+          value={selectedAnswer ?? ''}
+          onChange={(e) => handleAnswerSelect(question.id, e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleSubmitQuestion(question.id);
+            }
+          }}
+          disabled={gradingIds.has(question.id)}
+          placeholder="Type your answer..."
+          className="text-sm"
+        />
+      );
+    }
+
+    return (
+      <div className="space-y-1 text-sm">
+        <div className={`p-3 rounded-lg border ${getVerdictStyle(answer.verdict)}`}>
+          <p className="text-xs text-muted-foreground">Your answer</p>
+          <p className="tool-content select-text">{answer.answer}</p>
+        </div>
+        {answer.verdict !== 'correct' && (
+          <p className="text-xs text-muted-foreground px-1">
+            Expected: <span className="text-foreground tool-content select-text">{question.correct_answer}</span>
+          </p>
+        )}
+      </div>
+    );
+  };
+
   if (questions.length === 0) {
     return (
       <div className="space-y-3">
@@ -998,6 +1212,7 @@ const QuizOverlay: React.FC<{ content: string | string[] | any[]; onClose: () =>
             <h3 className="text-sm font-medium">Quiz</h3>
           </div>
           <div className="flex items-center gap-1">
+            <OverlayPlacementButtons />
             <Button variant="ghost" size="sm" onClick={onMinimize} className="h-6 w-6 p-0">
               <Minimize2 className="w-3 h-3" />
             </Button>
@@ -1015,52 +1230,149 @@ const QuizOverlay: React.FC<{ content: string | string[] | any[]; onClose: () =>
     );
   }
 
-  return (
-    <div className="space-y-3 tool-bg-quiz rounded-lg p-1 relative">
-      <TextSelectionPopup />
-      
-      <div className="flex items-center justify-between">
-        <div className="flex items-center gap-2">
-          <HelpCircle className="w-4 h-4 text-green-500" />
-          <h3 className="text-sm font-medium">Quiz</h3>
+  const header = (
+    <div className="flex items-center justify-between">
+      <div className="flex items-center gap-2">
+        <HelpCircle className="w-4 h-4 text-green-500" />
+        <h3 className="text-sm font-medium">Quiz</h3>
+        {view === 'quiz' && !isExamRunning && (
           <Badge variant="secondary" className="text-xs">
-            Page {currentPage + 1} of {totalPages}
+            {attempt.retryOf ? 'Retry • ' : ''}Page {currentPage + 1} of {totalPages}
           </Badge>
-        </div>
-        <div className="flex items-center gap-1">
-          <Button variant="ghost" size="sm" onClick={handleCopyQuiz} className="h-6 w-6 p-0">
-            <Copy className="w-3 h-3" />
+        )}
+        {(isExamRunning || view === 'exam-setup') && (
+          <Badge variant="secondary" className="text-xs">Exam</Badge>
+        )}
+        {(view === 'history' || view === 'results') && (
+          <Badge variant="secondary" className="text-xs">
+            {view === 'history' ? 'History' : 'Results'}
+          </Badge>
+        )}
+      </div>
+      <div className="flex items-center gap-1">
+        {!isExamRunning && view !== 'exam-setup' && (
+          <Button variant="ghost" size="sm" onClick={() => setView('exam-setup')} className="h-6 w-6 p-0" title="Exam mode">
+            <Timer className="w-3 h-3" />
           </Button>
-          <Button variant="ghost" size="sm" onClick={onMinimize} className="h-6 w-6 p-0">
-            <Minimize2 className="w-3 h-3" />
+        )}
+        {view === 'quiz' && !isExamRunning && finishedAttempts.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => setView('history')} className="h-6 w-6 p-0" title="Past attempts">
+            <History className="w-3 h-3" />
           </Button>
-          <Button variant="ghost" size="sm" onClick={onClose} className="h-6 w-6 p-0">
-            <X className="w-3 h-3" />
+        )}
+        {/* Copied results include the correct answers */}
+        {!isExamRunning && (
+          <Button variant="ghost" size="sm" onClick={handleCopyQuiz} className="h-6 w-6 p-0">
+            <Copy className="w-3 h-3" />
           </Button>
-        </div>
+        )}
+        <OverlayPlacementButtons />
+        <Button variant="ghost" size="sm" onClick={onMinimize} className="h-6 w-6 p-0">
+          <Minimize2 className="w-3 h-3" />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onClose} className="h-6 w-6 p-0">
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (view === 'history') {
+    return (
+      <div className="space-y-3 tool-bg-quiz rounded-lg p-1 relative">
+        {header}
+        <QuizHistory
+          attempts={finishedAttempts}
+          questions={questions}
+          onSelect={(selected) => {
+            setReviewedAttempt(selected);
+            setView('results');
+          }}
+          onBack={() => setView(attempt.completedAt ? 'results' : 'quiz')}
+        />
+      </div>
+    );
+  }
+
+  if (view === 'results') {
+    const resultsAttempt = reviewedAttempt ?? attempt;
+    return (
+      <div className="space-y-3 tool-bg-quiz rounded-lg p-1 relative">
+        {header}
+        <QuizResults
+          attempt={resultsAttempt}
+          questions={questions}
+          hasHistory={finishedAttempts.length > 1}
+          onRetryMissed={() => startAttempt(createAttempt(attemptKey, getMissedQuestionIds(resultsAttempt), resultsAttempt.id))}
+          onRetake={() => startAttempt(createAttempt(attemptKey, questions.map(q => q.id)))}
+          onReviewAnswers={reviewedAttempt ? undefined : () => setView('quiz')}
+          onShowHistory={() => setView('history')}
+          onBack={reviewedAttempt ? () => {
+            setReviewedAttempt(null);
+            setView('history');
+          } : undefined}
+        />
       </div>
+    );
+  }
+
+  if (view === 'exam-setup') {
+    return (
+      <div className="space-y-3 tool-bg-quiz rounded-lg p-1 relative">
+        {header}
+        <ExamSetup
+          questionCount={questions.length}
+          onStart={(settings) => startAttempt(createExamAttempt(attemptKey, questions, settings))}
+          onCancel={() => setView(attempt.completedAt ? 'results' : 'quiz')}
+        />
+      </div>
+    );
+  }
+
+  if (attempt.exam && isExamRunning) {
+    return (
+      <div className="space-y-3 tool-bg-quiz rounded-lg p-1 relative">
+        {header}
+        <QuizExam
+          attempt={{ ...attempt, exam: attempt.exam }}
+          questions={questions}
+          isSubmitting={isSubmittingExam}
+          onChange={handleExamChange}
+          onSubmit={handleSubmitExam}
+        />
+      </div>
+    );
+  }
+
+  const answeredCount = getAnsweredCount();
+
+  return (
+    <div className="space-y-3 tool-bg-quiz rounded-lg p-1 relative">
+      <TextSelectionPopup />
+      
+      {header}
 
       {/* Progress and Stats */}
       <div className="space-y-2">
         <Progress value={(currentPage + 1) / totalPages * 100} className="h-1" />
         <div className="flex items-center justify-between text-xs text-muted-foreground">
-          <span>Questions {currentPage * questionsPerPage + 1}-{Math.min((currentPage + 1) * questionsPerPage, questions.length)} of {questions.length}</span>
-          <span>Answered: {getAnsweredCount()}/{questions.length} • Score: {calculateScore()}%</span>
+          <span>Questions {currentPage * questionsPerPage + 1}-{Math.min((currentPage + 1) * questionsPerPage, attemptQuestions.length)} of {attemptQuestions.length}</span>
+          <span>Answered: {answeredCount}/{attemptQuestions.length} • Score: {calculateScore()}%</span>
         </div>
       </div>
 
       {/* Questions Display */}
       <div className="space-y-4">
         {currentQuestions.map((question, index) => {
-          const questionState = questionStates[question.id];
+          const answer = attempt.answers[question.id];
           const globalIndex = currentPage * questionsPerPage + index + 1;
-          const selectedAnswer = selectedAnswers[question.id];
-          const isAnswered = questionState?.answered || false;
-          const isCorrect = questionState?.isCorrect || false;
+          const selectedAnswer = answer?.answer ?? selectedAnswers[question.id];
+          const isAnswered = !!answer || isLocked;
+          const isGrading = gradingIds.has(question.id);
 
           return (
             <Card key={question.id} className={`transition-all duration-300 ${
-              isAnswered ? (isCorrect ? 'border-green-500 bg-green-50/50 dark:bg-green-950/20' : 'border-red-500 bg-red-50/50 dark:bg-red-950/20') : ''
+              answer ? getVerdictStyle(answer.verdict) : isLocked ? getVerdictStyle('incorrect') : ''
             }`}>
               <CardHeader className="pb-3">
                 <div className="flex items-center justify-between mb-2">
@@ -1072,90 +1384,58 @@ const QuizOverlay: React.FC<{ content: string | string[] | any[]; onClose: () =>
                     <Badge variant="outline" className="text-xs">
                       {question.topic}
                     </Badge>
-                    {isAnswered && (
-                      <Badge variant={isCorrect ? "default" : "destructive"} className="text-xs">
-                        {isCorrect ? "✓ Correct" : "✗ Incorrect"}
+                    {answer && (
+                      <Badge
+                        variant={answer.verdict === 'incorrect' ? "destructive" : "default"}
+                        className={`text-xs ${answer.verdict === 'partial' ? 'bg-amber-500 hover:bg-amber-500' : ''}`}
+                      >
+                        {getVerdictLabel(answer)}
                       </Badge>
                     )}
+                    {!answer && isLocked && (
+                      <Badge variant="destructive" className="text-xs">Not answered</Badge>
+                    )}
                   </div>
                 </div>
                 <p className="text-sm tool-content select-text">{question.question}</p>
               </CardHeader>
               
               <CardContent className="space-y-3">
-                {/* Options */}
-                <div className="space-y-2">
-                  {question.options.map((option, optionIndex) => {
-                    const isSelected = selectedAnswer === option;
-                    const isCorrectAnswer = option === question.correct_answer;
-                    
-                    let optionStyle = 'border cursor-pointer transition-all duration-200';
-                    
-                    if (isAnswered) {
-                      if (isCorrectAnswer) {
-                        optionStyle += ' border-green-500 bg-green-50 dark:bg-green-950/20';
-                      } else if (isSelected && !isCorrectAnswer) {
-                        optionStyle += ' border-red-500 bg-red-50 dark:bg-red-950/20';
-                      } else {
-                        optionStyle += ' border-border bg-muted/30';
-                      }
-                    } else {
-                      if (isSelected) {
-                        optionStyle += ' border-primary bg-primary/10';
-                      } else {
-                        optionStyle += ' border-border hover:bg-accent';
-                      }
-                    }
-
-                    return (
-                      <label
-                        key={`${question.id}-option-${optionIndex}`}
-                        className={`flex items-center gap-3 p-3 rounded-lg text-sm ${optionStyle}`}
-                        onClick={!isAnswered ? () => handleAnswerSelect(question.id, option) : undefined}
-                      >
-                        <div className={`w-4 h-4 rounded-full border-2 flex items-center justify-center flex-shrink-0 ${
-                          isAnswered ? (
-                            isCorrectAnswer ? 'border-green-500 bg-green-500' :
-                            isSelected && !isCorrectAnswer ? 'border-red-500 bg-red-500' : 'border-gray-300'
-                          ) : (
-                            isSelected ? 'border-primary bg-primary' : 'border-gray-300'
-                          )
-                        }`}>
-                          {((isAnswered && isCorrectAnswer) || (!isAnswered && isSelected)) && (
-                            <div className="w-2 h-2 rounded-full bg-white" />
-                          )}
-                          {isAnswered && isSelected && !isCorrectAnswer && (
-                            <X className="w-2.5 h-2.5 text-white" />
-                          )}
-                          {isAnswered && isCorrectAnswer && (
-                            <Check className="w-2.5 h-2.5 text-white" />
-                          )}
-                        </div>
-                        <span className="flex-1 tool-content select-text">{option}</span>
-                      </label>
-                    );
-                  })}
-                </div>
+                {/* Answer input for the question type */}
+                {question.question_type === 'true_false'
+                  ? renderTrueFalse(question, selectedAnswer, isAnswered)
+                  : question.question_type === 'short_answer'
+                    ? renderShortAnswer(question, selectedAnswer, answer)
+                    : renderMultipleChoice(question, selectedAnswer, isAnswered)}
 
                 {/* Submit Button */}
                 {!isAnswered && (
                   <Button 
                     onClick={() => handleSubmitQuestion(question.id)}
-                    disabled={!selectedAnswer}
+                    disabled={!selectedAnswer?.trim() || isGrading}
                     size="sm"
-                    className="w-full"
+                    className="w-full gap-1"
                   >
-                    Submit Answer
+                    {isGrading && <Loader2 className="w-3 h-3 animate-spin" />}
+                    {isGrading ? 'Grading...' : 'Submit Answer'}
                   </Button>
                 )}
 
                 {/* Explanation Card */}
-                {isAnswered && questionState?.showExplanation && (
+                {isAnswered && (
                   <Card className="bg-accent/50 border-accent">
                     <CardContent className="pt-3">
                       <div className="flex items-start gap-2">
                         <Lightbulb className="w-4 h-4 text-yellow-500 mt-0.5 flex-shrink-0" />
                         <div className="space-y-1">
+                          {answer?.feedback && (
+                            <>
+                              <p className="text-xs font-medium">Feedback:</p>
+                              <p className="text-xs text-muted-foreground leading-relaxed tool-content select-text">
+                                {answer.feedback}
+                              </p>
+                            </>
+                          )}
                           <p className="text-xs font-medium">Explanation:</p>
                           <p className="text-xs text-muted-foreground leading-relaxed tool-content select-text">
                             {question.explanation}
@@ -1199,25 +1479,54 @@ const QuizOverlay: React.FC<{ content: string | string[] | any[]; onClose: () =>
           <ChevronRight className="w-3 h-3" />
         </Button>
       </div>
+
+      {isLocked && (
+        <Button variant="outline" size="sm" onClick={() => setView('results')} className="w-full h-7 gap-1 text-xs">
+          <Trophy className="w-3 h-3" />
+          Back to results
+        </Button>
+      )}
+
+      {/* Unanswered questions count as missed */}
+      {!isLocked && answeredCount > 0 && (
+        <Button
+          variant={answeredCount === attemptQuestions.length ? 'default' : 'outline'}
+          size="sm"
+          onClick={handleFinish}
+          disabled={gradingIds.size > 0}
+          className="w-full h-7 gap-1 text-xs"
+        >
+          <Trophy className="w-3 h-3" />
+          {answeredCount === attemptQuestions.length
+            ? 'See results'
+            : `Finish now (${attemptQuestions.length - answeredCount} unanswered)`}
+        </Button>
+      )}
     </div>
   );
 };
 
-// Diagram Component (unchanged)
-const DiagramOverlay: React.FC<{ content: string | string[] | any[]; onClose: () => void; onMinimize: () => void }> = ({
-  content,
+// Diagram Component
+const DiagramOverlay: React.FC<{
+  diagrams: string[];
+  onClose: () => void;
+  onMinimize: () => void;
+  onSaveRevision?: (tool: ToolPayload) => Promise<void>;
+}> = ({
+  diagrams,
   onClose,
   onMinimize,
+  onSaveRevision,
 }) => {
   const [currentDiagram, setCurrentDiagram] = useState(0);
+  const [isEditing, setIsEditing] = useState(false);
 
-  const diagrams = useMemo(() => {
-    if (Array.isArray(content)) {
-      return content.filter(diagram => diagram.trim().length > 0);
-    } else {
-      return content.split('\n\n').filter(diagram => diagram.trim().length > 0);
-    }
-  }, [content]);
+  const handleSaveDiagram = async (code: string) => {
+    if (!onSaveRevision) return;
+    const response = diagrams.map((diagram, index) => (index === currentDiagram ? code : diagram));
+    await onSaveRevision({ tool_type: 'diagram', response });
+    setIsEditing(false);
+  };
 
   const handleNext = () => {
     if (diagrams.length === 0) return;
@@ -1238,6 +1547,7 @@ const DiagramOverlay: React.FC<{ content: string | string[] | any[]; onClose: ()
             <h3 className="text-sm font-medium">Diagrams</h3>
           </div>
           <div className="flex items-center gap-1">
+            <OverlayPlacementButtons />
             <Button variant="ghost" size="sm" onClick={onMinimize} className="h-6 w-6 p-0">
               <Minimize2 className="w-3 h-3" />
             </Button>
@@ -1267,6 +1577,13 @@ const DiagramOverlay: React.FC<{ content: string | string[] | any[]; onClose: ()
           )}
         </div>
         <div className="flex items-center gap-1">
+          {!isEditing && (
+            <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)} className="h-6 px-2 gap-1 text-xs">
+              <Pencil className="w-3 h-3" />
+              Edit
+            </Button>
+          )}
+          <OverlayPlacementButtons />
           <Button variant="ghost" size="sm" onClick={onMinimize} className="h-6 w-6 p-0">
             <Minimize2 className="w-3 h-3" />
           </Button>
@@ -1283,14 +1600,25 @@ const DiagramOverlay: React.FC<{ content: string | string[] | any[]; onClose: ()
 
       {/* Diagram Display */}
       <div className="space-y-3">
-        <MermaidDiagram 
-          code={diagrams[currentDiagram]} 
-          title={diagrams.length > 1 ? `Diagram ${currentDiagram + 1}` : undefined}
-        />
+        {isEditing ? (
+          <DiagramEditor
+            // Remount per diagram so history starts from that diagram's code
+            key={currentDiagram}
+            initialCode={diagrams[currentDiagram]}
+            onCancel={() => setIsEditing(false)}
+            onSave={onSaveRevision ? handleSaveDiagram : undefined}
+          />
+        ) : (
+          <MermaidDiagram
+            code={diagrams[currentDiagram]}
+            title={diagrams.length > 1 ? `Diagram ${currentDiagram + 1}` : 'Diagram'}
+            fileName={`diagram-${currentDiagram + 1}`}
+          />
+        )}
       </div>
 
       {/* Navigation for multiple diagrams */}
-      {diagrams.length > 1 && (
+      {diagrams.length > 1 && !isEditing && (
         <div className="flex items-center justify-center gap-2">
           <Button variant="outline" size="sm" onClick={handlePrev} className="h-7 px-3">
             <ChevronLeft className="w-3 h-3" />
@@ -1309,59 +1637,133 @@ const DiagramOverlay: React.FC<{ content: string | string[] | any[]; onClose: ()
   );
 };
 
+const POPOUT_TITLES: Record<ToolPayload['tool_type'], string> = {
+  flashcard: 'Flashcards',
+  quiz: 'Quiz',
+  diagram: 'Diagrams',
+  game: 'Learning Games',
+};
+
 // Main Tool Overlay Component
-export const ToolOverlay: React.FC<ToolOverlayProps> = ({ toolType, content, onClose, onMinimize, onTextHighlight }) => {
-  const getOverlayContent = () => {
-    const type = toolType.toLowerCase();
-    
-    if (type.includes('flashcard')) {
-      return <FlashcardOverlay content={content} onClose={onClose} onMinimize={onMinimize} onTextHighlight={onTextHighlight} />;
-    }
-    
-    if (type.includes('quiz')) {
-      return <QuizOverlay content={content} onClose={onClose} onMinimize={onMinimize} onTextHighlight={onTextHighlight} />;
-    }
-    
-    if (type.includes('diagram')) {
-      return <DiagramOverlay content={content} onClose={onClose} onMinimize={onMinimize} />;
+export const ToolOverlay: React.FC<ToolOverlayProps> = ({
+  tool,
+  documentId,
+  toolResponseId,
+  placement = 'panel',
+  isVisible = true,
+  toasterId,
+  onPlacementChange,
+  onClose,
+  onMinimize,
+  onTextHighlight,
+  onSaveRevision,
+}) => {
+  const toast = useOverlayToast();
+  // The overlay is rendered into this node, which is moved between the panel,
+  // the page body and a popped-out window without remounting the overlay
+  const [host] = useState(() => document.createElement('div'));
+  const panelSlotRef = useRef<HTMLDivElement>(null);
+  const [popout, setPopout] = useState<Window | null>(null);
+  const [view, setView] = useState<Window>(window);
+  const onPlacementChangeRef = useRef(onPlacementChange);
+
+  useEffect(() => {
+    onPlacementChangeRef.current = onPlacementChange;
+  }, [onPlacementChange]);
+
+  useEffect(() => () => host.remove(), [host]);
+
+  // Opened from the click itself, since pop-up blockers only allow windows opened by the user
+  const handlePlacementChange = useCallback((next: OverlayPlacement) => {
+    if (next === 'window') {
+      const popup = openPopoutWindow(POPOUT_TITLES[tool.tool_type]);
+      if (!popup) {
+        toast.error('Allow pop-ups to open tools in a new window');
+        return;
+      }
+      setPopout(popup);
     }
+    onPlacementChange?.(next);
+  }, [onPlacementChange, tool.tool_type, toast]);
+
+  useEffect(() => {
+    if (!popout) return;
+    // Closing the window puts the overlay back into the panel
+    const handlePopupClosed = () => onPlacementChangeRef.current?.('panel');
+    const handleMainClosed = () => popout.close();
+    popout.addEventListener('pagehide', handlePopupClosed);
+    window.addEventListener('pagehide', handleMainClosed);
+
+    return () => {
+      popout.removeEventListener('pagehide', handlePopupClosed);
+      window.removeEventListener('pagehide', handleMainClosed);
+      popout.close();
+    };
+  }, [popout]);
+
+  // Keeps the window in step with the placement, which the parent may change too
+  useEffect(() => {
+    if (placement === 'window' && !popout) onPlacementChangeRef.current?.('panel');
+    if (placement !== 'window' && popout) setPopout(null);
+  }, [placement, popout]);
+
+  useLayoutEffect(() => {
+    const target = placement === 'panel' ? panelSlotRef.current
+      : placement === 'fullscreen' ? document.body
+      : popout?.document.body;
+    if (!target) return;
+    // Outside the panel, hiding the panel slot does not hide the overlay
+    host.className = placement === 'fullscreen' ? (isVisible ? 'fixed inset-0 z-50' : 'hidden') : 'h-full';
+    target.appendChild(host);
+    setView(target.ownerDocument.defaultView ?? window);
+  }, [host, placement, popout, isVisible]);
 
-    if (type.includes('game')) {
-      return <GameOverlay content={content} onClose={onClose} onMinimize={onMinimize} />;
+  const getOverlayContent = () => {
+    switch (tool.tool_type) {
+      case 'flashcard':
+        return (
+          <FlashcardOverlay
+            flashcards={tool.response}
+            documentId={documentId}
+            deckId={toolResponseId}
+            onClose={onClose}
+            onMinimize={onMinimize}
+            onTextHighlight={onTextHighlight}
+          />
+        );
+      case 'quiz':
+        return <QuizOverlay questions={tool.response} documentId={documentId} toolResponseId={toolResponseId} onClose={onClose} onMinimize={onMinimize} onTextHighlight={onTextHighlight} />;
+      case 'diagram':
+        return <DiagramOverlay diagrams={tool.response} onClose={onClose} onMinimize={onMinimize} onSaveRevision={onSaveRevision} />;
+      case 'game':
+        return <GameOverlay rounds={tool.response} documentId={documentId} toolResponseId={toolResponseId} onClose={onClose} onMinimize={onMinimize} />;
     }
-    
-    // Default fallback
-    return (
-      <div className="space-y-3">
-        <div className="flex items-center justify-between">
-          <h3 className="text-sm font-medium">{toolType}</h3>
-          <div className="flex items-center gap-1">
-            <Button variant="ghost" size="sm" onClick={onMinimize} className="h-6 w-6 p-0">
-              <Minimize2 className="w-3 h-3" />
-            </Button>
-            <Button variant="ghost" size="sm" onClick={onClose} className="h-6 w-6 p-0">
-              <X className="w-3 h-3" />
-            </Button>
-          </div>
-        </div>
-        <Card>
-          <CardContent className="pt-4">
-            <div className="whitespace-pre-wrap text-sm">
-              {Array.isArray(content) ? JSON.stringify(content, null, 2) : content}
-            </div>
-          </CardContent>
-        </Card>
-      </div>
-    );
   };
 
   return (
-    <div className="absolute inset-0 bg-background/98 backdrop-blur-sm z-50 overflow-hidden">
-      <ScrollArea className="h-full">
-        <div className="p-4">
-          {getOverlayContent()}
-        </div>
-      </ScrollArea>
-    </div>
+    <>
+      <div ref={panelSlotRef} className={placement === 'panel' ? 'absolute inset-0 z-50' : 'hidden'} />
+      {createPortal(
+        <OverlayPlacementContext.Provider
+          value={{
+            view,
+            placement,
+            onPlacementChange: onPlacementChange && handlePlacementChange,
+            portalContainer: view.document.body,
+            toasterId: placement === 'window' ? toasterId : undefined,
+          }}
+        >
+          <div className="h-full bg-background/98 backdrop-blur-sm overflow-hidden">
+            <ScrollArea className="h-full">
+              <div className={placement === 'panel' ? 'p-4' : 'p-4 max-w-4xl mx-auto'}>
+                {getOverlayContent()}
+              </div>
+            </ScrollArea>
+          </div>
+          {placement === 'window' && <Toaster id={toasterId} position="bottom-right" toastOptions={{ duration: 3000 }} />}
+        </OverlayPlacementContext.Provider>,
+        host,
+      )}
+    </>
   );
 };
\ No newline at end of file
@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect, forwardRef, useImperativeHandle } from 'react';
-import { Send, Mic, Brain, Network, HelpCircle, ChevronDown, Loader2, MicOff, ExternalLink, Copy, Check, Gamepad2, Quote, X } from 'lucide-react';
+import { Send, Mic, Brain, Network, HelpCircle, ChevronDown, Loader2, MicOff, ExternalLink, Copy, Check, Gamepad2, Quote, X, Square, RotateCcw, BookOpen, CalendarCheck, Library } from 'lucide-react';
 import { Button } from './ui/button';
 import { Textarea } from './ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
@@ -8,6 +8,14 @@ import { ScrollArea } from './ui/scroll-area';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
 import { ToolOverlay } from './ToolOverlays';
+import type { OverlayPlacement } from '../lib/overlay-placement';
+import { ReviewQueueOverlay } from './FlashcardReview';
+import { DeckLibraryOverlay } from './DeckLibrary';
+import { MarkdownContent } from './MarkdownContent';
+import { resolveTocPage, type PageLabels } from '../lib/page-labels';
+import { useApi } from '../lib/api-context';
+import { ApiError, isAbortError, type SendMessageRequest } from '../lib/api';
+import type { ChatHistory, Citation, TOC, ToolPayload, ToolType } from '../lib/schemas';
 import { toast } from 'sonner';
 
 interface Message {
@@ -19,77 +27,54 @@ interface Message {
   toolUsed?: string;
   toolResponse?: {
     type: string;
-    content: string | string[] | any[];
+    // Loaded on demand for messages restored from chat history
+    payload?: ToolPayload;
     toolResponseId?: string;
   };
   highlightedText?: {
     text: string;
     context: string;
   };
+  citations?: Citation[];
+  // Set on assistant replies that are still arriving or ended early
+  status?: 'streaming' | 'stopped' | 'interrupted';
+  // The request behind an interrupted reply, so it can be sent again
+  retryRequest?: SendMessageRequest;
 }
 
 interface Tool {
-  id: string;
+  id: ToolType;
   name: string;
   icon: React.ReactNode;
   description: string;
   color: string;
 }
 
-interface Section {
-  section_id: string;
-  title: string;
-  page: number;
-}
-
-interface Chapter {
-  chapter_id: string;
-  chapter_number: string;
-  title: string;
-  sections: Section[] | null;
-}
-
-interface TOC {
-  book_id: string;
-  chapters: Chapter[];
-}
-
-interface ChatMessage {
-  id: string;
-  chat_session_id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  model_id: string | null;
-  tool_response_id: string | null;
-  tool_type: string | null;
-  created_at: string;
-}
-
-interface ChatHistory {
-  chat_session_id: string;
-  messages: ChatMessage[];
-}
-
-interface ToolResponse {
-  id: string;
-  tool_type: string;
-  response: string[];
-  created_at: string;
-  response_text: string | null;
-}
-
 interface ToolPanelProps {
   chatSessionId: string;
   documentId: string;
   currentPage: number;
   tocData?: TOC;
+  pageLabels?: PageLabels | null;
   initialChatHistory?: ChatHistory | null;
   onTextHighlight?: (selectedText: string, context: string, toolType?: string) => void;
+  onCitationSelect?: (citation: Citation) => void;
+}
+
+interface ActiveTool {
+  tool: ToolPayload;
+  toolResponseId?: string;
+}
+
+// A tool overlay that stays mounted while minimised, so it keeps its state
+interface OpenTool extends ActiveTool {
+  key: string;
+  placement: OverlayPlacement;
 }
 
 interface ToolPanelRef {
   handleHighlightedText: (text: string, context: string, toolType?: string) => void;
-  handleDirectToolGeneration: (text: string, context: string, toolType: string) => void;
+  handleDirectToolGeneration: (text: string, context: string, toolType: ToolType) => void;
 }
 
 const availableModels = [
@@ -149,13 +134,52 @@ const getToolDisplayName = (toolType: string): string => {
   return toolType;
 };
 
+// Toaster of the overlay's popped-out window
+const getToasterId = (overlayKey: string): string => `tool-overlay-${overlayKey}`;
+
+// Open tools, restored on click; popped-out tools are brought back into the panel
+const ToolDock: React.FC<{
+  tools: OpenTool[];
+  onRestore: (key: string) => void;
+  onClose: (key: string) => void;
+}> = ({ tools, onRestore, onClose }) => (
+  <div className="px-2 py-1 border-t flex-shrink-0 bg-card">
+    <div className="flex gap-1 overflow-x-auto">
+      {tools.map((openTool) => {
+        const toolInfo = availableTools.find(t => t.id === openTool.tool.tool_type);
+        return (
+          <div key={openTool.key} className="flex items-center flex-shrink-0 rounded-md border bg-background">
+            <button
+              type="button"
+              onClick={() => onRestore(openTool.key)}
+              className={`flex items-center gap-1 pl-2 pr-1 h-6 text-xs rounded-l-md ${toolInfo?.color ?? ''}`}
+              title={`${openTool.placement === 'window' ? 'Bring back' : 'Restore'} ${getToolDisplayName(openTool.tool.tool_type).toLowerCase()}`}
+            >
+              {toolInfo?.icon}
+              <span className="text-foreground">{getToolDisplayName(openTool.tool.tool_type)}</span>
+              <span className="text-muted-foreground">{openTool.tool.response.length}</span>
+              {openTool.placement === 'window' && <ExternalLink className="w-3 h-3 text-muted-foreground" />}
+            </button>
+            <Button variant="ghost" size="sm" onClick={() => onClose(openTool.key)} className="h-6 w-6 p-0" title="Close">
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
 // Message Component with Copy Button
 const MessageComponent: React.FC<{
   message: Message;
   selectedModelInfo: any;
-  onOpenToolMessage: (toolResponse: { type: string; content: string | string[] | any[]; toolResponseId?: string }) => void;
-  onLoadToolResponse: (toolResponseId: string, toolType: string) => Promise<void>;
-}> = ({ message, selectedModelInfo, onOpenToolMessage, onLoadToolResponse }) => {
+  onOpenToolMessage: (activeTool: ActiveTool) => void;
+  onLoadToolResponse: (toolResponseId: string) => Promise<void>;
+  onRetry: (message: Message) => void;
+  getCitationLabel: (citation: Citation) => string;
+  onCitationSelect?: (citation: Citation) => void;
+}> = ({ message, selectedModelInfo, onOpenToolMessage, onLoadToolResponse, onRetry, getCitationLabel, onCitationSelect }) => {
   const [copiedStates, setCopiedStates] = useState<{ [key: string]: boolean }>({});
   const [isLoadingTool, setIsLoadingTool] = useState(false);
 
@@ -177,11 +201,11 @@ const MessageComponent: React.FC<{
     if (!message.toolResponse) return;
 
     // If we have the content already, open it directly
-    if (message.toolResponse.content && 
-        (Array.isArray(message.toolResponse.content) ? 
-         message.toolResponse.content.length > 0 : 
-         message.toolResponse.content.length > 0)) {
-      onOpenToolMessage(message.toolResponse);
+    if (message.toolResponse.payload) {
+      onOpenToolMessage({
+        tool: message.toolResponse.payload,
+        toolResponseId: message.toolResponse.toolResponseId
+      });
       return;
     }
 
@@ -189,9 +213,9 @@ const MessageComponent: React.FC<{
     if (message.toolResponse.toolResponseId) {
       setIsLoadingTool(true);
       try {
-        await onLoadToolResponse(message.toolResponse.toolResponseId, message.toolResponse.type);
+        await onLoadToolResponse(message.toolResponse.toolResponseId);
       } catch (error) {
-        toast.error('Failed to load tool response');
+        toast.error(error instanceof ApiError ? `Failed to load tool response: ${error.message}` : 'Failed to load tool response');
       } finally {
         setIsLoadingTool(false);
       }
@@ -225,7 +249,23 @@ const MessageComponent: React.FC<{
         )}
 
         <div className="flex items-start justify-between gap-2">
-          <div className="text-sm whitespace-pre-wrap flex-1">{message.content}</div>
+          {message.status === 'streaming' && !message.content ? (
+            <div className="flex items-center gap-2 flex-1">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              <span className="text-xs">Thinking...</span>
+            </div>
+          ) : (
+            <div className="text-sm flex-1 min-w-0">
+              {message.sender === 'ai' ? (
+                <MarkdownContent content={message.content} />
+              ) : (
+                <div className="whitespace-pre-wrap">{message.content}</div>
+              )}
+              {message.status === 'streaming' && (
+                <span className="inline-block w-1.5 h-3 ml-0.5 align-middle bg-current opacity-60 animate-pulse" />
+              )}
+            </div>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -242,6 +282,48 @@ const MessageComponent: React.FC<{
           </Button>
         </div>
         
+        {message.citations && message.citations.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {message.citations.map((citation, index) => (
+              <Button
+                key={`${citation.page}-${index}`}
+                variant="outline"
+                size="sm"
+                onClick={() => onCitationSelect?.(citation)}
+                disabled={!onCitationSelect}
+                className="h-5 px-2 gap-1 text-xs max-w-full"
+                title={citation.quote ? `"${citation.quote}"` : undefined}
+              >
+                <BookOpen className="w-3 h-3 flex-shrink-0" />
+                <span className="truncate">{getCitationLabel(citation)}</span>
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {message.status === 'stopped' && (
+          <p className="mt-1 text-xs italic opacity-70">Generation stopped</p>
+        )}
+
+        {message.status === 'interrupted' && (
+          <div className="mt-1 flex items-center gap-2 text-xs">
+            <span className="italic opacity-70">
+              {message.content ? 'Connection lost before the reply finished' : 'The reply could not be received'}
+            </span>
+            {message.retryRequest && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onRetry(message)}
+                className="text-xs gap-1 h-5 px-2"
+              >
+                <RotateCcw className="w-3 h-3" />
+                Retry
+              </Button>
+            )}
+          </div>
+        )}
+
         {message.toolResponse && (
           <div className="mt-2">
             <Button
@@ -286,9 +368,12 @@ export const ToolPanel = forwardRef<ToolPanelRef, ToolPanelProps>(({
   documentId,
   currentPage,
   tocData,
+  pageLabels,
   initialChatHistory,
-  onTextHighlight
+  onTextHighlight,
+  onCitationSelect
 }, ref) => {
+  const api = useApi();
   const [selectedModel, setSelectedModel] = useState(availableModels[0].id);
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
@@ -302,9 +387,21 @@ export const ToolPanel = forwardRef<ToolPanelRef, ToolPanelProps>(({
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const recordingTimerRef = useRef<number | null>(null);
   
-  // Tool overlay states
-  const [activeOverlay, setActiveOverlay] = useState<{ type: string; content: string | string[] | any[]; toolResponseId?: string } | null>(null);
+  // Tool overlay states; minimised tools stay open in the dock
+  const [openTools, setOpenTools] = useState<OpenTool[]>([]);
+  const [visibleToolKey, setVisibleToolKey] = useState<string | null>(null);
+  const nextToolKeyRef = useRef(0);
+  // Read by showTool, which also runs after awaiting a fetch, when `openTools` may be stale
+  const openToolsRef = useRef(openTools);
+  useEffect(() => {
+    openToolsRef.current = openTools;
+  }, [openTools]);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
   
+  // Aborts the reply that is currently streaming
+  const streamAbortRef = useRef<AbortController | null>(null);
+
   // Scroll to bottom ref
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
@@ -315,11 +412,11 @@ export const ToolPanel = forwardRef<ToolPanelRef, ToolPanelProps>(({
       setContextText({ text, context });
       setInputValue(`Please explain: "${text}"`);
     },
-    handleDirectToolGeneration: (text: string, context: string, toolType: string) => {
+    handleDirectToolGeneration: (text: string, context: string, toolType: ToolType) => {
       // Generate tool content directly and show in chat (no auto-opening overlay)
       const toolName = getToolDisplayName(toolType);
       const toolMessage = `Generate ${toolName.toLowerCase()} from the selected text: "${text}"`;
-      handleSendMessage(toolMessage, true, { text, context });
+      handleSendMessage(toolMessage, toolType, { text, context });
       toast.info(`Generating ${toolName.toLowerCase()} from selected text...`);
     }
   }));
@@ -332,21 +429,46 @@ export const ToolPanel = forwardRef<ToolPanelRef, ToolPanelProps>(({
     toast.success('Selected text added to chat!');
   };
 
+  // Saves an edit made in overlay `overlayKey` as a new revision of `originalId`;
+  // messages that pointed at the original now open the revision
+  const handleSaveToolRevision = (overlayKey: string, originalId: string) => async (tool: ToolPayload): Promise<void> => {
+    // Shown in the pop-out when the editor is there
+    const popout = openToolsRef.current.find(openTool => openTool.key === overlayKey)?.placement === 'window';
+    const toastOptions = { toasterId: popout ? getToasterId(overlayKey) : undefined };
+    try {
+      const revision = await api.saveToolResponseRevision(originalId, tool);
+      const payload: ToolPayload = revision;
+
+      setMessages(prev => prev.map(msg => {
+        if (msg.toolResponse?.toolResponseId === originalId) {
+          return {
+            ...msg,
+            toolResponse: {
+              ...msg.toolResponse,
+              payload,
+              toolResponseId: revision.id
+            }
+          };
+        }
+        return msg;
+      }));
+      // Same key, so the overlay keeps its state while showing the revision
+      setOpenTools(prev => prev.map(openTool => (
+        openTool.key === overlayKey ? { ...openTool, tool: payload, toolResponseId: revision.id } : openTool
+      )));
+      toast.success('Saved as a new revision', toastOptions);
+    } catch (error) {
+      toast.error(error instanceof ApiError ? `Failed to save revision: ${error.message}` : 'Failed to save revision', toastOptions);
+      // Keep the editor open with the unsaved changes
+      throw error;
+    }
+  };
+
   // Load tool response from API
-  const loadToolResponse = async (toolResponseId: string, toolType: string): Promise<void> => {
+  const loadToolResponse = async (toolResponseId: string): Promise<void> => {
     try {
-      // Mock API response based on provided structure
-      const mockToolResponse: ToolResponse = {
-        id: toolResponseId,
-        tool_type: toolType,
-        response: [
-          "graph TD\n    Blockchain  -->  A[Decentralized Network]\n    A  -->  B[Nodes  Peers]\n    B  -->  C[Transactions Verified]\n    C  -->  D[Blocks Created]\n    D  -->  E[Blockchain Updated]",
-          "graph TD\n    Transaction  -->  A[Verified by Nodes]\n    A  -->  B[Encrypted  Linked]\n    B  -->  C[Block Created]\n    C  -->  D[Block Hashed]\n    D  -->  E[Blockchain Updated]",
-          "graph TD\n    Data  -->  A[Encrypted]\n    A  -->  B[Distributed Ledger]\n    B  -->  C[Decentralized Network]\n    C  -->  D[Consensus Mechanism]\n    D  -->  E[Validated Transactions]"
-        ],
-        created_at: "2025-07-18T00:18:56.906161+00:00",
-        response_text: null
-      };
+      const toolResponse = await api.getToolResponse(toolResponseId);
+      const payload: ToolPayload = toolResponse;
 
       // Update the message with the loaded tool response
       setMessages(prev => prev.map(msg => {
@@ -355,7 +477,7 @@ export const ToolPanel = forwardRef<ToolPanelRef, ToolPanelProps>(({
             ...msg,
             toolResponse: {
               ...msg.toolResponse,
-              content: mockToolResponse.response
+              payload
             }
           };
         }
@@ -363,11 +485,7 @@ export const ToolPanel = forwardRef<ToolPanelRef, ToolPanelProps>(({
       }));
 
       // Open the tool overlay with the loaded content
-      setActiveOverlay({
-        type: toolType,
-        content: mockToolResponse.response,
-        toolResponseId
-      });
+      showTool({ tool: payload, toolResponseId });
     } catch (error) {
       console.error('Failed to load tool response:', error);
       throw error;
@@ -385,7 +503,6 @@ export const ToolPanel = forwardRef<ToolPanelRef, ToolPanelProps>(({
             if (msg.tool_response_id && msg.tool_type) {
               toolResponse = {
                 type: msg.tool_type,
-                content: [], // Will be loaded on demand
                 toolResponseId: msg.tool_response_id
               };
             }
@@ -397,7 +514,8 @@ export const ToolPanel = forwardRef<ToolPanelRef, ToolPanelProps>(({
               timestamp: new Date(msg.created_at),
               model: msg.model_id || undefined,
               toolUsed: msg.tool_type || undefined,
-              toolResponse
+              toolResponse,
+              citations: msg.citations
             };
           })
         );
@@ -447,7 +565,7 @@ export const ToolPanel = forwardRef<ToolPanelRef, ToolPanelProps>(({
     for (const chapter of tocData.chapters) {
       if (chapter.sections) {
         for (const section of chapter.sections) {
-          if (section.page === currentPage) {
+          if (resolveTocPage(pageLabels, section.page) === currentPage) {
             return {
               chapterName: chapter.title,
               sectionName: section.title,
@@ -566,166 +684,101 @@ export const ToolPanel = forwardRef<ToolPanelRef, ToolPanelProps>(({
     };
   }, [isRecording]);
 
-  // Send message API call
-  const sendChatMessage = async (content: string, autoGenerated = false, highlightedText?: { text: string; context: string }) => {
+  // Don't leave a reply streaming into an unmounted panel
+  useEffect(() => {
+    return () => streamAbortRef.current?.abort();
+  }, []);
+
+  // Builds a send-message request for the current reading position
+  const buildChatRequest = (content: string, toolType?: ToolType, highlightedText?: { text: string; context: string }): SendMessageRequest => {
     const context = getCurrentContext();
-    
+
+    return {
+      client_message_id: crypto.randomUUID(),
+      chat_session_id: chatSessionId,
+      document_id: documentId,
+      content,
+      model_id: selectedModel,
+      page_number: currentPage,
+      chapter_id: context.chapterId,
+      section_id: context.sectionId,
+      tool_type: toolType ?? null,
+      highlighted_text: highlightedText ? {
+        text: highlightedText.text,
+        context: highlightedText.context,
+        page: currentPage,
+        chapter_id: context.chapterId,
+        section_id: context.sectionId
+      } : null
+    };
+  };
+
+  // Streams the assistant reply into a placeholder message that is replaced
+  // by the stored message (with any tool payload) once the stream completes
+  const streamReply = async (request: SendMessageRequest) => {
+    const pendingId = `pending-${Date.now()}`;
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+
+    const updatePending = (update: (message: Message) => Message | null) => {
+      setMessages(prev => prev.flatMap(message => {
+        if (message.id !== pendingId) return [message];
+        const next = update(message);
+        return next ? [next] : [];
+      }));
+    };
+
+    setMessages(prev => [...prev, {
+      id: pendingId,
+      content: '',
+      sender: 'ai',
+      timestamp: new Date(),
+      model: request.model_id,
+      status: 'streaming'
+    }]);
+    setIsLoading(true);
+
     try {
-      const mockResponse = {
-        chat_session_id: chatSessionId,
-        role: "assistant",
-        content: highlightedText 
-          ? `Based on the selected text "${highlightedText.text}", this refers to ${highlightedText.text.toLowerCase()}. ${highlightedText.text} is a fundamental concept that plays a crucial role in algorithm analysis. It represents the upper bound of an algorithm's time complexity, helping us understand the worst-case scenario for performance.`
-          : autoGenerated 
-            ? "I've analyzed the selected content and generated the requested tool. You can interact with the results using the tool button below."
-            : "This page discusses important concepts. The content covers fundamental principles that are essential for understanding the subject matter.",
-        model_id: selectedModel,
-        tool_type: autoGenerated ? (
-          content.includes('game') ? 'game' :
-          content.includes('diagram') ? 'diagram' : 
-          content.includes('flashcard') ? 'flashcard' : 'quiz'
-        ) : null,
-        tool_response_id: autoGenerated ? 'mock-response-' + Date.now() : null,
-        tool_response: autoGenerated ? (
-          content.includes('game') ? [
-            "**Memory Match Game**\n\nMatch the algorithm concepts with their definitions:\n\n1. Big O → Time complexity upper bound\n2. DFS → Depth-first search\n3. BFS → Breadth-first search\n4. Heap → Complete binary tree",
-            "**Quiz Game**\n\nAnswer these questions to level up:\n\n**Level 1:** What is O(n)?\n**Level 2:** Which is faster: O(log n) or O(n)?\n**Level 3:** Implement bubble sort"
-          ] :
-          content.includes('diagram') ? [
-            "graph TD\n    Algorithm[Algorithm Analysis] --> TimeComplexity[Time Complexity]\n    Algorithm --> SpaceComplexity[Space Complexity]\n    TimeComplexity --> BigO[Big O Notation]\n    TimeComplexity --> Omega[Omega Notation]\n    TimeComplexity --> Theta[Theta Notation]",
-            "graph LR\n    Input[Input Size n] --> Linear[O(n)]\n    Input --> Quadratic[O(n²)]\n    Input --> Logarithmic[O(log n)]\n    Input --> Constant[O(1)]"
-          ] : content.includes('flashcard') ? [
-            {
-              "id": "1",
-              "question": "What is the primary subject of the book 'Introduction to Algorithms'?",
-              "answer": "Computer algorithms and programming.",
-              "difficulty": 1,
-              "topic": "Book Overview"
-            },
-            {
-              "id": "2",
-              "question": "Who are the authors of 'Introduction to Algorithms'?",
-              "answer": "Thomas H. Cormen, Charles E. Leiserson, Ronald L. Rivest, and Clifford Stein.",
-              "difficulty": 1,
-              "topic": "Book Overview"
-            },
-            {
-              "id": "3",
-              "question": "What is Algorithm Analysis?",
-              "answer": "Algorithm analysis is the process of determining the computational complexity of algorithms - both time and space complexity.",
-              "difficulty": 2,
-              "topic": "Algorithm Analysis"
-            },
-            {
-              "id": "4",
-              "question": "What does Big O notation represent?",
-              "answer": "Big O notation describes the upper bound of time complexity in the worst-case scenario for an algorithm.",
-              "difficulty": 2,
-              "topic": "Algorithm Analysis"
-            },
-            {
-              "id": "5",
-              "question": "What is the difference between O(n) and O(log n)?",
-              "answer": "O(n) is linear time complexity where runtime increases directly with input size, while O(log n) is logarithmic time where runtime increases much slower.",
-              "difficulty": 3,
-              "topic": "Time Complexity"
-            }
-          ] : content.includes('quiz') ? [
-            {
-              "id": "1",
-              "question": "What does Big O notation represent in algorithm analysis?",
-              "options": [
-                "a) Best case time complexity",
-                "b) Average case time complexity", 
-                "c) Worst case time complexity",
-                "d) Space complexity only"
-              ],
-              "correct_answer": "c) Worst case time complexity",
-              "explanation": "Big O notation specifically describes the upper bound of an algorithm's time complexity, representing the worst-case scenario. This helps developers understand how the algorithm will perform under the most challenging conditions.",
-              "difficulty": 2,
-              "topic": "Algorithm Analysis",
-              "question_type": "multiple_choice"
-            },
-            {
-              "id": "2", 
-              "question": "Which of the following algorithms has O(log n) time complexity?",
-              "options": [
-                "a) Linear search",
-                "b) Binary search",
-                "c) Bubble sort", 
-                "d) Selection sort"
-              ],
-              "correct_answer": "b) Binary search",
-              "explanation": "Binary search achieves O(log n) time complexity because it eliminates half of the remaining elements in each step. This logarithmic behavior makes it very efficient for searching in sorted arrays.",
-              "difficulty": 2,
-              "topic": "Search Algorithms",
-              "question_type": "multiple_choice"
-            },
-            {
-              "id": "3",
-              "question": "What is the time complexity of accessing an element in an array by index?",
-              "options": [
-                "a) O(1)",
-                "b) O(log n)",
-                "c) O(n)",
-                "d) O(n²)"
-              ],
-              "correct_answer": "a) O(1)",
-              "explanation": "Array access by index is O(1) or constant time because arrays store elements in contiguous memory locations. The memory address can be calculated directly using the base address plus the index offset.",
-              "difficulty": 1,
-              "topic": "Data Structures",
-              "question_type": "multiple_choice"
-            },
-            {
-              "id": "4",
-              "question": "Which sorting algorithm is generally considered the most efficient for large datasets?",
-              "options": [
-                "a) Bubble sort",
-                "b) Selection sort",
-                "c) Quick sort",
-                "d) Insertion sort"
-              ],
-              "correct_answer": "c) Quick sort",
-              "explanation": "Quick sort has an average time complexity of O(n log n) and is generally faster in practice than other O(n log n) algorithms like merge sort due to better cache performance and lower constant factors.",
-              "difficulty": 3,
-              "topic": "Sorting Algorithms", 
-              "question_type": "multiple_choice"
-            },
-            {
-              "id": "5",
-              "question": "Hash tables provide O(1) average case time complexity for insertions and lookups.",
-              "options": [
-                "a) True",
-                "b) False"
-              ],
-              "correct_answer": "a) True", 
-              "explanation": "Hash tables do provide O(1) average case time complexity for basic operations when the hash function distributes elements evenly. However, in the worst case (many collisions), operations can degrade to O(n).",
-              "difficulty": 2,
-              "topic": "Data Structures",
-              "question_type": "true_false"
-            }
-          ] : [
-            "**Question 1:** What does Big O notation represent?\na) Best case\nb) Average case\nc) Worst case\nd) Space only\n\n**Answer:** c) Worst case"
-          ]
-        ) : null,
-        created_at: new Date().toISOString(),
-        highlighted_text: highlightedText ? {
-          text: highlightedText.text,
-          context: highlightedText.context,
-          page: currentPage,
-          chapter_id: context.chapterId,
-          section_id: context.sectionId
-        } : null
-      };
+      const response = await api.streamMessage(request, {
+        onDelta: (delta) => updatePending(message => ({ ...message, content: message.content + delta }))
+      }, { signal: controller.signal });
 
-      return mockResponse;
+      updatePending(() => ({
+        id: response.id,
+        content: response.content,
+        sender: 'ai',
+        timestamp: new Date(response.created_at),
+        model: response.model_id || request.model_id,
+        toolUsed: response.tool_type || undefined,
+        toolResponse: response.tool ? {
+          type: response.tool.tool_type,
+          payload: response.tool,
+          toolResponseId: response.tool_response_id || undefined
+        } : undefined,
+        citations: response.citations
+      }));
+
+      // Do NOT auto-open tool overlay - just show in chat
     } catch (error) {
+      if (isAbortError(error)) {
+        // Stopped by the user; keep whatever had already arrived
+        updatePending(message => message.content ? { ...message, status: 'stopped' } : null);
+        return;
+      }
+
       console.error('Failed to send message:', error);
-      throw error;
+      // Kept even when nothing arrived, so the same request can be retried
+      updatePending(message => ({ ...message, status: 'interrupted', retryRequest: request }));
+      toast.error(error instanceof ApiError ? `Failed to send message: ${error.message}` : 'Failed to send message');
+    } finally {
+      if (streamAbortRef.current === controller) {
+        streamAbortRef.current = null;
+      }
+      setIsLoading(false);
     }
   };
 
-  const handleSendMessage = async (messageContent?: string, autoGenerated = false, highlightedTextOverride?: { text: string; context: string }) => {
+  const handleSendMessage = async (messageContent?: string, toolType?: ToolType, highlightedTextOverride?: { text: string; context: string }) => {
     const content = messageContent || inputValue;
     if (!content.trim() || isLoading) return;
 
@@ -740,7 +793,7 @@ export const ToolPanel = forwardRef<ToolPanelRef, ToolPanelProps>(({
     };
 
     setMessages(prev => [...prev, userMessage]);
-    if (!autoGenerated) {
+    if (!toolType) {
       setInputValue('');
     }
     
@@ -748,44 +801,76 @@ export const ToolPanel = forwardRef<ToolPanelRef, ToolPanelProps>(({
     if (!highlightedTextOverride) {
       setContextText(null);
     }
-    
-    setIsLoading(true);
 
-    try {
-      const response = await sendChatMessage(content, autoGenerated, currentContextText || undefined);
-      
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: response.content,
-        sender: 'ai',
-        timestamp: new Date(),
-        model: selectedModel,
-        toolUsed: response.tool_type || undefined,
-        toolResponse: response.tool_response ? {
-          type: response.tool_type,
-          content: response.tool_response,
-          toolResponseId: response.tool_response_id || undefined
-        } : undefined
-      };
-      
-      setMessages(prev => [...prev, aiMessage]);
+    await streamReply(buildChatRequest(content, toolType, currentContextText || undefined));
+  };
 
-      // Do NOT auto-open tool overlay - just show in chat
-    } catch (error) {
-      toast.error('Failed to send message');
-    } finally {
-      setIsLoading(false);
-    }
+  // e.g. "p. xii · Analyzing algorithms"
+  const getCitationLabel = (citation: Citation): string => {
+    const page = `p. ${pageLabels?.getLabel(citation.page) ?? citation.page}`;
+    const section = citation.section_id
+      ? tocData?.chapters.flatMap(chapter => chapter.sections ?? []).find(s => s.section_id === citation.section_id)
+      : undefined;
+    return section ? `${page} · ${section.title}` : page;
+  };
+
+  const handleStopGeneration = () => {
+    streamAbortRef.current?.abort();
+  };
+
+  // Replaces an interrupted reply with another attempt at the same request; it
+  // keeps its client message id, so the turn is not stored twice
+  const handleRetry = (message: Message) => {
+    if (!message.retryRequest || isLoading) return;
+    setMessages(prev => prev.filter(m => m.id !== message.id));
+    streamReply(message.retryRequest);
   };
 
   const handleToolUse = (tool: Tool) => {
     const toolMessage = `Generate a ${tool.name.toLowerCase()} based on the current content on page ${currentPage}`;
-    handleSendMessage(toolMessage, true);
+    handleSendMessage(toolMessage, tool.id);
     toast.info(`Generating ${tool.name.toLowerCase()}...`);
   };
 
-  const handleOpenToolMessage = (toolResponse: { type: string; content: string | string[] | any[]; toolResponseId?: string }) => {
-    setActiveOverlay(toolResponse);
+  // Restores the tool if it is already open rather than starting it over
+  const showTool = (activeTool: ActiveTool) => {
+    const existing = openToolsRef.current.find(openTool => (
+      activeTool.toolResponseId ? openTool.toolResponseId === activeTool.toolResponseId : openTool.tool === activeTool.tool
+    ));
+    if (existing) {
+      setVisibleToolKey(existing.key);
+      return;
+    }
+    const key = `tool-${nextToolKeyRef.current++}`;
+    const openTool: OpenTool = { ...activeTool, key, placement: 'panel' };
+    // Seen by another showTool call before the next render
+    openToolsRef.current = [...openToolsRef.current, openTool];
+    setOpenTools(prev => [...prev, openTool]);
+    setVisibleToolKey(key);
+  };
+
+  const setToolPlacement = (key: string, placement: OverlayPlacement) => {
+    setOpenTools(prev => prev.map(openTool => (openTool.key === key ? { ...openTool, placement } : openTool)));
+  };
+
+  // Minimised and restored tools always go back to the panel
+  const minimizeTool = (key: string) => {
+    setToolPlacement(key, 'panel');
+    setVisibleToolKey(prev => (prev === key ? null : prev));
+  };
+
+  const restoreTool = (key: string) => {
+    setToolPlacement(key, 'panel');
+    setVisibleToolKey(key);
+  };
+
+  const closeTool = (key: string) => {
+    setOpenTools(prev => prev.filter(openTool => openTool.key !== key));
+    setVisibleToolKey(prev => (prev === key ? null : prev));
+  };
+
+  const handleOpenToolMessage = (activeTool: ActiveTool) => {
+    showTool(activeTool);
   };
 
   const selectedModelInfo = availableModels.find(m => m.id === selectedModel);
@@ -804,14 +889,36 @@ export const ToolPanel = forwardRef<ToolPanelRef, ToolPanelProps>(({
 
   return (
     <div className="w-full h-full bg-card flex flex-col relative overflow-hidden">
-      {/* Tool Overlay */}
-      {activeOverlay && (
-        <ToolOverlay
-          toolType={activeOverlay.type}
-          content={activeOverlay.content}
-          onClose={() => setActiveOverlay(null)}
-          onMinimize={() => setActiveOverlay(null)}
-          onTextHighlight={handleToolTextHighlight}
+      {/* Tool Overlays; minimised ones are hidden rather than unmounted */}
+      {openTools.map(openTool => (
+        <div key={openTool.key} className={openTool.key === visibleToolKey ? undefined : 'hidden'}>
+          <ToolOverlay
+            tool={openTool.tool}
+            documentId={documentId}
+            toolResponseId={openTool.toolResponseId}
+            placement={openTool.placement}
+            isVisible={openTool.key === visibleToolKey}
+            toasterId={getToasterId(openTool.key)}
+            onPlacementChange={(placement) => setToolPlacement(openTool.key, placement)}
+            onClose={() => closeTool(openTool.key)}
+            onMinimize={() => minimizeTool(openTool.key)}
+            onTextHighlight={handleToolTextHighlight}
+            onSaveRevision={openTool.toolResponseId ? handleSaveToolRevision(openTool.key, openTool.toolResponseId) : undefined}
+          />
+        </div>
+      ))}
+
+      {/* Spaced-repetition review across all flashcard decks */}
+      {isReviewOpen && (
+        <ReviewQueueOverlay documentId={documentId} onClose={() => setIsReviewOpen(false)} />
+      )}
+
+      {isLibraryOpen && (
+        <DeckLibraryOverlay
+          documentId={documentId}
+          toc={tocData}
+          currentChapterId={getCurrentContext().chapterId}
+          onClose={() => setIsLibraryOpen(false)}
         />
       )}
 
@@ -850,6 +957,26 @@ export const ToolPanel = forwardRef<ToolPanelRef, ToolPanelProps>(({
               {tool.name}
             </Button>
           ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsReviewOpen(true)}
+            className="justify-start gap-1 h-7 text-xs px-2 transition-colors text-blue-500 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-950"
+            title="Review the flashcards due today from all decks"
+          >
+            <CalendarCheck className="w-3 h-3" />
+            Due today
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsLibraryOpen(true)}
+            className="justify-start gap-1 h-7 text-xs px-2 transition-colors text-blue-500 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-950"
+            title="Browse and edit all flashcards of this document"
+          >
+            <Library className="w-3 h-3" />
+            Decks
+          </Button>
         </div>
       </div>
 
@@ -897,23 +1024,21 @@ export const ToolPanel = forwardRef<ToolPanelRef, ToolPanelProps>(({
                 selectedModelInfo={selectedModelInfo}
                 onOpenToolMessage={handleOpenToolMessage}
                 onLoadToolResponse={loadToolResponse}
+                onRetry={handleRetry}
+                getCitationLabel={getCitationLabel}
+                onCitationSelect={onCitationSelect}
               />
             ))}
             
-            {isLoading && (
-              <div className="flex justify-start mb-3">
-                <div className="bg-muted rounded-lg p-2 flex items-center gap-2">
-                  <Loader2 className="w-3 h-3 animate-spin" />
-                  <span className="text-xs">Thinking...</span>
-                </div>
-              </div>
-            )}
-            
             <div ref={messagesEndRef} />
           </div>
         </ScrollArea>
       </div>
 
+      {openTools.length > 0 && (
+        <ToolDock tools={openTools} onRestore={restoreTool} onClose={closeTool} />
+      )}
+
       {/* Chat Input with Context and Mic Button */}
       <div className="p-2 border-t flex-shrink-0 bg-card">
         {/* Context Display */}
@@ -963,14 +1088,26 @@ export const ToolPanel = forwardRef<ToolPanelRef, ToolPanelProps>(({
                 <Mic className="w-3 h-3" />
               )}
             </Button>
-            <Button
-              onClick={() => handleSendMessage()}
-              disabled={!inputValue.trim() || isLoading}
-              size="sm"
-              className="h-8 w-8 p-0"
-            >
-              <Send className="w-3 h-3" />
-            </Button>
+            {isLoading ? (
+              <Button
+                variant="outline"
+                onClick={handleStopGeneration}
+                size="sm"
+                className="h-8 w-8 p-0"
+                title="Stop generating"
+              >
+                <Square className="w-3 h-3 fill-current" />
+              </Button>
+            ) : (
+              <Button
+                onClick={() => handleSendMessage()}
+                disabled={!inputValue.trim()}
+                size="sm"
+                className="h-8 w-8 p-0"
+              >
+                <Send className="w-3 h-3" />
+              </Button>
+            )}
           </div>
         </div>
         <p className="text-xs text-muted-foreground mt-1">
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  readAnnotations,
+  subscribeToAnnotations,
+  updateAnnotations,
+  type Annotation,
+  type HighlightColor,
+  type TextAnchor,
+} from '../lib/annotations';
+
+interface Annotations {
+  // Page order, then reading order
+  annotations: Annotation[];
+  addAnnotation: (anchor: TextAnchor, color: HighlightColor) => Annotation;
+  updateAnnotation: (id: string, changes: Partial<Pick<Annotation, 'color' | 'note'>>) => void;
+  removeAnnotation: (id: string) => void;
+}
+
+// Highlights and notes of a document, kept in sync across views and tabs
+export function useAnnotations(documentId: string): Annotations {
+  const [annotations, setAnnotations] = useState<Annotation[]>(() => readAnnotations(documentId));
+
+  useEffect(() => {
+    setAnnotations(readAnnotations(documentId));
+    return subscribeToAnnotations(documentId, () => setAnnotations(readAnnotations(documentId)));
+  }, [documentId]);
+
+  const addAnnotation = useCallback((anchor: TextAnchor, color: HighlightColor) => {
+    const now = new Date().toISOString();
+    const annotation: Annotation = {
+      ...anchor,
+      id: `annotation-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      color,
+      note: '',
+      createdAt: now,
+      updatedAt: now,
+    };
+    updateAnnotations(documentId, (annotations) => [...annotations, annotation]);
+    return annotation;
+  }, [documentId]);
+
+  const updateAnnotation = useCallback((id: string, changes: Partial<Pick<Annotation, 'color' | 'note'>>) => {
+    const updatedAt = new Date().toISOString();
+    updateAnnotations(documentId, (annotations) => annotations.map((annotation) => (
+      annotation.id === id ? { ...annotation, ...changes, updatedAt } : annotation
+    )));
+  }, [documentId]);
+
+  const removeAnnotation = useCallback((id: string) => {
+    updateAnnotations(documentId, (annotations) => annotations.filter((annotation) => annotation.id !== id));
+  }, [documentId]);
+
+  return { annotations, addAnnotation, updateAnnotation, removeAnnotation };
+}
@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  createSchedule,
+  readSchedules,
+  reviewCard,
+  subscribeToSchedules,
+  updateSchedules,
+  type CardSchedule,
+  type ReviewGrade,
+  type ScheduleMap,
+} from '../lib/srs';
+
+interface CardSchedules {
+  schedules: ScheduleMap;
+  gradeCard: (cardKey: string, grade: ReviewGrade) => CardSchedule;
+}
+
+// Spaced-repetition state for every flashcard of a document, kept in sync
+// across overlays and tabs
+export function useCardSchedules(documentId: string): CardSchedules {
+  const [schedules, setSchedules] = useState<ScheduleMap>(() => readSchedules(documentId));
+
+  useEffect(() => {
+    setSchedules(readSchedules(documentId));
+    return subscribeToSchedules(documentId, () => setSchedules(readSchedules(documentId)));
+  }, [documentId]);
+
+  const gradeCard = useCallback((cardKey: string, grade: ReviewGrade) => {
+    const next = updateSchedules(documentId, (current) => ({
+      ...current,
+      [cardKey]: reviewCard(current[cardKey] ?? createSchedule(), grade),
+    }));
+    return next[cardKey];
+  }, [documentId]);
+
+  return { schedules, gradeCard };
+}
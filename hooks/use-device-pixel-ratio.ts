@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+
+const getDevicePixelRatio = () => window.devicePixelRatio || 1;
+
+// The screen's device pixel ratio, updated when the browser zoom changes or the
+// window moves to a screen with a different density, so canvases can be redrawn sharp
+export function useDevicePixelRatio(): number {
+  const [ratio, setRatio] = useState(getDevicePixelRatio);
+
+  useEffect(() => {
+    // Only matches the current ratio, so it fires once the ratio changes
+    const query = window.matchMedia(`(resolution: ${ratio}dppx)`);
+    const handleChange = () => setRatio(getDevicePixelRatio());
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, [ratio]);
+
+  return ratio;
+}
@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from '../lib/pdf';
+import { createSearchPage, type SearchOptions, type SearchResults } from '../lib/search-index';
+import type { SearchWorkerRequest, SearchWorkerResponse } from '../lib/search-worker';
+
+// Pages whose text is extracted and indexed together
+const INDEX_BATCH_SIZE = 20;
+// Typing settles before the query is searched
+const SEARCH_DELAY_MS = 200;
+
+const EMPTY_RESULTS: SearchResults = { hits: [], truncated: false };
+
+interface DocumentSearch {
+  results: SearchResults;
+  isSearching: boolean;
+  indexedPages: number;
+}
+
+// Searches the document's text. Once `enabled`, the text is extracted page by
+// page in the background and indexed in a worker; results are refreshed as more
+// pages are indexed, so early hits show up before the whole book is done.
+export function useDocumentSearch(pdf: PDFDocumentProxy | null, enabled: boolean, query: string, options: SearchOptions): DocumentSearch {
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+  const [indexedPages, setIndexedPages] = useState(0);
+  const [results, setResults] = useState<SearchResults>(EMPTY_RESULTS);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    setIndexedPages(0);
+    setResults(EMPTY_RESULTS);
+    if (!pdf || !enabled) return;
+
+    const worker = new Worker(new URL('../lib/search-worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    worker.addEventListener('message', (event: MessageEvent<SearchWorkerResponse>) => {
+      // Answers to searches that were replaced meanwhile are dropped
+      if (event.data.id !== requestIdRef.current) return;
+      setResults(event.data.results);
+      setIsSearching(false);
+    });
+
+    let cancelled = false;
+    const indexPages = async () => {
+      for (let first = 1; first <= pdf.numPages; first += INDEX_BATCH_SIZE) {
+        const last = Math.min(first + INDEX_BATCH_SIZE - 1, pdf.numPages);
+        const pageNumbers = Array.from({ length: last - first + 1 }, (_, i) => first + i);
+        const pages = await Promise.all(pageNumbers.map(async (pageNumber) => {
+          const page = await pdf.getPage(pageNumber);
+          const content = await page.getTextContent();
+          // Marked-content items carry no text
+          return createSearchPage(pageNumber, content.items.filter((item) => 'str' in item));
+        }));
+        if (cancelled) return;
+        const request: SearchWorkerRequest = { type: 'add', pages };
+        worker.postMessage(request);
+        setIndexedPages(last);
+      }
+    };
+
+    indexPages().catch((error) => {
+      if (cancelled) return;
+      // Pages indexed so far stay searchable
+      console.error('Failed to index the document for search:', error);
+    });
+
+    return () => {
+      cancelled = true;
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [pdf, enabled]);
+
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker || !query.trim()) {
+      requestIdRef.current++;
+      setResults(EMPTY_RESULTS);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    const timer = setTimeout(() => {
+      const request: SearchWorkerRequest = { type: 'search', id: ++requestIdRef.current, query, options };
+      worker.postMessage(request);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query, options, indexedPages]);
+
+  return { results, isSearching, indexedPages };
+}
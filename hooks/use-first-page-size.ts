@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import type { PDFDocumentProxy } from '../lib/pdf';
+
+interface PageSize {
+  width: number;
+  height: number;
+}
+
+// US Letter in PDF units, until the first page has been measured
+const DEFAULT_PAGE_SIZE: PageSize = { width: 612, height: 792 };
+
+// Size of the document's first page at scale 1. Pages that are not rendered yet
+// are laid out at this size, which holds for most books.
+export function useFirstPageSize(pdf: PDFDocumentProxy | null): PageSize {
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE);
+
+  useEffect(() => {
+    if (!pdf) return;
+
+    let cancelled = false;
+    pdf.getPage(1)
+      .then((page) => {
+        if (cancelled) return;
+        const viewport = page.getViewport({ scale: 1 });
+        setPageSize({ width: viewport.width, height: viewport.height });
+      })
+      .catch((error) => {
+        if (!cancelled) console.error('Failed to measure the first page:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf]);
+
+  return pageSize;
+}
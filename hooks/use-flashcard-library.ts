@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useApi } from '../lib/api-context';
+import { ApiError, isAbortError } from '../lib/api';
+import { createCardId, getFlashcardDecks, getRevisionChain, type FlashcardToolResponse } from '../lib/flashcard-decks';
+import { rekeySchedules } from '../lib/srs';
+import type { FlashCard } from '../lib/schemas';
+
+interface FlashcardLibrary {
+  // Null while loading
+  decks: FlashcardToolResponse[] | null;
+  error: string | null;
+  reload: () => void;
+  // Replaces the cards of a stored deck; an empty deck is deleted with all its revisions
+  saveDeck: (deckId: string, cards: FlashCard[]) => Promise<void>;
+  // Appends to the newest deck of the chapter, creating one if there is none
+  addCards: (chapterId: string | null, cards: Omit<FlashCard, 'id'>[]) => Promise<void>;
+}
+
+export function useFlashcardLibrary(documentId: string): FlashcardLibrary {
+  const api = useApi();
+  const [decks, setDecks] = useState<FlashcardToolResponse[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setDecks(null);
+    setError(null);
+
+    api.listToolResponses(documentId, 'flashcard', { signal: controller.signal })
+      .then((toolResponses) => setDecks(getFlashcardDecks(toolResponses)))
+      .catch((loadError) => {
+        if (isAbortError(loadError)) return;
+        setError(loadError instanceof ApiError ? loadError.message : 'Could not load your flashcards');
+      });
+
+    return () => controller.abort();
+  }, [api, documentId, loadAttempt]);
+
+  const reload = useCallback(() => setLoadAttempt((attempt) => attempt + 1), []);
+
+  const saveDeck = useCallback(async (deckId: string, cards: FlashCard[]) => {
+    if (cards.length === 0) {
+      // Earlier revisions go too, or the deck would come back with their cards.
+      // Oldest first, so a failure part way leaves the deck as it was.
+      const toolResponses = await api.listToolResponses(documentId, 'flashcard');
+      const chain = getRevisionChain(toolResponses, deckId);
+      for (const id of chain.length > 0 ? chain : [deckId]) {
+        await api.deleteToolResponse(id);
+      }
+      rekeySchedules(documentId, deckId, null, []);
+      setDecks((current) => current?.filter((deck) => deck.id !== deckId) ?? current);
+      return;
+    }
+
+    const revision = await api.saveToolResponseRevision(deckId, { tool_type: 'flashcard', response: cards });
+    if (revision.tool_type !== 'flashcard') return;
+    rekeySchedules(documentId, deckId, revision.id, cards.map((card) => card.id));
+    setDecks((current) => current?.map((deck) => (deck.id === deckId ? revision : deck)) ?? current);
+  }, [api, documentId]);
+
+  const addCards = useCallback(async (chapterId: string | null, cards: Omit<FlashCard, 'id'>[]) => {
+    if (cards.length === 0) return;
+    const target = decks?.filter((deck) => deck.chapter_id === chapterId).pop();
+    const response = [...(target?.response ?? [])];
+    cards.forEach((card) => response.push({ ...card, id: createCardId(response) }));
+
+    if (target) {
+      await saveDeck(target.id, response);
+      return;
+    }
+
+    const created = await api.createToolResponse(documentId, {
+      payload: { tool_type: 'flashcard', response },
+      chapter_id: chapterId,
+    });
+    if (created.tool_type !== 'flashcard') return;
+    setDecks((current) => (current ? [...current, created] : current));
+  }, [api, documentId, decks, saveDeck]);
+
+  return { decks, error, reload, saveDeck, addCards };
+}
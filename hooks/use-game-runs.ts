@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useApi } from '../lib/api-context';
+import { isAbortError } from '../lib/api';
+import { mergeRuns, readRuns, subscribeToRuns, updateRuns, type StoredGameRun } from '../lib/game-scores';
+import type { GameRun } from '../lib/schemas';
+
+interface GameRuns {
+  // Oldest first
+  runs: StoredGameRun[];
+  recordRun: (run: GameRun) => void;
+}
+
+const markSynced = (documentId: string, runId: string) => {
+  updateRuns(documentId, (runs) => runs.map((run) => (run.id === runId ? { ...run, synced: true } : run)));
+};
+
+// Game scores of a document: saved locally first, then synced. Runs that failed
+// to sync are retried the next time a game of the document is opened.
+export function useGameRuns(documentId: string): GameRuns {
+  const api = useApi();
+  const [runs, setRuns] = useState<StoredGameRun[]>(() => readRuns(documentId));
+
+  useEffect(() => {
+    setRuns(readRuns(documentId));
+    return subscribeToRuns(documentId, () => setRuns(readRuns(documentId)));
+  }, [documentId]);
+
+  const syncRun = useCallback(async (run: GameRun, signal?: AbortSignal) => {
+    try {
+      await api.recordGameRun(documentId, run, { signal });
+      markSynced(documentId, run.id);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Failed to sync game score:', error);
+    }
+  }, [api, documentId]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    api.listGameRuns(documentId, { signal: controller.signal })
+      .then((remote) => {
+        updateRuns(documentId, (local) => mergeRuns(local, remote))
+          .filter((run) => !run.synced)
+          .forEach(({ synced: _synced, ...run }) => syncRun(run, controller.signal));
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        // Scores recorded here are still shown; other devices' runs are missing until the next load
+        console.error('Failed to load game scores:', error);
+      });
+
+    return () => controller.abort();
+  }, [api, documentId, syncRun]);
+
+  const recordRun = useCallback((run: GameRun) => {
+    updateRuns(documentId, (runs) => [...runs, { ...run, synced: false }]);
+    syncRun(run);
+  }, [documentId, syncRun]);
+
+  return { runs, recordRun };
+}
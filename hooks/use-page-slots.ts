@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Pages within a screen's height of the view are rendered ahead of scrolling
+const RENDER_MARGIN = '100% 0px';
+const VISIBILITY_THRESHOLDS = Array.from({ length: 11 }, (_, i) => i / 10);
+
+const getSlotPage = (element: Element) => Number((element as HTMLElement).dataset.pageSlot);
+
+// Watches the page placeholders (elements with a `data-page-slot` page number)
+// inside the scroll container `root`. Returns the pages that are on screen or
+// close to it, so only those need rendering, and reports the page that takes
+// up most of the view through `onVisiblePageChange`.
+export function usePageSlots(
+  root: HTMLElement | null,
+  pageCount: number,
+  onVisiblePageChange?: (page: number) => void,
+): Set<number> {
+  const [nearPages, setNearPages] = useState<Set<number>>(() => new Set());
+  const onVisiblePageChangeRef = useRef(onVisiblePageChange);
+
+  useEffect(() => {
+    onVisiblePageChangeRef.current = onVisiblePageChange;
+  }, [onVisiblePageChange]);
+
+  useEffect(() => {
+    if (!root) return;
+
+    const nearObserver = new IntersectionObserver((entries) => {
+      setNearPages((previous) => {
+        const next = new Set(previous);
+        entries.forEach((entry) => {
+          if (entry.isIntersecting) next.add(getSlotPage(entry.target));
+          else next.delete(getSlotPage(entry.target));
+        });
+        return next;
+      });
+    }, { root, rootMargin: RENDER_MARGIN });
+
+    // Visible height of each page, in pixels
+    const visibleHeights = new Map<number, number>();
+    let visiblePage: number | null = null;
+    const visibleObserver = new IntersectionObserver((entries) => {
+      entries.forEach((entry) => {
+        visibleHeights.set(getSlotPage(entry.target), entry.isIntersecting ? entry.intersectionRect.height : 0);
+      });
+      let best: { page: number; height: number } | null = null;
+      for (const [page, height] of visibleHeights) {
+        if (height > 0 && (!best || height > best.height)) best = { page, height };
+      }
+      if (best && best.page !== visiblePage) {
+        visiblePage = best.page;
+        onVisiblePageChangeRef.current?.(best.page);
+      }
+    }, { root, threshold: VISIBILITY_THRESHOLDS });
+
+    root.querySelectorAll('[data-page-slot]').forEach((slot) => {
+      nearObserver.observe(slot);
+      visibleObserver.observe(slot);
+    });
+    return () => {
+      nearObserver.disconnect();
+      visibleObserver.disconnect();
+    };
+  }, [root, pageCount]);
+
+  return nearPages;
+}
@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { loadPdfDocument, type PDFDocumentProxy } from '../lib/pdf';
+import { createPageLabels, type PageLabels } from '../lib/page-labels';
+import type { DocumentSource } from '../lib/api';
+
+interface PdfDocumentState {
+  pdf: PDFDocumentProxy | null;
+  pageLabels: PageLabels | null;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+export function usePdfDocument(source: DocumentSource | null): PdfDocumentState {
+  const [state, setState] = useState<PdfDocumentState>({
+    pdf: null,
+    pageLabels: null,
+    isLoading: !!source,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!source) {
+      setState({ pdf: null, pageLabels: null, isLoading: false, error: null });
+      return;
+    }
+
+    let cancelled = false;
+    const loadingTask = loadPdfDocument(source);
+    setState({ pdf: null, pageLabels: null, isLoading: true, error: null });
+
+    const load = async () => {
+      const pdf = await loadingTask.promise;
+      // Page labels are optional metadata; a broken label tree should not block reading
+      const labels = await pdf.getPageLabels().catch(() => null);
+      if (!cancelled) {
+        setState({
+          pdf,
+          pageLabels: createPageLabels(pdf.numPages, labels),
+          isLoading: false,
+          error: null,
+        });
+      }
+    };
+
+    load().catch((error) => {
+      if (cancelled) return;
+      console.error('Failed to load PDF document:', error);
+      setState({
+        pdf: null,
+        pageLabels: null,
+        isLoading: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      loadingTask.destroy();
+    };
+  }, [source]);
+
+  return state;
+}
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import { readAttempts, saveAttempt as storeAttempt, subscribeToAttempts, type QuizAttempt } from '../lib/quiz-attempts';
+
+interface QuizAttempts {
+  // Oldest first
+  attempts: QuizAttempt[];
+  saveAttempt: (attempt: QuizAttempt) => void;
+}
+
+// Attempt history of one quiz. Quizzes that are not stored yet have no
+// tool response id; their attempts only last while the overlay is open.
+export function useQuizAttempts(toolResponseId?: string): QuizAttempts {
+  const [attempts, setAttempts] = useState<QuizAttempt[]>(() => (toolResponseId ? readAttempts(toolResponseId) : []));
+
+  useEffect(() => {
+    if (!toolResponseId) return;
+    setAttempts(readAttempts(toolResponseId));
+    return subscribeToAttempts(toolResponseId, () => setAttempts(readAttempts(toolResponseId)));
+  }, [toolResponseId]);
+
+  const saveAttempt = useCallback((attempt: QuizAttempt) => {
+    if (toolResponseId) {
+      // Attempts started before the quiz was stored are filed under it from now on
+      storeAttempt({ ...attempt, toolResponseId });
+      return;
+    }
+    setAttempts((current) => {
+      const index = current.findIndex((candidate) => candidate.id === attempt.id);
+      return index === -1 ? [...current, attempt] : current.map((candidate, i) => (i === index ? attempt : candidate));
+    });
+  }, [toolResponseId]);
+
+  return { attempts, saveAttempt };
+}
@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { isAbortError, type StudyModeApi } from '../lib/api';
+import { isNewerPosition, readStoredPosition, writeStoredPosition, type StoredPosition } from '../lib/reading-position';
+import type { LastPosition } from '../lib/schemas';
+
+// Page flips come in bursts; only the position the reader settles on is sent
+const SYNC_DELAY_MS = 1500;
+
+interface ReadingPositionOptions {
+  api: StudyModeApi;
+  documentId: string | null;
+  // `last_position` from the study-mode payload
+  serverPosition: LastPosition | null;
+  // Moves the viewer without recording a new position
+  onNavigate: (page: number) => void;
+  getPageLabel?: (page: number) => string;
+}
+
+export function useReadingPosition({
+  api,
+  documentId,
+  serverPosition,
+  onNavigate,
+  getPageLabel,
+}: ReadingPositionOptions) {
+  const syncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingRef = useRef<StoredPosition | null>(null);
+  const navigationRef = useRef({ onNavigate, getPageLabel });
+
+  useEffect(() => {
+    navigationRef.current = { onNavigate, getPageLabel };
+  }, [onNavigate, getPageLabel]);
+
+  const promptResume = useCallback((position: LastPosition) => {
+    if (!documentId) return;
+    const { getPageLabel: getLabel } = navigationRef.current;
+    const label = getLabel ? getLabel(position.page_number) : String(position.page_number);
+
+    toast('Continue where you left off?', {
+      // Replaces an earlier prompt instead of stacking a second one
+      id: `resume-position:${documentId}`,
+      description: `You were on page ${label} on another device.`,
+      duration: 15000,
+      action: {
+        label: 'Go to page',
+        onClick: () => {
+          writeStoredPosition(documentId, { ...position, synced: true });
+          navigationRef.current.onNavigate(position.page_number);
+        },
+      },
+    });
+  }, [documentId]);
+
+  const sync = useCallback(async (position: StoredPosition) => {
+    if (!documentId) return;
+    try {
+      const saved = await api.updatePosition({
+        document_id: documentId,
+        page_number: position.page_number,
+        chapter_id: position.chapter_id,
+        section_id: position.section_id,
+        updated_at: position.updated_at,
+      });
+
+      // The reader may have moved again while the request was in flight
+      const latest = readStoredPosition(documentId);
+      if (latest && isNewerPosition(latest, position)) return;
+      writeStoredPosition(documentId, { ...position, synced: true });
+
+      if (isNewerPosition(saved, position) && saved.page_number !== position.page_number) {
+        promptResume(saved);
+      }
+    } catch (error) {
+      if (isAbortError(error)) return;
+      // The position stays marked unsynced and is retried on the next change or visit
+      console.error('Failed to sync reading position:', error);
+    }
+  }, [api, documentId, promptResume]);
+
+  const flush = useCallback(() => {
+    if (syncTimerRef.current) {
+      clearTimeout(syncTimerRef.current);
+      syncTimerRef.current = null;
+    }
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (pending) sync(pending);
+  }, [sync]);
+
+  // Resolve where to open the document: this device's position wins, but a
+  // newer one from another device is offered instead of silently jumping.
+  useEffect(() => {
+    if (!documentId || !serverPosition) return;
+
+    const local = readStoredPosition(documentId);
+    if (!local) {
+      writeStoredPosition(documentId, { ...serverPosition, synced: true });
+      navigationRef.current.onNavigate(serverPosition.page_number);
+      return;
+    }
+
+    navigationRef.current.onNavigate(local.page_number);
+    if (isNewerPosition(serverPosition, local)) {
+      if (serverPosition.page_number !== local.page_number) {
+        promptResume(serverPosition);
+      }
+    } else if (!local.synced) {
+      sync(local);
+    }
+  }, [documentId, serverPosition, promptResume, sync]);
+
+  // Coming back to the tab is the usual moment after reading elsewhere
+  useEffect(() => {
+    if (!documentId) return;
+    let controller: AbortController | null = null;
+
+    const handleVisibilityChange = async () => {
+      if (document.visibilityState === 'hidden') {
+        flush();
+        return;
+      }
+
+      controller?.abort();
+      controller = new AbortController();
+      try {
+        const { last_position: remote } = await api.getStudyMode(documentId, { signal: controller.signal });
+        const local = readStoredPosition(documentId);
+        if (local && isNewerPosition(remote, local) && remote.page_number !== local.page_number) {
+          promptResume(remote);
+        }
+      } catch (error) {
+        if (!isAbortError(error)) {
+          console.error('Failed to check reading position:', error);
+        }
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+      controller?.abort();
+      flush();
+    };
+  }, [api, documentId, flush, promptResume]);
+
+  // Saves locally right away and schedules the backend sync
+  const savePosition = useCallback((page: number, sectionId?: string, chapterId?: string) => {
+    if (!documentId) return;
+    const position: StoredPosition = {
+      page_number: page,
+      chapter_id: chapterId ?? null,
+      section_id: sectionId ?? null,
+      updated_at: new Date().toISOString(),
+      synced: false,
+    };
+    writeStoredPosition(documentId, position);
+
+    pendingRef.current = position;
+    if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+    syncTimerRef.current = setTimeout(flush, SYNC_DELAY_MS);
+  }, [documentId, flush]);
+
+  return { savePosition };
+}
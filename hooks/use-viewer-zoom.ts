@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { PDF_TO_CSS_UNITS } from '../lib/pdf';
+import { clampZoom, getFitZoom, readZoomSetting, writeZoomSetting, type ZoomSetting } from '../lib/zoom';
+
+// Padding around the pages inside the scroll container, and between pages
+const CONTENT_PADDING = 12;
+const PAGE_GAP = 12;
+// Wheel distance (in pixels) that doubles or halves the zoom
+const WHEEL_ZOOM_DISTANCE = 250;
+// Wheel deltas given in lines are converted at this line height
+const WHEEL_LINE_HEIGHT = 16;
+
+interface ViewerZoomOptions {
+  documentId: string;
+  // The element that scrolls the pages
+  scrollRoot: HTMLElement | null;
+  // Size of a page in PDF units, which fit modes fit to the view
+  pageSize: { width: number; height: number };
+  // Pages shown side by side
+  columns: number;
+}
+
+interface ViewerZoom {
+  // The zoom pages are shown at, with fit modes resolved for the current view
+  zoom: number;
+  setting: ZoomSetting;
+  // Zooms keeping the content under `point` (the view's centre by default) in place
+  changeZoom: (setting: ZoomSetting, point?: { clientX: number; clientY: number }) => void;
+}
+
+// A point of the content that should stay under the same spot of the view
+interface ZoomAnchor {
+  viewX: number;
+  viewY: number;
+  contentX: number;
+  contentY: number;
+  zoom: number;
+}
+
+// Zoom of the PDF viewer: presets, fit modes that follow the view's size and
+// ctrl+wheel or trackpad pinch zoom around the pointer. Remembered per document.
+export function useViewerZoom({ documentId, scrollRoot, pageSize, columns }: ViewerZoomOptions): ViewerZoom {
+  const [setting, setSetting] = useState<ZoomSetting>(() => readZoomSetting(documentId));
+  const [viewSize, setViewSize] = useState<{ width: number; height: number } | null>(null);
+  const anchorRef = useRef<ZoomAnchor | null>(null);
+
+  useEffect(() => {
+    setSetting(readZoomSetting(documentId));
+  }, [documentId]);
+
+  useEffect(() => {
+    if (!scrollRoot) return;
+    const observer = new ResizeObserver(() => {
+      setViewSize({ width: scrollRoot.clientWidth, height: scrollRoot.clientHeight });
+    });
+    observer.observe(scrollRoot);
+    return () => observer.disconnect();
+  }, [scrollRoot]);
+
+  const resolveZoom = useCallback((target: ZoomSetting) => {
+    if (target.mode === 'custom' || !viewSize) return target.zoom;
+    return getFitZoom(
+      target.mode,
+      { width: viewSize.width - 2 * CONTENT_PADDING, height: viewSize.height - 2 * CONTENT_PADDING },
+      { width: pageSize.width * PDF_TO_CSS_UNITS, height: pageSize.height * PDF_TO_CSS_UNITS, columns, gap: PAGE_GAP },
+    );
+  }, [viewSize, pageSize, columns]);
+
+  const zoom = resolveZoom(setting);
+  // The zoom last asked for, which runs ahead of `zoom` while wheel events queue up
+  const zoomRef = useRef(zoom);
+
+  const changeZoom = useCallback((target: ZoomSetting, point?: { clientX: number; clientY: number }) => {
+    const nextZoom = resolveZoom(target);
+    if (anchorRef.current?.zoom === nextZoom) {
+      // Back at the zoom that is laid out, so nothing needs correcting
+      anchorRef.current = null;
+    } else if (scrollRoot && !anchorRef.current && nextZoom !== zoomRef.current) {
+      // While an anchor is pending the content has not moved yet, so it still holds
+      const rect = scrollRoot.getBoundingClientRect();
+      const viewX = point ? point.clientX - rect.left : scrollRoot.clientWidth / 2;
+      const viewY = point ? point.clientY - rect.top : scrollRoot.clientHeight / 2;
+      anchorRef.current = {
+        viewX,
+        viewY,
+        contentX: scrollRoot.scrollLeft + viewX,
+        contentY: scrollRoot.scrollTop + viewY,
+        zoom: zoomRef.current,
+      };
+    }
+    zoomRef.current = nextZoom;
+    setSetting(target);
+    writeZoomSetting(documentId, target);
+  }, [documentId, scrollRoot, resolveZoom]);
+
+  // Pages are laid out at the new zoom synchronously, so the scroll position can
+  // be corrected before the browser paints
+  useLayoutEffect(() => {
+    zoomRef.current = zoom;
+    const anchor = anchorRef.current;
+    anchorRef.current = null;
+    if (!anchor || !scrollRoot) return;
+
+    const ratio = zoom / anchor.zoom;
+    scrollRoot.scrollLeft = (anchor.contentX - CONTENT_PADDING) * ratio + CONTENT_PADDING - anchor.viewX;
+    scrollRoot.scrollTop = (anchor.contentY - CONTENT_PADDING) * ratio + CONTENT_PADDING - anchor.viewY;
+  }, [zoom, scrollRoot]);
+
+  const changeZoomRef = useRef(changeZoom);
+  useEffect(() => {
+    changeZoomRef.current = changeZoom;
+  }, [changeZoom]);
+
+  useEffect(() => {
+    if (!scrollRoot) return;
+
+    // Trackpad pinches arrive as wheel events with the ctrl key set
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey) return;
+      // Keeps the browser from zooming the whole app
+      event.preventDefault();
+      const delta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * WHEEL_LINE_HEIGHT : event.deltaY;
+      const nextZoom = clampZoom(zoomRef.current * Math.pow(2, -delta / WHEEL_ZOOM_DISTANCE));
+      changeZoomRef.current({ mode: 'custom', zoom: nextZoom }, event);
+    };
+
+    scrollRoot.addEventListener('wheel', handleWheel, { passive: false });
+    return () => scrollRoot.removeEventListener('wheel', handleWheel);
+  }, [scrollRoot]);
+
+  return { zoom, setting, changeZoom };
+}
@@ -0,0 +1,162 @@
+// Builds Anki deck packages (.apkg): a zip holding an Anki 2 SQLite collection
+// and an empty media manifest. SQLite (WebAssembly) and the zip writer are
+// only loaded when a package is built.
+
+import sqlWasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+import { getCardTags } from './flashcard-export';
+import type { FlashCard } from './schemas';
+
+// Fixed so repeated imports reuse one note type instead of adding a copy each time
+const NOTE_TYPE_ID = 1718291234567;
+const DEFAULT_DECK_ID = 1;
+
+const COLLECTION_SCHEMA = `
+  CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+  CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+  CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+  CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn ON notes (usn);
+  CREATE INDEX ix_cards_usn ON cards (usn);
+  CREATE INDEX ix_revlog_usn ON revlog (usn);
+  CREATE INDEX ix_cards_nid ON cards (nid);
+  CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid ON revlog (cid);
+  CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+const sha1Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Anki fields are HTML
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/\r?\n/g, '<br>');
+
+const createDeck = (id: number, name: string, mod: number) => ({
+  id,
+  name,
+  desc: '',
+  mod,
+  usn: -1,
+  collapsed: false,
+  browserCollapsed: false,
+  newToday: [0, 0],
+  revToday: [0, 0],
+  lrnToday: [0, 0],
+  timeToday: [0, 0],
+  dyn: 0,
+  conf: 1,
+  extendNew: 10,
+  extendRev: 50,
+});
+
+const createNoteType = (deckId: number, mod: number) => ({
+  id: NOTE_TYPE_ID,
+  name: 'AdaptiveLearn Basic',
+  type: 0,
+  mod,
+  usn: -1,
+  sortf: 0,
+  did: deckId,
+  tmpls: [{
+    name: 'Card 1',
+    ord: 0,
+    qfmt: '{{Question}}',
+    afmt: '{{FrontSide}}<hr id=answer>{{Answer}}',
+    did: null,
+    bqfmt: '',
+    bafmt: '',
+  }],
+  flds: ['Question', 'Answer'].map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+  css: '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }',
+  latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+  latexPost: '\\end{document}',
+  tags: [],
+  vers: [],
+  req: [[0, 'any', [0]]],
+});
+
+const DECK_OPTIONS = {
+  1: {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    dyn: false,
+    maxTaken: 60,
+    timer: 0,
+    autoplay: true,
+    replayq: true,
+    new: { perDay: 20, delays: [1, 10], separate: true, ints: [1, 4, 7], initialFactor: 2500, bury: false, order: 1 },
+    rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: false },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+  },
+};
+
+// `guidSeed` identifies the source deck, so exporting the same cards again
+// updates the notes in Anki rather than duplicating them
+export const createApkg = async (deckName: string, cards: FlashCard[], guidSeed: string): Promise<Blob> => {
+  const [{ default: initSqlJs }, { default: JSZip }] = await Promise.all([import('sql.js'), import('jszip')]);
+  const SQL = await initSqlJs({ locateFile: () => sqlWasmUrl });
+  const db = new SQL.Database();
+
+  try {
+    const now = Date.now();
+    const nowSeconds = Math.floor(now / 1000);
+    const deckId = parseInt((await sha1Hex(`deck:${deckName}`)).slice(0, 10), 16);
+
+    db.run(COLLECTION_SCHEMA);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      Math.floor(new Date(now).setHours(0, 0, 0, 0) / 1000),
+      now,
+      now,
+      JSON.stringify({ activeDecks: [deckId], curDeck: deckId, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true, dueCounts: true, curModel: NOTE_TYPE_ID, nextPos: cards.length + 1, sortType: 'noteFld', sortBackwards: false, addToCur: true }),
+      JSON.stringify({ [NOTE_TYPE_ID]: createNoteType(deckId, nowSeconds) }),
+      JSON.stringify({
+        [DEFAULT_DECK_ID]: createDeck(DEFAULT_DECK_ID, 'Default', nowSeconds),
+        [deckId]: createDeck(deckId, deckName, nowSeconds),
+      }),
+      JSON.stringify(DECK_OPTIONS),
+      '{}',
+    ]);
+
+    for (const [index, card] of cards.entries()) {
+      const id = now + index;
+      const question = escapeHtml(card.question);
+      const checksum = parseInt((await sha1Hex(card.question)).slice(0, 8), 16);
+      const guid = (await sha1Hex(`${guidSeed}:${card.id}`)).slice(0, 16);
+
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [
+        id,
+        guid,
+        NOTE_TYPE_ID,
+        nowSeconds,
+        ` ${getCardTags(card).join(' ')} `,
+        [question, escapeHtml(card.answer)].join('\x1f'),
+        // Sort field and checksum are computed from plain text
+        card.question,
+        checksum,
+      ]);
+      // New card, shown in export order
+      db.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')', [
+        id,
+        id,
+        deckId,
+        nowSeconds,
+        index + 1,
+      ]);
+    }
+
+    const zip = new JSZip();
+    zip.file('collection.anki2', db.export());
+    zip.file('media', '{}');
+    return await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,109 @@
+// The reader's highlights and notes on PDF pages, kept in localStorage per
+// document. Each annotation is anchored to the page text by its offsets and by
+// the quoted text with some context around it, so it can still be found when
+// the offsets no longer line up.
+
+import { createLocalStore } from './local-store';
+import { findPassage } from './text-highlight';
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple';
+
+export const HIGHLIGHT_COLORS: { id: HighlightColor; label: string; swatch: string }[] = [
+  { id: 'yellow', label: 'Yellow', swatch: 'bg-yellow-300' },
+  { id: 'green', label: 'Green', swatch: 'bg-green-300' },
+  { id: 'blue', label: 'Blue', swatch: 'bg-sky-300' },
+  { id: 'pink', label: 'Pink', swatch: 'bg-pink-300' },
+  { id: 'purple', label: 'Purple', swatch: 'bg-violet-300' },
+];
+
+export interface TextAnchor {
+  page: number;
+  // Offsets into the page's text layer
+  start: number;
+  end: number;
+  exact: string;
+  prefix: string;
+  suffix: string;
+}
+
+export interface Annotation extends TextAnchor {
+  id: string;
+  color: HighlightColor;
+  note: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Characters of context kept on each side of the quote
+const QUOTE_CONTEXT = 32;
+
+export const createAnchor = (pageText: string, page: number, start: number, end: number): TextAnchor => ({
+  page,
+  start,
+  end,
+  exact: pageText.slice(start, end),
+  prefix: pageText.slice(Math.max(0, start - QUOTE_CONTEXT), start),
+  suffix: pageText.slice(end, end + QUOTE_CONTEXT),
+});
+
+// Where the anchored text is in the current page text: at its offsets when they
+// still hold, else the occurrence whose context matches best (nearest the old
+// offsets on a tie), else anywhere ignoring whitespace. Null when it is gone.
+export const resolveAnchor = (pageText: string, anchor: TextAnchor): { start: number; end: number } | null => {
+  if (pageText.slice(anchor.start, anchor.end) === anchor.exact) {
+    return { start: anchor.start, end: anchor.end };
+  }
+
+  let best: { start: number; score: number; distance: number } | null = null;
+  for (let index = pageText.indexOf(anchor.exact); index !== -1; index = pageText.indexOf(anchor.exact, index + 1)) {
+    const score = Number(pageText.slice(Math.max(0, index - anchor.prefix.length), index) === anchor.prefix)
+      + Number(pageText.slice(index + anchor.exact.length, index + anchor.exact.length + anchor.suffix.length) === anchor.suffix);
+    const distance = Math.abs(index - anchor.start);
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { start: index, score, distance };
+    }
+  }
+  if (best) return { start: best.start, end: best.start + anchor.exact.length };
+
+  return findPassage(pageText, anchor.exact);
+};
+
+// Page order, then reading order within the page
+export const sortAnnotations = (annotations: Annotation[]): Annotation[] => {
+  return [...annotations].sort((a, b) => a.page - b.page || a.start - b.start);
+};
+
+const annotationsStore = createLocalStore<Annotation[]>({
+  prefix: 'annotations',
+  empty: () => [],
+  parse: (stored) => (Array.isArray(stored) ? (stored as Annotation[]) : []),
+  serialize: sortAnnotations,
+  description: 'annotations',
+});
+
+export const readAnnotations = annotationsStore.read;
+export const updateAnnotations = annotationsStore.update;
+export const subscribeToAnnotations = annotationsStore.subscribe;
+
+const quote = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Markdown copy of the annotations, grouped by page, with notes under their quotes
+export const annotationsToMarkdown = (
+  annotations: Annotation[],
+  fileName: string,
+  getPageLabel: (page: number) => string = String,
+): string => {
+  const lines = [`# Highlights: ${fileName}`, ''];
+  let page: number | null = null;
+  sortAnnotations(annotations).forEach((annotation) => {
+    if (annotation.page !== page) {
+      page = annotation.page;
+      lines.push(`## Page ${getPageLabel(page)}`, '');
+    }
+    lines.push(`> ${quote(annotation.exact)}`, '');
+    if (annotation.note.trim()) {
+      lines.push(annotation.note.trim(), '');
+    }
+  });
+  return lines.join('\n');
+};
@@ -0,0 +1,35 @@
+import { createContext, useContext } from 'react';
+import { createHttpApi, type StudyModeApi } from './api';
+import { createFixtureApi, FIXTURE_DOCUMENT_ID } from './api-fixtures';
+
+const AUTH_TOKEN_STORAGE_KEY = 'access_token';
+
+// Talks to the backend when VITE_API_BASE_URL is configured, otherwise runs
+// against the in-memory fixtures so the UI works offline
+export const createDefaultApi = (): StudyModeApi => {
+  const baseUrl = import.meta.env.VITE_API_BASE_URL;
+  if (!baseUrl) {
+    return createFixtureApi();
+  }
+  return createHttpApi({
+    baseUrl,
+    getAuthToken: () => window.localStorage.getItem(AUTH_TOKEN_STORAGE_KEY),
+  });
+};
+
+// The document to open comes from the `?document=` query parameter
+export const getRequestedDocumentId = (): string => {
+  return new URLSearchParams(window.location.search).get('document')
+    ?? import.meta.env.VITE_DEFAULT_DOCUMENT_ID
+    ?? FIXTURE_DOCUMENT_ID;
+};
+
+export const ApiContext = createContext<StudyModeApi | null>(null);
+
+export function useApi(): StudyModeApi {
+  const api = useContext(ApiContext);
+  if (!api) {
+    throw new Error('useApi must be used within an ApiContext provider');
+  }
+  return api;
+}
@@ -0,0 +1,588 @@
+import type { z } from 'zod';
+import { ApiError, validateResponse, wait, type SendMessageRequest, type StudyModeApi } from './api';
+import {
+  answerGradeSchema,
+  chatHistorySchema,
+  chatMessageSchema,
+  gameRunListSchema,
+  gameRunSchema,
+  lastPositionSchema,
+  noContentSchema,
+  sendMessageResponseSchema,
+  studyModeDataSchema,
+  toolResponseListSchema,
+  toolResponseSchema,
+  type Document,
+  type GameRun,
+  type StudyModeData,
+  type ToolType,
+} from './schemas';
+
+// In-memory implementation of StudyModeApi so the UI runs fully offline in
+// development and tests. State (chat messages, tool responses, reading
+// position) lives for the lifetime of the client instance.
+
+export const FIXTURE_DOCUMENT_ID = "a4b8b023-5d0f-47fd-9c11-de9c38808600";
+const FIXTURE_CHAT_SESSION_ID = "8bb10527-c62d-43e1-bd81-c3a44b590262";
+
+const fixtureStudyMode: StudyModeData = {
+  document: {
+    id: "a4b8b023-5d0f-47fd-9c11-de9c38808600",
+    user_id: "db391bfe-d580-4855-b4be-19ec6d45e7cc",
+    title: "Introduction to Algorithms",
+    file_name: "Introduction_to_algorithms-6-12.pdf",
+    created_at: "2025-07-10T23:06:34.028593"
+  },
+  chat_session_id: "8bb10527-c62d-43e1-bd81-c3a44b590262",
+  toc: {
+    book_id: "a4b8b023-5d0f-47fd-9c11-de9c38808600",
+    chapters: [
+      {
+        chapter_id: "10273a10-b1ea-4514-b6c7-d1bf2d20a856",
+        chapter_number: "1",
+        title: "Chapter 1: Foundations",
+        sections: [
+          {
+            section_id: "06671124-438a-424b-84cc-43ef360501b0",
+            title: "1.1 Algorithms",
+            page: 5
+          },
+          {
+            section_id: "b8e19ca7-0dab-49cc-832a-91a099c32031",
+            title: "1.2 Algorithms as a technology",
+            page: 11
+          },
+          {
+            section_id: "6a0fe27b-a200-4777-becb-5ec0c62b6cee",
+            title: "2 Getting Started",
+            page: 16
+          }
+        ]
+      },
+      {
+        chapter_id: "0ada99be-dfc6-4efa-acca-c91d67458e4e",
+        chapter_number: "2",
+        title: "Chapter 2: Sorting and Order Statistics",
+        sections: [
+          {
+            section_id: "d945fa7c-2d8d-4302-811c-05a7ab9646dc",
+            title: "6 Heapsort",
+            page: 151
+          },
+          {
+            section_id: "abcdfe9d-b9cd-4820-ae8d-5ba3a9c16cb6",
+            title: "6.1 Heaps",
+            page: 151
+          }
+        ]
+      }
+    ]
+  },
+  last_position: {
+    page_number: 12,
+    chapter_id: null,
+    section_id: null,
+    updated_at: "2025-07-18T01:56:41.864035+00:00"
+  }
+};
+
+// Chat messages are stored in wire format; `citations` may be omitted there
+type FixtureChatMessage = z.input<typeof chatMessageSchema>;
+
+const fixtureMessages: FixtureChatMessage[] = [
+  {
+    id: "790689bb-dc15-47df-a292-a123d57fded5",
+    chat_session_id: FIXTURE_CHAT_SESSION_ID,
+    role: "user",
+    content: "what is a block in dds ? can you explain",
+    model_id: null,
+    tool_response_id: null,
+    tool_type: null,
+    created_at: "2025-07-18T00:18:56.144657+00:00"
+  },
+  {
+    id: "48743bba-6944-4c83-ac61-4f551f156fb5",
+    chat_session_id: FIXTURE_CHAT_SESSION_ID,
+    role: "assistant",
+    content: "In the context of Distributed Data Storage (DDS) and blockchain, a block is a fundamental unit of data that contains a set of transactions or records. Think of it as a digital container that holds a collection of information, similar to a page in a ledger book.\n\nEach block has a unique identifier, called a \"block hash,\" which helps to",
+    model_id: "d50a33ce-2462-4a5a-9aa7-efc2d1749745",
+    tool_response_id: "f97c7715-91c0-452d-b3d9-49575a819751",
+    tool_type: "diagram",
+    created_at: "2025-07-18T00:18:57.169477+00:00"
+  },
+  {
+    id: "50f05769-4485-4d7e-b63b-0c4ca1fea93c",
+    chat_session_id: FIXTURE_CHAT_SESSION_ID,
+    role: "user",
+    content: "can you give me the exact text that was given to you as the page content please",
+    model_id: null,
+    tool_response_id: null,
+    tool_type: null,
+    created_at: "2025-07-18T00:24:33.859215+00:00"
+  },
+  {
+    id: "dfe42e62-3883-4880-9a22-998367643638",
+    chat_session_id: FIXTURE_CHAT_SESSION_ID,
+    role: "assistant",
+    content: "The exact text that was given to me as the page content is:\n\n```\nHOW BLOCKCHAIN WORKS?\n```",
+    model_id: "d50a33ce-2462-4a5a-9aa7-efc2d1749745",
+    tool_response_id: null,
+    tool_type: null,
+    citations: [{ page: 12, section_id: null, quote: "HOW BLOCKCHAIN WORKS?" }],
+    created_at: "2025-07-18T00:24:34.545374+00:00"
+  }
+];
+
+// Tool responses are stored in wire format and validated on the way out
+interface FixtureToolResponse {
+  id: string;
+  tool_type: ToolType;
+  response: unknown[];
+  created_at: string;
+  response_text: string | null;
+  revision_of?: string | null;
+  chapter_id?: string | null;
+}
+
+// Tool responses referenced by the fixture chat history
+const fixtureToolResponses = [
+  {
+    id: "f97c7715-91c0-452d-b3d9-49575a819751",
+    tool_type: "diagram",
+    response: [
+      "graph TD\n    Blockchain  -->  A[Decentralized Network]\n    A  -->  B[Nodes  Peers]\n    B  -->  C[Transactions Verified]\n    C  -->  D[Blocks Created]\n    D  -->  E[Blockchain Updated]",
+      "graph TD\n    Transaction  -->  A[Verified by Nodes]\n    A  -->  B[Encrypted  Linked]\n    B  -->  C[Block Created]\n    C  -->  D[Block Hashed]\n    D  -->  E[Blockchain Updated]",
+      "graph TD\n    Data  -->  A[Encrypted]\n    A  -->  B[Distributed Ledger]\n    B  -->  C[Decentralized Network]\n    C  -->  D[Consensus Mechanism]\n    D  -->  E[Validated Transactions]"
+    ],
+    created_at: "2025-07-18T00:18:56.906161+00:00",
+    response_text: null
+  }
+] satisfies FixtureToolResponse[];
+
+// Canned payloads returned when a tool is requested, keyed by tool type
+const generatedToolContent: Record<ToolType, unknown[]> = {
+  game: [
+    {
+      "game_type": "matching",
+      "title": "Memory Match Game",
+      "instructions": "Match the algorithm concepts with their definitions.",
+      "pairs": [
+        { "term": "Big O", "definition": "Time complexity upper bound" },
+        { "term": "DFS", "definition": "Depth-first search" },
+        { "term": "BFS", "definition": "Breadth-first search" },
+        { "term": "Heap", "definition": "Complete binary tree" }
+      ]
+    },
+    {
+      "game_type": "ordering",
+      "title": "Growth Rates",
+      "instructions": "Order these complexities from fastest to slowest growing.",
+      "items": ["O(1)", "O(log n)", "O(n)", "O(n log n)", "O(n²)"]
+    },
+    {
+      "game_type": "fill_blank",
+      "title": "Complete the Definitions",
+      "instructions": "Fill in the missing word in each sentence.",
+      "sentences": [
+        { "text": "Binary search runs in ___ time on a sorted array.", "answer": "logarithmic", "accepted_answers": ["O(log n)", "log n"] },
+        { "text": "A ___ explores as far as possible along each branch before backtracking.", "answer": "depth-first search", "accepted_answers": ["DFS"] },
+        { "text": "Accessing an array element by index takes ___ time.", "answer": "constant", "accepted_answers": ["O(1)"] }
+      ]
+    },
+    {
+      "game_type": "level_quiz",
+      "title": "Quiz Game",
+      "instructions": "Answer these questions to level up.",
+      "levels": [
+        { "question": "What kind of growth does O(n) describe?", "answer": "linear", "accepted_answers": ["linear time"] },
+        { "question": "Which is faster for large inputs: O(log n) or O(n)?", "answer": "O(log n)", "accepted_answers": ["log n", "logarithmic"] },
+        { "question": "What is the worst-case time complexity of bubble sort?", "answer": "O(n²)", "accepted_answers": ["O(n^2)", "quadratic", "n squared"] }
+      ]
+    }
+  ],
+  diagram: [
+    "graph TD\n    Algorithm[Algorithm Analysis] --> TimeComplexity[Time Complexity]\n    Algorithm --> SpaceComplexity[Space Complexity]\n    TimeComplexity --> BigO[Big O Notation]\n    TimeComplexity --> Omega[Omega Notation]\n    TimeComplexity --> Theta[Theta Notation]",
+    "graph LR\n    Input[Input Size n] --> Linear[\"O(n)\"]\n    Input --> Quadratic[\"O(n²)\"]\n    Input --> Logarithmic[\"O(log n)\"]\n    Input --> Constant[\"O(1)\"]"
+  ],
+  flashcard: [
+    {
+      "id": "1",
+      "question": "What is the primary subject of the book 'Introduction to Algorithms'?",
+      "answer": "Computer algorithms and programming.",
+      "difficulty": 1,
+      "topic": "Book Overview"
+    },
+    {
+      "id": "2",
+      "question": "Who are the authors of 'Introduction to Algorithms'?",
+      "answer": "Thomas H. Cormen, Charles E. Leiserson, Ronald L. Rivest, and Clifford Stein.",
+      "difficulty": 1,
+      "topic": "Book Overview"
+    },
+    {
+      "id": "3",
+      "question": "What is Algorithm Analysis?",
+      "answer": "Algorithm analysis is the process of determining the computational complexity of algorithms - both time and space complexity.",
+      "difficulty": 2,
+      "topic": "Algorithm Analysis"
+    },
+    {
+      "id": "4",
+      "question": "What does Big O notation represent?",
+      "answer": "Big O notation describes the upper bound of time complexity in the worst-case scenario for an algorithm.",
+      "difficulty": 2,
+      "topic": "Algorithm Analysis"
+    },
+    {
+      "id": "5",
+      "question": "What is the difference between O(n) and O(log n)?",
+      "answer": "O(n) is linear time complexity where runtime increases directly with input size, while O(log n) is logarithmic time where runtime increases much slower.",
+      "difficulty": 3,
+      "topic": "Time Complexity"
+    }
+  ],
+  quiz: [
+    {
+      "id": "1",
+      "question": "What does Big O notation represent in algorithm analysis?",
+      "options": [
+        "a) Best case time complexity",
+        "b) Average case time complexity", 
+        "c) Worst case time complexity",
+        "d) Space complexity only"
+      ],
+      "correct_answer": "c) Worst case time complexity",
+      "explanation": "Big O notation specifically describes the upper bound of an algorithm's time complexity, representing the worst-case scenario. This helps developers understand how the algorithm will perform under the most challenging conditions.",
+      "difficulty": 2,
+      "topic": "Algorithm Analysis",
+      "question_type": "multiple_choice"
+    },
+    {
+      "id": "2", 
+      "question": "Which of the following algorithms has O(log n) time complexity?",
+      "options": [
+        "a) Linear search",
+        "b) Binary search",
+        "c) Bubble sort", 
+        "d) Selection sort"
+      ],
+      "correct_answer": "b) Binary search",
+      "explanation": "Binary search achieves O(log n) time complexity because it eliminates half of the remaining elements in each step. This logarithmic behavior makes it very efficient for searching in sorted arrays.",
+      "difficulty": 2,
+      "topic": "Search Algorithms",
+      "question_type": "multiple_choice"
+    },
+    {
+      "id": "3",
+      "question": "What is the time complexity of accessing an element in an array by index?",
+      "options": [
+        "a) O(1)",
+        "b) O(log n)",
+        "c) O(n)",
+        "d) O(n²)"
+      ],
+      "correct_answer": "a) O(1)",
+      "explanation": "Array access by index is O(1) or constant time because arrays store elements in contiguous memory locations. The memory address can be calculated directly using the base address plus the index offset.",
+      "difficulty": 1,
+      "topic": "Data Structures",
+      "question_type": "multiple_choice"
+    },
+    {
+      "id": "4",
+      "question": "Which sorting algorithm is generally considered the most efficient for large datasets?",
+      "options": [
+        "a) Bubble sort",
+        "b) Selection sort",
+        "c) Quick sort",
+        "d) Insertion sort"
+      ],
+      "correct_answer": "c) Quick sort",
+      "explanation": "Quick sort has an average time complexity of O(n log n) and is generally faster in practice than other O(n log n) algorithms like merge sort due to better cache performance and lower constant factors.",
+      "difficulty": 3,
+      "topic": "Sorting Algorithms", 
+      "question_type": "multiple_choice"
+    },
+    {
+      "id": "5",
+      "question": "Hash tables provide O(1) average case time complexity for insertions and lookups.",
+      "options": [
+        "a) True",
+        "b) False"
+      ],
+      "correct_answer": "a) True", 
+      "explanation": "Hash tables do provide O(1) average case time complexity for basic operations when the hash function distributes elements evenly. However, in the worst case (many collisions), operations can degrade to O(n).",
+      "difficulty": 2,
+      "topic": "Data Structures",
+      "question_type": "true_false"
+    },
+    {
+      "id": "6",
+      "question": "What is the time complexity of binary search on a sorted array?",
+      "options": [],
+      "correct_answer": "O(log n)",
+      "accepted_answers": ["logarithmic", "log n", "logarithmic time"],
+      "rubric": "Full credit for O(log n) or logarithmic time. Half credit for explaining that the search space halves each step without naming the complexity.",
+      "explanation": "Each comparison halves the remaining search space, so at most log2(n) + 1 comparisons are needed to find an element or conclude it is absent.",
+      "difficulty": 2,
+      "topic": "Search Algorithms",
+      "question_type": "short_answer"
+    }
+  ],
+};
+
+const FIXTURE_MODEL_ID = "d50a33ce-2462-4a5a-9aa7-efc2d1749745";
+
+const getAssistantReply = (toolType: string | null, highlightedText: string | null): string => {
+  if (highlightedText) {
+    return `Based on the selected text "${highlightedText}", this refers to ${highlightedText.toLowerCase()}. ${highlightedText} is a fundamental concept that plays a crucial role in algorithm analysis. It represents the upper bound of an algorithm's time complexity, helping us understand the worst-case scenario for performance.`;
+  }
+  if (toolType) {
+    return "I've analyzed the selected content and generated the requested tool. You can interact with the results using the tool button below.";
+  }
+  return "This page discusses important concepts. The content covers fundamental principles that are essential for understanding the subject matter.";
+};
+
+export interface FixtureApiOptions {
+  // Simulated network latency per request
+  latencyMs?: number;
+  // Base URL the fixture PDF is served from (drop the file into public/fixtures for dev)
+  documentBaseUrl?: string;
+}
+
+const STREAM_TOKEN_DELAY_MS = 35;
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export const createFixtureApi = ({
+  latencyMs = 250,
+  documentBaseUrl = '/fixtures',
+}: FixtureApiOptions = {}): StudyModeApi => {
+  const studyMode = clone(fixtureStudyMode);
+  const messages = clone(fixtureMessages);
+  const toolResponses = new Map<string, FixtureToolResponse>(fixtureToolResponses.map((toolResponse) => [toolResponse.id, clone(toolResponse)]));
+  const gameRuns = new Map<string, GameRun>();
+  const repliesByClientMessageId = new Map<string, ReturnType<typeof storeReply>>();
+  let idCounter = 0;
+
+  const nextId = (prefix: string) => `${prefix}-${Date.now()}-${++idCounter}`;
+
+  // Resolves after the simulated latency, running the wire payload through the
+  // same schema the HTTP client uses so fixtures cannot drift from the contract
+  const respond = async <S extends z.ZodTypeAny>(
+    schema: S,
+    subject: string,
+    produce: () => unknown,
+    signal?: AbortSignal
+  ): Promise<z.output<S>> => {
+    await wait(latencyMs, signal);
+    return validateResponse(schema, clone(produce()), subject);
+  };
+
+  // Stores the user message and the canned assistant reply, returning the reply
+  // in the send-message wire format
+  const storeReply = (request: SendMessageRequest) => {
+    const createdAt = new Date().toISOString();
+    messages.push({
+      id: nextId('user'),
+      chat_session_id: request.chat_session_id,
+      role: 'user',
+      content: request.content,
+      model_id: null,
+      tool_response_id: null,
+      tool_type: null,
+      created_at: createdAt,
+    });
+
+    let toolResponse: FixtureToolResponse | null = null;
+    if (request.tool_type) {
+      toolResponse = {
+        id: nextId('tool-response'),
+        tool_type: request.tool_type,
+        response: generatedToolContent[request.tool_type],
+        created_at: createdAt,
+        response_text: null,
+        chapter_id: request.chapter_id,
+      };
+      toolResponses.set(toolResponse.id, toolResponse);
+    }
+
+    const reply: FixtureChatMessage = {
+      id: nextId('assistant'),
+      chat_session_id: request.chat_session_id,
+      role: 'assistant',
+      content: getAssistantReply(request.tool_type, request.highlighted_text?.text ?? null),
+      model_id: request.model_id || FIXTURE_MODEL_ID,
+      tool_response_id: toolResponse?.id ?? null,
+      tool_type: toolResponse?.tool_type ?? null,
+      // Cite the selection when there is one, otherwise the page being read
+      citations: [{
+        page: request.highlighted_text?.page ?? request.page_number,
+        section_id: request.highlighted_text?.section_id ?? request.section_id,
+        quote: request.highlighted_text?.text ?? null,
+      }],
+      created_at: createdAt,
+    };
+    messages.push(reply);
+
+    return {
+      ...reply,
+      tool_response: toolResponse?.response ?? null,
+      highlighted_text: request.highlighted_text,
+    };
+  };
+
+  // A retried message gets the reply stored by its first attempt
+  const createReply = (request: SendMessageRequest) => {
+    const stored = repliesByClientMessageId.get(request.client_message_id);
+    if (stored) return stored;
+    const reply = storeReply(request);
+    repliesByClientMessageId.set(request.client_message_id, reply);
+    return reply;
+  };
+
+  return {
+    getStudyMode: (documentId, options) => respond(studyModeDataSchema, 'study mode data', () => {
+      if (documentId !== studyMode.document.id) {
+        throw new ApiError('Document not found', 'http', 404);
+      }
+      return studyMode;
+    }, options?.signal),
+
+    getChatHistory: (chatSessionId, options) => respond(chatHistorySchema, 'chat history', () => ({
+      chat_session_id: chatSessionId,
+      messages: messages.filter((message) => message.chat_session_id === chatSessionId),
+    }), options?.signal),
+
+    sendMessage: (request, options) => respond(
+      sendMessageResponseSchema,
+      `${request.tool_type ?? 'chat'} response`,
+      () => createReply(request),
+      options?.signal
+    ),
+
+    // Replays the canned reply word by word to exercise the streaming UI
+    streamMessage: async (request, { onDelta }, options) => {
+      await wait(latencyMs, options?.signal);
+      const reply = createReply(request);
+      for (const token of reply.content.match(/\S+\s*/g) ?? []) {
+        await wait(STREAM_TOKEN_DELAY_MS, options?.signal);
+        onDelta(token);
+      }
+      return validateResponse(sendMessageResponseSchema, clone(reply), `${request.tool_type ?? 'chat'} response`);
+    },
+
+    getToolResponse: (toolResponseId, options) => respond(toolResponseSchema, 'tool response', () => {
+      const toolResponse = toolResponses.get(toolResponseId);
+      if (!toolResponse) {
+        throw new ApiError('Tool response not found', 'http', 404);
+      }
+      return toolResponse;
+    }, options?.signal),
+
+    // The fixture holds a single document, so every stored response belongs to it
+    listToolResponses: (documentId, toolType, options) => respond(toolResponseListSchema, 'tool responses', () => {
+      if (documentId !== studyMode.document.id) {
+        throw new ApiError('Document not found', 'http', 404);
+      }
+      return {
+        tool_responses: Array.from(toolResponses.values()).filter((toolResponse) => !toolType || toolResponse.tool_type === toolType),
+      };
+    }, options?.signal),
+
+    saveToolResponseRevision: (toolResponseId, payload, options) => respond(toolResponseSchema, 'tool response', () => {
+      const original = toolResponses.get(toolResponseId);
+      if (!original) {
+        throw new ApiError('Tool response not found', 'http', 404);
+      }
+      if (original.tool_type !== payload.tool_type) {
+        throw new ApiError('A revision must keep the original tool type', 'http', 422);
+      }
+      const revision: FixtureToolResponse = {
+        ...clone(payload),
+        id: nextId('tool-response'),
+        created_at: new Date().toISOString(),
+        response_text: original.response_text,
+        revision_of: toolResponseId,
+        chapter_id: original.chapter_id,
+      };
+      toolResponses.set(revision.id, revision);
+      return revision;
+    }, options?.signal),
+
+    createToolResponse: (documentId, { payload, chapter_id }, options) => respond(toolResponseSchema, 'tool response', () => {
+      if (documentId !== studyMode.document.id) {
+        throw new ApiError('Document not found', 'http', 404);
+      }
+      const toolResponse: FixtureToolResponse = {
+        ...clone(payload),
+        id: nextId('tool-response'),
+        created_at: new Date().toISOString(),
+        response_text: null,
+        chapter_id,
+      };
+      toolResponses.set(toolResponse.id, toolResponse);
+      return toolResponse;
+    }, options?.signal),
+
+    deleteToolResponse: (toolResponseId, options) => respond(noContentSchema, 'deletion', () => {
+      if (!toolResponses.delete(toolResponseId)) {
+        throw new ApiError('Tool response not found', 'http', 404);
+      }
+      return null;
+    }, options?.signal),
+
+    updatePosition: ({ document_id, ...position }, options) => respond(lastPositionSchema, 'reading position', () => {
+      if (document_id !== studyMode.document.id) {
+        throw new ApiError('Document not found', 'http', 404);
+      }
+      // Last write wins by timestamp, so a delayed sync cannot overwrite a newer position
+      if (Date.parse(position.updated_at) >= Date.parse(studyMode.last_position.updated_at)) {
+        studyMode.last_position = position;
+      }
+      return studyMode.last_position;
+    }, options?.signal),
+
+    // Stands in for model grading: credit follows how many of the reference's
+    // words the answer contains
+    gradeAnswer: ({ document_id, reference_answer, accepted_answers, answer }, options) => respond(answerGradeSchema, 'answer grade', () => {
+      if (document_id !== studyMode.document.id) {
+        throw new ApiError('Document not found', 'http', 404);
+      }
+      const tokenize = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+      const answerTokens = new Set(tokenize(answer));
+      const score = Math.max(0, ...[reference_answer, ...accepted_answers].map((reference) => {
+        const tokens = tokenize(reference);
+        return tokens.length === 0 ? 0 : tokens.filter((token) => answerTokens.has(token)).length / tokens.length;
+      }));
+      const rounded = Math.round(score * 4) / 4;
+      return {
+        score: rounded,
+        feedback: rounded === 1
+          ? 'Your answer matches the expected answer.'
+          : rounded > 0
+            ? `Partly correct. The expected answer is "${reference_answer}".`
+            : `This does not match the expected answer, "${reference_answer}".`,
+      };
+    }, options?.signal),
+
+    listGameRuns: (documentId, options) => respond(gameRunListSchema, 'game runs', () => {
+      if (documentId !== studyMode.document.id) {
+        throw new ApiError('Document not found', 'http', 404);
+      }
+      return { game_runs: Array.from(gameRuns.values()) };
+    }, options?.signal),
+
+    recordGameRun: (documentId, run, options) => respond(gameRunSchema, 'game run', () => {
+      if (documentId !== studyMode.document.id) {
+        throw new ApiError('Document not found', 'http', 404);
+      }
+      // Recording the same run twice keeps the first copy
+      if (!gameRuns.has(run.id)) gameRuns.set(run.id, run);
+      return gameRuns.get(run.id);
+    }, options?.signal),
+
+    getDocumentSource: (document: Document) => ({
+      url: `${documentBaseUrl}/${encodeURIComponent(document.file_name)}`,
+    }),
+  };
+};
@@ -0,0 +1,441 @@
+// Typed client for the AdaptiveLearnAI study-mode backend.
+//
+// Components talk to the `StudyModeApi` interface only; `createHttpApi` is the
+// real implementation and `createFixtureApi` (api-fixtures.ts) is an in-memory
+// stand-in used for offline development and tests.
+
+import type { z } from 'zod';
+import {
+  SchemaValidationError,
+  answerGradeSchema,
+  chatHistorySchema,
+  gameRunListSchema,
+  gameRunSchema,
+  lastPositionSchema,
+  noContentSchema,
+  parseWithSchema,
+  sendMessageResponseSchema,
+  streamDeltaSchema,
+  studyModeDataSchema,
+  toolResponseListSchema,
+  toolResponseSchema,
+  type AnswerGrade,
+  type ChatHistory,
+  type Document,
+  type GameRun,
+  type HighlightedTextPayload,
+  type LastPosition,
+  type SendMessageResponse,
+  type StudyModeData,
+  type ToolPayload,
+  type ToolResponse,
+  type ToolType,
+} from './schemas';
+import { readEventStream } from './sse';
+
+export interface SendMessageRequest {
+  // Chosen by the client per user message and sent again on retries, so the
+  // backend stores the turn once and answers a retry with the reply it already has
+  client_message_id: string;
+  chat_session_id: string;
+  document_id: string;
+  content: string;
+  model_id: string;
+  page_number: number;
+  chapter_id: string | null;
+  section_id: string | null;
+  tool_type: ToolType | null;
+  highlighted_text: HighlightedTextPayload | null;
+}
+
+export interface UpdatePositionRequest {
+  document_id: string;
+  page_number: number;
+  chapter_id: string | null;
+  section_id: string | null;
+  // When the reader moved, not when the request was sent. The backend keeps
+  // whichever write is newest and returns the position it ended up with.
+  updated_at: string;
+}
+
+export interface GradeAnswerRequest {
+  document_id: string;
+  question: string;
+  reference_answer: string;
+  accepted_answers: string[];
+  rubric: string | null;
+  answer: string;
+}
+
+// Tool output authored by the reader rather than generated in a chat
+export interface CreateToolResponseRequest {
+  payload: ToolPayload;
+  chapter_id: string | null;
+}
+
+// Where pdf.js should fetch the original file from
+export interface DocumentSource {
+  url: string;
+  httpHeaders?: Record<string, string>;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface StreamHandlers {
+  // Called with each new piece of the reply as it arrives
+  onDelta: (content: string) => void;
+}
+
+export interface StudyModeApi {
+  getStudyMode: (documentId: string, options?: RequestOptions) => Promise<StudyModeData>;
+  getChatHistory: (chatSessionId: string, options?: RequestOptions) => Promise<ChatHistory>;
+  sendMessage: (request: SendMessageRequest, options?: RequestOptions) => Promise<SendMessageResponse>;
+  // Same as sendMessage, but reports the reply incrementally; resolves with the
+  // stored message (including any tool payload) once the stream completes
+  streamMessage: (request: SendMessageRequest, handlers: StreamHandlers, options?: RequestOptions) => Promise<SendMessageResponse>;
+  getToolResponse: (toolResponseId: string, options?: RequestOptions) => Promise<ToolResponse>;
+  // Every tool response generated for the document, oldest first, optionally of one type
+  listToolResponses: (documentId: string, toolType?: ToolType, options?: RequestOptions) => Promise<ToolResponse[]>;
+  // Stores an edited payload as a new tool response that points back at the original
+  saveToolResponseRevision: (toolResponseId: string, payload: ToolPayload, options?: RequestOptions) => Promise<ToolResponse>;
+  createToolResponse: (documentId: string, request: CreateToolResponseRequest, options?: RequestOptions) => Promise<ToolResponse>;
+  deleteToolResponse: (toolResponseId: string, options?: RequestOptions) => Promise<void>;
+  updatePosition: (request: UpdatePositionRequest, options?: RequestOptions) => Promise<LastPosition>;
+  // Asks the model to grade a free-text quiz answer against the reference and rubric
+  gradeAnswer: (request: GradeAnswerRequest, options?: RequestOptions) => Promise<AnswerGrade>;
+  listGameRuns: (documentId: string, options?: RequestOptions) => Promise<GameRun[]>;
+  // Idempotent by run id
+  recordGameRun: (documentId: string, run: GameRun, options?: RequestOptions) => Promise<GameRun>;
+  getDocumentSource: (document: Document) => DocumentSource;
+}
+
+export type ApiErrorCode = 'network' | 'http' | 'invalid_response' | 'aborted';
+
+// Every failure surfaced by the client is normalised to an ApiError so callers
+// never need to inspect fetch/JSON exceptions themselves.
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number | null;
+  readonly details: unknown;
+
+  constructor(message: string, code: ApiErrorCode, status: number | null = null, details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+
+  get isRetryable(): boolean {
+    if (this.code === 'network') return true;
+    return this.code === 'http' && this.status !== null && (this.status === 408 || this.status === 429 || this.status >= 500);
+  }
+}
+
+// Parses a response body against its schema, reporting mismatches as ApiErrors
+export const validateResponse = <S extends z.ZodTypeAny>(schema: S, data: unknown, subject: string): z.output<S> => {
+  try {
+    return parseWithSchema(schema, data, subject);
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      console.error(error.message, error.issues);
+      throw new ApiError(error.message, 'invalid_response', null, error.issues);
+    }
+    throw error;
+  }
+};
+
+export const isAbortError = (error: unknown): boolean => {
+  return (error instanceof ApiError && error.code === 'aborted') ||
+    (error instanceof DOMException && error.name === 'AbortError');
+};
+
+export interface HttpApiConfig {
+  baseUrl: string;
+  getAuthToken?: () => string | null;
+  // Extra attempts after the first for idempotent requests
+  retries?: number;
+  retryDelayMs?: number;
+  fetch?: typeof fetch;
+}
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+interface HttpRequest<S extends z.ZodTypeAny> {
+  method: HttpMethod;
+  path: string;
+  schema: S;
+  // Names the payload in validation errors, e.g. "chat history"
+  subject: string;
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+export const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new ApiError('Request aborted', 'aborted'));
+    return;
+  }
+  const handleAbort = () => {
+    clearTimeout(timer);
+    reject(new ApiError('Request aborted', 'aborted'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', handleAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', handleAbort, { once: true });
+});
+
+// FastAPI-style `{ detail }` bodies are the common case; fall back to `message`
+const getErrorMessage = (body: unknown, fallback: string): string => {
+  if (body && typeof body === 'object') {
+    const { detail, message } = body as { detail?: unknown; message?: unknown };
+    if (typeof detail === 'string') return detail;
+    if (typeof message === 'string') return message;
+  }
+  return fallback;
+};
+
+export const createHttpApi = ({
+  baseUrl,
+  getAuthToken,
+  retries = 2,
+  retryDelayMs = 400,
+  fetch: fetchImpl = (...args) => fetch(...args),
+}: HttpApiConfig): StudyModeApi => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const getAuthHeaders = (): Record<string, string> => {
+    const token = getAuthToken?.();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  };
+
+  const open = async (method: HttpMethod, path: string, body: unknown, signal: AbortSignal | undefined, accept: string): Promise<Response> => {
+    try {
+      return await fetchImpl(`${root}${path}`, {
+        method,
+        signal,
+        headers: {
+          Accept: accept,
+          ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...getAuthHeaders(),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw new ApiError('Request aborted', 'aborted');
+      throw new ApiError('Unable to reach the server', 'network', null, error);
+    }
+  };
+
+  // Reads a JSON body; non-JSON error bodies are tolerated and reported by status
+  const readJson = async (response: Response): Promise<unknown> => {
+    let text: string;
+    try {
+      text = await response.text();
+    } catch (error) {
+      if (isAbortError(error)) throw new ApiError('Request aborted', 'aborted');
+      throw new ApiError('Connection lost while reading the response', 'network', response.status, error);
+    }
+
+    if (!text) return null;
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      if (response.ok) {
+        throw new ApiError('Server returned an invalid response', 'invalid_response', response.status, error);
+      }
+      return null;
+    }
+  };
+
+  const toHttpError = (response: Response, payload: unknown) => new ApiError(
+    getErrorMessage(payload, `Request failed with status ${response.status}`),
+    'http',
+    response.status,
+    payload
+  );
+
+  const send = async <S extends z.ZodTypeAny>({ method, path, schema, subject, body, signal }: HttpRequest<S>): Promise<z.output<S>> => {
+    const response = await open(method, path, body, signal, 'application/json');
+    const payload = await readJson(response);
+    if (!response.ok) {
+      throw toHttpError(response, payload);
+    }
+    return validateResponse(schema, payload, subject);
+  };
+
+  const request = async <S extends z.ZodTypeAny>(httpRequest: HttpRequest<S>): Promise<z.output<S>> => {
+    // Only idempotent requests are retried; resending a chat message could duplicate it
+    const maxAttempts = httpRequest.method === 'POST' ? 1 : retries + 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await send(httpRequest);
+      } catch (error) {
+        const apiError = error as ApiError;
+        if (attempt >= maxAttempts || !apiError.isRetryable) throw apiError;
+        await wait(retryDelayMs * 2 ** (attempt - 1), httpRequest.signal);
+      }
+    }
+  };
+
+  // The stream emits `delta` events with `{ content }`, then a single `done`
+  // event carrying the same payload as the non-streaming endpoint, or `error`.
+  const stream = async (body: SendMessageRequest, { onDelta }: StreamHandlers, signal?: AbortSignal): Promise<SendMessageResponse> => {
+    const path = `/chat-sessions/${encodeURIComponent(body.chat_session_id)}/messages/stream`;
+    const response = await open('POST', path, body, signal, 'text/event-stream');
+    if (!response.ok) {
+      throw toHttpError(response, await readJson(response));
+    }
+    if (!response.body) {
+      throw new ApiError('Streaming responses are not supported', 'invalid_response', response.status);
+    }
+
+    const parseEvent = (data: string): unknown => {
+      try {
+        return JSON.parse(data);
+      } catch (error) {
+        throw new ApiError('Server sent an invalid stream event', 'invalid_response', response.status, error);
+      }
+    };
+
+    let result: SendMessageResponse | null = null;
+    try {
+      await readEventStream(response.body, ({ event, data }) => {
+        if (event === 'delta') {
+          onDelta(validateResponse(streamDeltaSchema, parseEvent(data), 'response chunk').content);
+        } else if (event === 'done') {
+          result = validateResponse(sendMessageResponseSchema, parseEvent(data), `${body.tool_type ?? 'chat'} response`);
+        } else if (event === 'error') {
+          const payload = parseEvent(data);
+          throw new ApiError(getErrorMessage(payload, 'The response could not be completed'), 'http', response.status, payload);
+        }
+      });
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      if (isAbortError(error)) throw new ApiError('Request aborted', 'aborted');
+      throw new ApiError('Connection lost while receiving the response', 'network', response.status, error);
+    }
+
+    if (!result) {
+      throw new ApiError('Connection lost before the response finished', 'network', response.status);
+    }
+    return result;
+  };
+
+  return {
+    getStudyMode: (documentId, options) => request({
+      method: 'GET',
+      path: `/study-mode/${encodeURIComponent(documentId)}`,
+      schema: studyModeDataSchema,
+      subject: 'study mode data',
+      signal: options?.signal,
+    }),
+
+    getChatHistory: (chatSessionId, options) => request({
+      method: 'GET',
+      path: `/chat-sessions/${encodeURIComponent(chatSessionId)}/messages`,
+      schema: chatHistorySchema,
+      subject: 'chat history',
+      signal: options?.signal,
+    }),
+
+    sendMessage: (body, options) => request({
+      method: 'POST',
+      path: `/chat-sessions/${encodeURIComponent(body.chat_session_id)}/messages`,
+      schema: sendMessageResponseSchema,
+      subject: `${body.tool_type ?? 'chat'} response`,
+      body,
+      signal: options?.signal,
+    }),
+
+    // Never retried: the partial reply is already on screen and the caller decides
+    streamMessage: (body, handlers, options) => stream(body, handlers, options?.signal),
+
+    getToolResponse: (toolResponseId, options) => request({
+      method: 'GET',
+      path: `/tool-responses/${encodeURIComponent(toolResponseId)}`,
+      schema: toolResponseSchema,
+      subject: 'tool response',
+      signal: options?.signal,
+    }),
+
+    listToolResponses: (documentId, toolType, options) => request({
+      method: 'GET',
+      path: `/documents/${encodeURIComponent(documentId)}/tool-responses${toolType ? `?tool_type=${encodeURIComponent(toolType)}` : ''}`,
+      schema: toolResponseListSchema,
+      subject: 'tool responses',
+      signal: options?.signal,
+    }),
+
+    saveToolResponseRevision: (toolResponseId, payload, options) => request({
+      method: 'POST',
+      path: `/tool-responses/${encodeURIComponent(toolResponseId)}/revisions`,
+      schema: toolResponseSchema,
+      subject: 'tool response',
+      body: payload,
+      signal: options?.signal,
+    }),
+
+    createToolResponse: (documentId, { payload, chapter_id }, options) => request({
+      method: 'POST',
+      path: `/documents/${encodeURIComponent(documentId)}/tool-responses`,
+      schema: toolResponseSchema,
+      subject: 'tool response',
+      body: { ...payload, chapter_id },
+      signal: options?.signal,
+    }),
+
+    deleteToolResponse: (toolResponseId, options) => request({
+      method: 'DELETE',
+      path: `/tool-responses/${encodeURIComponent(toolResponseId)}`,
+      schema: noContentSchema,
+      subject: 'deletion',
+      signal: options?.signal,
+    }),
+
+    updatePosition: ({ document_id, ...body }, options) => request({
+      method: 'PUT',
+      path: `/documents/${encodeURIComponent(document_id)}/position`,
+      schema: lastPositionSchema,
+      subject: 'reading position',
+      body,
+      signal: options?.signal,
+    }),
+
+    gradeAnswer: ({ document_id, ...body }, options) => request({
+      method: 'POST',
+      path: `/documents/${encodeURIComponent(document_id)}/quiz/grade`,
+      schema: answerGradeSchema,
+      subject: 'answer grade',
+      body,
+      signal: options?.signal,
+    }),
+
+    listGameRuns: (documentId, options) => request({
+      method: 'GET',
+      path: `/documents/${encodeURIComponent(documentId)}/game-runs`,
+      schema: gameRunListSchema,
+      subject: 'game runs',
+      signal: options?.signal,
+    }),
+
+    recordGameRun: (documentId, run, options) => request({
+      method: 'POST',
+      path: `/documents/${encodeURIComponent(documentId)}/game-runs`,
+      schema: gameRunSchema,
+      subject: 'game run',
+      body: run,
+      signal: options?.signal,
+    }),
+
+    getDocumentSource: (document) => ({
+      url: `${root}/documents/${encodeURIComponent(document.id)}/file`,
+      httpHeaders: getAuthHeaders(),
+    }),
+  };
+};
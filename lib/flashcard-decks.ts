@@ -0,0 +1,103 @@
+// Flashcard library: every flashcard tool response of a document, grouped into
+// per-chapter decks. Each tool response is one stored deck; edits are saved as
+// revisions, so only the latest revision of each response is shown.
+
+import { getCardKey } from './srs';
+import type { FlashCard, TOC, ToolResponse } from './schemas';
+
+export type FlashcardToolResponse = Extract<ToolResponse, { tool_type: 'flashcard' }>;
+
+export interface LibraryCard {
+  // Schedule key, see getCardKey
+  key: string;
+  deckId: string;
+  chapterId: string | null;
+  card: FlashCard;
+}
+
+export interface ChapterDeck {
+  // The TOC chapter_id, or UNSORTED_DECK_ID for cards made outside any chapter
+  id: string;
+  title: string;
+  cards: LibraryCard[];
+}
+
+export const UNSORTED_DECK_ID = 'unsorted';
+
+// Drops responses that have since been revised
+export const getLatestRevisions = <T extends { id: string; revision_of: string | null }>(responses: T[]): T[] => {
+  const superseded = new Set(responses.map((response) => response.revision_of));
+  return responses.filter((response) => !superseded.has(response.id));
+};
+
+// Ids of `id` and every revision before it, oldest first
+export const getRevisionChain = <T extends { id: string; revision_of: string | null }>(responses: T[], id: string): string[] => {
+  const byId = new Map(responses.map((response) => [response.id, response]));
+  const chain: string[] = [];
+  for (let current = byId.get(id); current && !chain.includes(current.id); current = byId.get(current.revision_of ?? '')) {
+    chain.unshift(current.id);
+  }
+  return chain;
+};
+
+export const getFlashcardDecks = (responses: ToolResponse[]): FlashcardToolResponse[] => {
+  return getLatestRevisions(responses).flatMap((response) => (response.tool_type === 'flashcard' ? [response] : []));
+};
+
+export const getLibraryCards = (decks: FlashcardToolResponse[]): LibraryCard[] => {
+  return decks.flatMap((deck) => deck.response.map((card) => ({
+    key: getCardKey(deck.id, card.id),
+    deckId: deck.id,
+    chapterId: deck.chapter_id,
+    card,
+  })));
+};
+
+// Groups cards by chapter in table-of-contents order. Cards whose chapter is
+// unknown (or no longer in the TOC) end up in the unsorted deck.
+export const groupByChapter = (cards: LibraryCard[], toc?: TOC): ChapterDeck[] => {
+  const chapters = toc?.chapters ?? [];
+  const decks: ChapterDeck[] = chapters.map((chapter) => ({
+    id: chapter.chapter_id,
+    title: `${chapter.chapter_number}. ${chapter.title}`,
+    cards: [],
+  }));
+  const unsorted: ChapterDeck = { id: UNSORTED_DECK_ID, title: 'Unsorted', cards: [] };
+
+  cards.forEach((card) => {
+    const deck = decks.find((candidate) => candidate.id === card.chapterId) ?? unsorted;
+    deck.cards.push(card);
+  });
+
+  return [...decks, unsorted].filter((deck) => deck.cards.length > 0);
+};
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Cards asking the same question, ignoring case and punctuation. The first
+// card of each group is the oldest and is the one kept when merging.
+export const findDuplicateGroups = (cards: LibraryCard[]): LibraryCard[][] => {
+  const groups = new Map<string, LibraryCard[]>();
+  cards.forEach((card) => {
+    const question = normalizeText(card.card.question);
+    groups.set(question, [...(groups.get(question) ?? []), card]);
+  });
+  return Array.from(groups.values()).filter((group) => group.length > 1);
+};
+
+export const matchesSearch = ({ card }: LibraryCard, query: string): boolean => {
+  const needle = normalizeText(query);
+  if (!needle) return true;
+  return [card.question, card.answer, card.topic].some((text) => normalizeText(text).includes(needle));
+};
+
+// Ids only need to be unique within one deck
+export const createCardId = (deck: FlashCard[]): string => {
+  const ids = new Set(deck.map((card) => card.id));
+  const base = `manual-${Date.now().toString(36)}`;
+  let id = base;
+  for (let suffix = 2; ids.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+};
@@ -0,0 +1,181 @@
+// CSV/TSV exchange for flashcards. Exports use Anki's text-import file headers
+// (`#separator`, `#columns`, `#tags column`) so Anki picks up the columns and
+// tags without any setup; imports accept those headers, a header row, or bare rows.
+
+import type { FlashCard } from './schemas';
+
+export type Delimiter = ',' | '\t';
+
+export type ImportField = 'question' | 'answer' | 'topic' | 'difficulty' | 'tags' | 'ignore';
+
+export interface DelimitedTable {
+  delimiter: Delimiter;
+  // Column names from an Anki `#columns` header, if the file had one
+  columns: string[] | null;
+  rows: string[][];
+}
+
+export type ImportedCard = Omit<FlashCard, 'id'>;
+
+const DEFAULT_DIFFICULTY = 2;
+const DIFFICULTY_TAG = /^difficulty::([1-3])$/i;
+
+// Topic and difficulty as Anki tags, e.g. ["Time_Complexity", "difficulty::3"].
+// Anki tags cannot contain spaces.
+export const getCardTags = (card: FlashCard): string[] => {
+  const tags = [`difficulty::${card.difficulty}`];
+  const topic = card.topic.trim().replace(/\s+/g, '_');
+  return topic ? [topic, ...tags] : tags;
+};
+
+const parseTags = (value: string): { topic: string; difficulty: number | null } => {
+  let difficulty: number | null = null;
+  const topics: string[] = [];
+  value.split(/\s+/).filter(Boolean).forEach((tag) => {
+    const match = DIFFICULTY_TAG.exec(tag);
+    if (match) {
+      difficulty = Number(match[1]);
+    } else {
+      topics.push(tag.replace(/_/g, ' '));
+    }
+  });
+  return { topic: topics.join(', '), difficulty };
+};
+
+const quoteField = (value: string, delimiter: Delimiter) => {
+  return value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const cardsToDelimited = (cards: FlashCard[], delimiter: Delimiter): string => {
+  const header = [
+    `#separator:${delimiter === ',' ? 'Comma' : 'Tab'}`,
+    '#html:false',
+    `#columns:${['Question', 'Answer', 'Tags'].join(delimiter)}`,
+    '#tags column:3',
+  ];
+  const rows = cards.map((card) => [card.question, card.answer, getCardTags(card).join(' ')]
+    .map((field) => quoteField(field, delimiter))
+    .join(delimiter));
+  return [...header, ...rows].join('\n') + '\n';
+};
+
+const ANKI_SEPARATORS: Record<string, Delimiter> = { comma: ',', tab: '\t', ',': ',', '\t': '\t' };
+
+// Tab-separated when the extension says so or tabs outnumber commas on the first row
+export const detectDelimiter = (text: string, fileName: string): Delimiter => {
+  const separator = /^#separator:(.*)$/im.exec(text)?.[1]?.trim().toLowerCase();
+  if (separator && ANKI_SEPARATORS[separator]) return ANKI_SEPARATORS[separator];
+  if (/\.tsv$/i.test(fileName)) return '\t';
+  if (/\.csv$/i.test(fileName)) return ',';
+
+  const firstRow = text.split(/\r?\n/).find((line) => line.trim() && !line.startsWith('#')) ?? '';
+  return (firstRow.match(/\t/g)?.length ?? 0) > (firstRow.match(/,/g)?.length ?? 0) ? '\t' : ',';
+};
+
+// RFC 4180 parsing: quoted fields may contain delimiters, doubled quotes and line breaks
+export const parseDelimited = (text: string, delimiter: Delimiter): DelimitedTable => {
+  let body = text.replace(/^\uFEFF/, '');
+  let columns: string[] | null = null;
+
+  // Anki file headers come first, one per line
+  while (body.startsWith('#')) {
+    const lineEnd = body.indexOf('\n');
+    const line = (lineEnd === -1 ? body : body.slice(0, lineEnd)).replace(/\r$/, '');
+    const columnsHeader = /^#columns:(.*)$/i.exec(line);
+    if (columnsHeader) columns = columnsHeader[1].split(delimiter).map((name) => name.trim());
+    body = lineEnd === -1 ? '' : body.slice(lineEnd + 1);
+  }
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim())) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (inQuotes) {
+      if (char === '"' && body[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && body[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) endRow();
+
+  return { delimiter, columns, rows };
+};
+
+const FIELD_ALIASES: Record<Exclude<ImportField, 'ignore'>, string[]> = {
+  question: ['question', 'front', 'term', 'prompt'],
+  answer: ['answer', 'back', 'definition'],
+  topic: ['topic', 'subject', 'category'],
+  difficulty: ['difficulty', 'level'],
+  tags: ['tags', 'tag'],
+};
+
+export const isHeaderLike = (row: string[]): boolean => {
+  return row.some((name) => Object.values(FIELD_ALIASES).some((aliases) => aliases.includes(name.trim().toLowerCase())));
+};
+
+// Maps columns by name when they are known, otherwise assumes question, answer, tags
+export const guessFieldMapping = (names: string[] | null, columnCount: number): ImportField[] => {
+  const positional: ImportField[] = ['question', 'answer', 'tags'];
+  return Array.from({ length: columnCount }, (_, index) => {
+    const name = names?.[index]?.trim().toLowerCase();
+    const match = name && (Object.keys(FIELD_ALIASES) as Exclude<ImportField, 'ignore'>[]).find((field) => FIELD_ALIASES[field].includes(name));
+    if (names) return match || 'ignore';
+    return positional[index] ?? 'ignore';
+  });
+};
+
+// Rows without both a question and an answer are skipped
+export const rowsToCards = (rows: string[][], mapping: ImportField[]): { cards: ImportedCard[]; skipped: number } => {
+  const cards: ImportedCard[] = [];
+  let skipped = 0;
+
+  rows.forEach((row) => {
+    const valueOf = (field: ImportField) => {
+      const index = mapping.indexOf(field);
+      return index === -1 ? '' : (row[index] ?? '').trim();
+    };
+
+    const question = valueOf('question');
+    const answer = valueOf('answer');
+    if (!question || !answer) {
+      skipped++;
+      return;
+    }
+
+    const tags = parseTags(valueOf('tags'));
+    const difficulty = Number(valueOf('difficulty'));
+    cards.push({
+      question,
+      answer,
+      topic: valueOf('topic') || tags.topic,
+      difficulty: difficulty >= 1 && difficulty <= 3 ? Math.round(difficulty) : tags.difficulty ?? DEFAULT_DIFFICULTY,
+    });
+  });
+
+  return { cards, skipped };
+};
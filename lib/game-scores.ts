@@ -0,0 +1,84 @@
+// Game scoring and scoreboards. Finished runs are written to localStorage per
+// document right away and synced to the backend afterwards; `synced` records
+// whether the backend has stored a run yet.
+
+import { createLocalStore } from './local-store';
+import { gameRunSchema, type GameRun } from './schemas';
+
+export interface StoredGameRun extends GameRun {
+  synced: boolean;
+}
+
+export interface PersonalBest {
+  score: number;
+  // Null until a run is solved without revealing or skipping anything
+  timeSeconds: number | null;
+  runs: number;
+}
+
+export const POINTS_PER_STEP = 10;
+export const MISS_PENALTY = 5;
+
+// Oldest runs are dropped beyond this
+const MAX_STORED_RUNS = 200;
+
+// Consecutive correct answers raise the points of the next ones: x1.5 from a
+// streak of three, x2 from five
+export const getStreakMultiplier = (streak: number): number => {
+  if (streak >= 5) return 2;
+  if (streak >= 3) return 1.5;
+  return 1;
+};
+
+const runsStore = createLocalStore<StoredGameRun[]>({
+  prefix: 'game-runs',
+  empty: () => [],
+  parse: (stored) => {
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap((entry: { synced?: unknown }) => {
+      const run = gameRunSchema.safeParse(entry);
+      return run.success ? [{ ...run.data, synced: entry.synced === true }] : [];
+    });
+  },
+  serialize: (runs) => runs.slice(-MAX_STORED_RUNS),
+  description: 'game scores',
+});
+
+export const readRuns = runsStore.read;
+export const updateRuns = runsStore.update;
+export const subscribeToRuns = runsStore.subscribe;
+
+// Adds runs recorded on other devices; runs the backend returned are synced
+export const mergeRuns = (local: StoredGameRun[], remote: GameRun[]): StoredGameRun[] => {
+  const merged = new Map(local.map((run) => [run.id, run]));
+  remote.forEach((run) => merged.set(run.id, { ...run, synced: true }));
+  return Array.from(merged.values()).sort((a, b) => Date.parse(a.completed_at) - Date.parse(b.completed_at));
+};
+
+export const isSameRound = (run: GameRun, toolResponseId: string, roundIndex: number): boolean => {
+  return run.tool_response_id === toolResponseId && run.round_index === roundIndex;
+};
+
+export const isFullySolved = (run: GameRun): boolean => run.revealed_steps === 0;
+
+// Giving up ends a round quickly, so only fully solved runs count for the best time
+export const getPersonalBest = (runs: GameRun[]): PersonalBest | null => {
+  if (runs.length === 0) return null;
+  const solvedTimes = runs.filter(isFullySolved).map((run) => run.time_seconds);
+  return {
+    score: Math.max(...runs.map((run) => run.score)),
+    timeSeconds: solvedTimes.length > 0 ? Math.min(...solvedTimes) : null,
+    runs: runs.length,
+  };
+};
+
+// Best runs first; equal scores go to the faster run
+export const rankRuns = <T extends GameRun>(runs: T[]): T[] => {
+  return [...runs].sort((a, b) => b.score - a.score || a.time_seconds - b.time_seconds);
+};
+
+export const formatGameTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
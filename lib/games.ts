@@ -0,0 +1,67 @@
+// Game rounds as played by the game overlay. Structured rounds are used as is;
+// markdown rounds from older responses are parsed into the same shapes where
+// their format is recognised, and shown as text otherwise.
+
+import type { Game, StructuredGame } from './schemas';
+
+export interface UnsupportedGame {
+  game_type: 'unsupported';
+  title: string;
+  content: string;
+}
+
+export type GameRound = StructuredGame | UnsupportedGame;
+
+const PAIR_PATTERN = /^(?:\d+[.)]\s*|[-*]\s*)?(.+?)\s*(?:→|->)\s*(.+)$/;
+const LEVEL_PATTERN = /^\*\*Level\s+\d+:?\*\*:?\s*(.+)$/i;
+const TITLE_PATTERN = /^\*\*(.+)\*\*$/;
+
+const parseMarkdownGame = (markdown: string): GameRound => {
+  const lines = markdown.split('\n').map((line) => line.trim()).filter(Boolean);
+  const titleLine = lines.find((line) => TITLE_PATTERN.test(line));
+  const title = titleLine?.match(TITLE_PATTERN)?.[1].trim() ?? 'Game';
+  const body = lines.filter((line) => line !== titleLine);
+  // First plain line, such as "Match the algorithm concepts with their definitions:"
+  const instructions = body.find((line) => !PAIR_PATTERN.test(line) && !LEVEL_PATTERN.test(line)) ?? null;
+
+  const pairs = body.flatMap((line) => {
+    const match = line.match(PAIR_PATTERN);
+    return match ? [{ term: match[1].trim(), definition: match[2].trim() }] : [];
+  });
+  if (pairs.length >= 2) {
+    return { game_type: 'matching', title, instructions, pairs };
+  }
+
+  const levels = body.flatMap((line) => {
+    const match = line.match(LEVEL_PATTERN);
+    return match ? [{ question: match[1].trim(), answer: null, accepted_answers: [] }] : [];
+  });
+  if (levels.length > 0) {
+    return { game_type: 'level_quiz', title, instructions, levels };
+  }
+
+  return { game_type: 'unsupported', title, content: markdown };
+};
+
+export const toGameRounds = (games: Game[]): GameRound[] => {
+  return games.map((game) => (typeof game === 'string' ? parseMarkdownGame(game) : game));
+};
+
+export const GAME_TYPE_LABELS: Record<GameRound['game_type'], string> = {
+  matching: 'Matching',
+  ordering: 'Put in order',
+  fill_blank: 'Fill in the blank',
+  level_quiz: 'Level up',
+  unsupported: 'Game',
+};
+
+// Steps that make up a round: pairs to match, items to order, blanks or levels
+export const getRoundSize = (round: GameRound): number => {
+  switch (round.game_type) {
+    case 'matching': return round.pairs.length;
+    case 'ordering': return round.items.length;
+    case 'fill_blank': return round.sentences.length;
+    case 'level_quiz': return round.levels.length;
+    case 'unsupported': return 0;
+  }
+};
@@ -0,0 +1,82 @@
+// Values kept in localStorage as JSON under one key per id, such as the
+// flashcard schedules of each document. Writes notify the subscribers of that
+// id in this tab; other tabs are notified by the browser's own storage event.
+
+// Fired on window after a write, with the storage key written
+const CHANGED_EVENT = 'local-store-changed';
+
+interface LocalStoreOptions<T> {
+  // Values are stored under `${prefix}:${id}`
+  prefix: string;
+  // Value of an id that has nothing stored, or something unreadable
+  empty: () => T;
+  // Turns parsed JSON back into a value
+  parse: (stored: unknown) => T;
+  // What is stored for a value, e.g. only its newest entries; the value itself by default
+  serialize?: (value: T) => unknown;
+  // Named in the console when a write fails, e.g. "quiz attempts"
+  description: string;
+}
+
+export interface LocalStore<T> {
+  read: (id: string) => T;
+  write: (id: string, value: T) => void;
+  // Writes `change` applied to a fresh read, so changes made in another tab
+  // since this one last read are kept. Returns the new value.
+  update: (id: string, change: (value: T) => T) => T;
+  // Calls `listener` whenever the value of `id` changes; returns the unsubscribe function
+  subscribe: (id: string, listener: () => void) => () => void;
+}
+
+export const createLocalStore = <T>({
+  prefix,
+  empty,
+  parse,
+  serialize = (value) => value,
+  description,
+}: LocalStoreOptions<T>): LocalStore<T> => {
+  const storageKey = (id: string) => `${prefix}:${id}`;
+
+  const read = (id: string): T => {
+    try {
+      const raw = window.localStorage.getItem(storageKey(id));
+      return raw ? parse(JSON.parse(raw)) : empty();
+    } catch {
+      return empty();
+    }
+  };
+
+  const write = (id: string, value: T): void => {
+    try {
+      window.localStorage.setItem(storageKey(id), JSON.stringify(serialize(value)));
+    } catch (error) {
+      console.error(`Failed to save ${description}:`, error);
+    }
+    window.dispatchEvent(new CustomEvent(CHANGED_EVENT, { detail: storageKey(id) }));
+  };
+
+  const update = (id: string, change: (value: T) => T): T => {
+    const value = change(read(id));
+    write(id, value);
+    return value;
+  };
+
+  const subscribe = (id: string, listener: () => void): (() => void) => {
+    const key = storageKey(id);
+    const handleChange = (event: Event) => {
+      if ((event as CustomEvent<string>).detail === key) listener();
+    };
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === null || event.key === key) listener();
+    };
+
+    window.addEventListener(CHANGED_EVENT, handleChange);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(CHANGED_EVENT, handleChange);
+      window.removeEventListener('storage', handleStorage);
+    };
+  };
+
+  return { read, write, update, subscribe };
+};
@@ -0,0 +1,114 @@
+// Client-side Mermaid rendering. The library is large, so it is loaded on
+// first use rather than bundled with the app shell.
+
+import type { Mermaid } from 'mermaid';
+
+export type MermaidTheme = 'default' | 'dark';
+
+let mermaidPromise: Promise<Mermaid> | null = null;
+let renderCounter = 0;
+
+const loadMermaid = (): Promise<Mermaid> => {
+  mermaidPromise ??= import('mermaid')
+    .then(({ default: mermaid }) => {
+      mermaid.initialize({ startOnLoad: false });
+      return mermaid;
+    })
+    .catch((error) => {
+      // Not cached, so the next use tries to load it again
+      mermaidPromise = null;
+      throw error;
+    });
+  return mermaidPromise;
+};
+
+const configure = (mermaid: Mermaid, theme: MermaidTheme) => {
+  mermaid.initialize({
+    startOnLoad: false,
+    // Strict mode encodes HTML in labels and disables click handlers, since the
+    // source comes from model output
+    securityLevel: 'strict',
+    theme,
+    // SVG text labels instead of <foreignObject> HTML, which would taint the
+    // canvas and make PNG export impossible
+    htmlLabels: false,
+    flowchart: { htmlLabels: false },
+  });
+};
+
+// Mermaid's parser messages include a caret diagram over several lines; keep them
+const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'string') return error;
+  return 'Invalid diagram definition';
+};
+
+// Returns the parse error for `code`, or null when it is valid
+export const validateMermaid = async (code: string): Promise<string | null> => {
+  const mermaid = await loadMermaid();
+  try {
+    await mermaid.parse(code);
+    return null;
+  } catch (error) {
+    return getErrorMessage(error);
+  }
+};
+
+export class MermaidRenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MermaidRenderError';
+  }
+}
+
+export const renderMermaid = async (code: string, theme: MermaidTheme): Promise<string> => {
+  const mermaid = await loadMermaid();
+  configure(mermaid, theme);
+
+  const id = `mermaid-diagram-${++renderCounter}`;
+  try {
+    await mermaid.parse(code);
+    const { svg } = await mermaid.render(id, code);
+    return svg;
+  } catch (error) {
+    throw new MermaidRenderError(getErrorMessage(error));
+  } finally {
+    // A failed render leaves its scratch element attached to the body
+    document.getElementById(id)?.remove();
+    document.getElementById(`d${id}`)?.remove();
+  }
+};
+
+export const svgToBlob = (svg: string): Blob => new Blob([svg], { type: 'image/svg+xml;charset=utf-8' });
+
+// Rasterises an SVG string at `pixelRatio` times its intrinsic size
+export const svgToPngBlob = async (svg: string, background: string, pixelRatio = 2): Promise<Blob> => {
+  const url = URL.createObjectURL(svgToBlob(svg));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    // Mermaid sets width="100%" with a viewBox, so the image may report no intrinsic size
+    const svgElement = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+    const viewBox = svgElement.getAttribute('viewBox')?.split(/[\s,]+/).map(Number);
+    const width = viewBox?.[2] || image.naturalWidth || 800;
+    const height = viewBox?.[3] || image.naturalHeight || 600;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(width * pixelRatio);
+    canvas.height = Math.ceil(height * pixelRatio);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D context is not available');
+
+    context.fillStyle = background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,41 @@
+import { createContext, useContext, useMemo } from 'react';
+import { toast } from 'sonner';
+
+// Where an overlay is shown: over the tool panel, over the whole app, or in a
+// separate browser window
+export type OverlayPlacement = 'panel' | 'fullscreen' | 'window';
+
+export interface OverlayPlacementState {
+  // The window the overlay is currently shown in
+  view: Window;
+  placement: OverlayPlacement;
+  onPlacementChange?: (placement: OverlayPlacement) => void;
+  // Body of that window. Menus and other portalled content rendered from the
+  // overlay go here, or they would open in the main window behind a pop-out.
+  portalContainer?: HTMLElement;
+  // Id of the pop-out window's own Toaster; toasts without it show in the main window
+  toasterId?: string;
+}
+
+export const OverlayPlacementContext = createContext<OverlayPlacementState>({ view: window, placement: 'panel' });
+
+export function useOverlayPlacement(): OverlayPlacementState {
+  return useContext(OverlayPlacementContext);
+}
+
+type ToastMessage = Parameters<typeof toast.success>[0];
+type ToastOptions = Parameters<typeof toast.success>[1];
+
+// sonner's toast functions, showing toasts in the window the overlay is in
+export function useOverlayToast() {
+  const { toasterId } = useOverlayPlacement();
+  return useMemo(() => {
+    const inOverlayWindow = (show: typeof toast.success) => (message: ToastMessage, options?: ToastOptions) => show(message, { ...options, toasterId });
+    return {
+      success: inOverlayWindow(toast.success),
+      error: inOverlayWindow(toast.error),
+      warning: inOverlayWindow(toast.warning),
+      info: inOverlayWindow(toast.info),
+    };
+  }, [toasterId]);
+}
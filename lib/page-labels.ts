@@ -0,0 +1,66 @@
+// Maps between physical page indices (1-based position in the PDF file) and the
+// labels printed on the pages (e.g. roman-numeral front matter, then 1, 2, 3...).
+// Navigation state always uses page indices; labels are for display and for
+// resolving page numbers that come from the book itself, such as the TOC.
+export interface PageLabels {
+  numPages: number;
+  hasCustomLabels: boolean;
+  getLabel: (pageIndex: number) => string;
+  getPageIndex: (label: string | number) => number | null;
+}
+
+const normalizeLabel = (label: string) => label.trim().toLowerCase();
+
+export const createPageLabels = (numPages: number, labels: string[] | null): PageLabels => {
+  const usableLabels = labels && labels.length === numPages ? labels : null;
+  const hasCustomLabels = !!usableLabels && usableLabels.some((label, index) => label !== String(index + 1));
+
+  const indexByLabel = new Map<string, number>();
+  if (usableLabels) {
+    usableLabels.forEach((label, index) => {
+      const key = normalizeLabel(label);
+      // Keep the first occurrence; some books repeat labels across parts
+      if (key && !indexByLabel.has(key)) {
+        indexByLabel.set(key, index + 1);
+      }
+    });
+  }
+
+  const getLabel = (pageIndex: number): string => {
+    if (usableLabels && pageIndex >= 1 && pageIndex <= numPages) {
+      return usableLabels[pageIndex - 1] || String(pageIndex);
+    }
+    return String(pageIndex);
+  };
+
+  const getPageIndex = (label: string | number): number | null => {
+    const key = normalizeLabel(String(label));
+    if (!key) return null;
+
+    const labelledIndex = indexByLabel.get(key);
+    if (labelledIndex) return labelledIndex;
+
+    // Fall back to treating the value as a physical page number
+    const pageIndex = Number(key);
+    if (Number.isInteger(pageIndex) && pageIndex >= 1 && pageIndex <= numPages) {
+      return pageIndex;
+    }
+    return null;
+  };
+
+  return { numPages, hasCustomLabels, getLabel, getPageIndex };
+};
+
+// Formats the current position for display, e.g. "xii (12 of 1312)" or "12 of 1312"
+export const formatPagePosition = (pageLabels: PageLabels, pageIndex: number): string => {
+  const label = pageLabels.getLabel(pageIndex);
+  return label === String(pageIndex)
+    ? `${pageIndex} of ${pageLabels.numPages}`
+    : `${label} (${pageIndex} of ${pageLabels.numPages})`;
+};
+
+// TOC entries carry the printed page number; resolve it to a page index,
+// falling back to the raw number until the document's labels are known
+export const resolveTocPage = (pageLabels: PageLabels | null | undefined, page: number): number => {
+  return pageLabels?.getPageIndex(page) ?? page;
+};
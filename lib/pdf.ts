@@ -0,0 +1,22 @@
+import { GlobalWorkerOptions, PixelsPerInch, getDocument } from 'pdfjs-dist';
+import type { PDFDocumentLoadingTask } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { DocumentSource } from './api';
+
+export type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// PDF user space is 72 units per inch; CSS is 96px per inch. A zoom of 1.0
+// should show the page at its printed size.
+export const PDF_TO_CSS_UNITS = PixelsPerInch.PDF_TO_CSS_UNITS;
+
+export const loadPdfDocument = ({ url, httpHeaders }: DocumentSource): PDFDocumentLoadingTask => {
+  return getDocument({ url, httpHeaders });
+};
+
+// pdf.js rejects cancelled render/text-layer tasks; those are expected when
+// the page or zoom changes mid-render and should not be surfaced.
+export const isRenderCancellation = (error: unknown): boolean => {
+  return error instanceof Error && (error.name === 'RenderingCancelledException' || error.name === 'AbortException');
+};
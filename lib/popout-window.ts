@@ -0,0 +1,32 @@
+// Separate browser windows for tool overlays. The overlay stays part of the
+// main React tree and is only moved into the window's document, so its state,
+// callbacks and text selection keep working; the window only needs the styles.
+
+const POPOUT_FEATURES = 'width=960,height=720,resizable=yes,scrollbars=yes';
+
+const copyStyles = (source: Document, target: Document) => {
+  source.querySelectorAll<HTMLStyleElement | HTMLLinkElement>('style, link[rel="stylesheet"]').forEach((node) => {
+    const copy = node.cloneNode(true) as HTMLStyleElement | HTMLLinkElement;
+    // The window has no URL of its own, so relative stylesheet links would not resolve
+    if (node instanceof HTMLLinkElement && copy instanceof HTMLLinkElement) {
+      copy.href = node.href;
+    }
+    target.head.appendChild(copy);
+  });
+};
+
+// Opens an empty window styled like the app; null when pop-ups are blocked
+export const openPopoutWindow = (title: string): Window | null => {
+  const popup = window.open('', '_blank', POPOUT_FEATURES);
+  if (!popup) return null;
+
+  const { document: popupDocument } = popup;
+  popupDocument.title = title;
+  copyStyles(document, popupDocument);
+  // Carries over the theme, such as the `dark` class
+  popupDocument.documentElement.className = document.documentElement.className;
+  popupDocument.body.className = 'bg-background text-foreground';
+  popupDocument.body.style.margin = '0';
+  popupDocument.body.style.height = '100vh';
+  return popup;
+};
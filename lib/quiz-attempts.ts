@@ -0,0 +1,165 @@
+// Quiz attempts, kept in localStorage per stored quiz (tool response) so an
+// attempt survives closing the overlay and past results can be reviewed. An
+// attempt is saved after every answer; it is finished once `completedAt` is set.
+
+import { createLocalStore } from './local-store';
+import { shuffle } from './shuffle';
+import type { AnswerVerdict, GradedAnswer } from './quiz-grading';
+import type { QuizQuestion } from './schemas';
+
+export interface QuizAnswer extends GradedAnswer {
+  answeredAt: string;
+  // Time from the question being shown to the answer being submitted
+  timeSpentMs: number;
+}
+
+// Exam attempts are answered in full before any grading. Answers are kept as
+// raw responses until submission, and the shuffled option order is stored so a
+// resumed exam looks the same.
+export interface ExamState {
+  timeLimitMs: number | null;
+  // Submitted automatically once passed
+  deadline: string | null;
+  // Displayed option order per choice question
+  optionOrder: Record<string, string[]>;
+  responses: Record<string, string>;
+  flagged: string[];
+  timeSpentMs: Record<string, number>;
+}
+
+export interface ExamSettings {
+  timeLimitMinutes: number | null;
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+}
+
+export interface QuizAttempt {
+  id: string;
+  toolResponseId: string;
+  // The questions asked, in order; a retry only includes the ones missed before
+  questionIds: string[];
+  // Attempt this one retries the wrong questions of
+  retryOf: string | null;
+  startedAt: string;
+  completedAt: string | null;
+  answers: Record<string, QuizAnswer>;
+  // Set for exam attempts only
+  exam?: ExamState;
+}
+
+export interface TopicResult {
+  topic: string;
+  total: number;
+  // Sum of question scores, so partial credit counts
+  earned: number;
+}
+
+export interface AttemptSummary {
+  total: number;
+  answered: number;
+  correct: number;
+  partial: number;
+  incorrect: number;
+  // 0 to 100; unanswered questions count as zero
+  score: number;
+  timeSpentMs: number;
+  topics: TopicResult[];
+}
+
+// Oldest attempts are dropped beyond this
+const MAX_STORED_ATTEMPTS = 50;
+
+const attemptsStore = createLocalStore<QuizAttempt[]>({
+  prefix: 'quiz-attempts',
+  empty: () => [],
+  parse: (stored) => (Array.isArray(stored) ? (stored as QuizAttempt[]) : []),
+  serialize: (attempts) => attempts.slice(-MAX_STORED_ATTEMPTS),
+  description: 'quiz attempts',
+});
+
+export const createAttempt = (toolResponseId: string, questionIds: string[], retryOf: string | null = null): QuizAttempt => ({
+  id: `attempt-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  toolResponseId,
+  questionIds,
+  retryOf,
+  startedAt: new Date().toISOString(),
+  completedAt: null,
+  answers: {},
+});
+
+export const createExamAttempt = (toolResponseId: string, questions: QuizQuestion[], settings: ExamSettings): QuizAttempt => {
+  const ordered = settings.shuffleQuestions ? shuffle(questions) : questions;
+  const timeLimitMs = settings.timeLimitMinutes ? settings.timeLimitMinutes * 60 * 1000 : null;
+  const attempt = createAttempt(toolResponseId, ordered.map((question) => question.id));
+  return {
+    ...attempt,
+    exam: {
+      timeLimitMs,
+      deadline: timeLimitMs ? new Date(Date.parse(attempt.startedAt) + timeLimitMs).toISOString() : null,
+      // True/false keeps its natural order
+      optionOrder: Object.fromEntries(ordered.map((question) => [
+        question.id,
+        settings.shuffleOptions && question.question_type === 'multiple_choice' ? shuffle(question.options) : question.options,
+      ])),
+      responses: {},
+      flagged: [],
+      timeSpentMs: {},
+    },
+  };
+};
+
+// Roughly 90 seconds per question, rounded up to five minutes
+export const getDefaultTimeLimit = (questionCount: number): number => Math.max(5, Math.ceil(questionCount * 1.5 / 5) * 5);
+
+// Oldest first
+export const readAttempts = attemptsStore.read;
+
+export const subscribeToAttempts = attemptsStore.subscribe;
+
+// Inserts or replaces the attempt with the same id
+export const saveAttempt = (attempt: QuizAttempt): void => {
+  attemptsStore.update(attempt.toolResponseId, (attempts) => {
+    const index = attempts.findIndex((candidate) => candidate.id === attempt.id);
+    return index === -1 ? [...attempts, attempt] : attempts.map((candidate, i) => (i === index ? attempt : candidate));
+  });
+};
+
+const countVerdict = (answers: QuizAnswer[], verdict: AnswerVerdict) => answers.filter((answer) => answer.verdict === verdict).length;
+
+export const summarizeAttempt = (attempt: QuizAttempt, questions: QuizQuestion[]): AttemptSummary => {
+  const asked = questions.filter((question) => attempt.questionIds.includes(question.id));
+  const answers = asked.flatMap((question) => (attempt.answers[question.id] ? [attempt.answers[question.id]] : []));
+
+  const topics = new Map<string, TopicResult>();
+  asked.forEach((question) => {
+    const topic = topics.get(question.topic) ?? { topic: question.topic, total: 0, earned: 0 };
+    topic.total += 1;
+    topic.earned += attempt.answers[question.id]?.score ?? 0;
+    topics.set(question.topic, topic);
+  });
+
+  const earned = answers.reduce((sum, answer) => sum + answer.score, 0);
+  return {
+    total: asked.length,
+    answered: answers.length,
+    correct: countVerdict(answers, 'correct'),
+    partial: countVerdict(answers, 'partial'),
+    incorrect: countVerdict(answers, 'incorrect'),
+    score: asked.length === 0 ? 0 : Math.round((earned / asked.length) * 100),
+    timeSpentMs: answers.reduce((sum, answer) => sum + answer.timeSpentMs, 0),
+    // Weakest topics first
+    topics: Array.from(topics.values()).sort((a, b) => a.earned / a.total - b.earned / b.total),
+  };
+};
+
+// Questions without full credit, including unanswered ones
+export const getMissedQuestionIds = (attempt: QuizAttempt): string[] => {
+  return attempt.questionIds.filter((id) => attempt.answers[id]?.verdict !== 'correct');
+};
+
+export const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return seconds % 60 === 0 ? `${minutes}m` : `${minutes}m ${seconds % 60}s`;
+};
@@ -0,0 +1,90 @@
+// Grading for quiz answers. Choice questions are graded by exact match; short
+// answers are first compared locally against the reference and accepted
+// answers, and only sent to the model when no local match is found.
+
+import type { AnswerGrade, QuizQuestion } from './schemas';
+
+export type AnswerVerdict = 'correct' | 'partial' | 'incorrect';
+
+export interface GradedAnswer {
+  answer: string;
+  // Fraction of credit earned, 0 to 1
+  score: number;
+  verdict: AnswerVerdict;
+  // Model feedback for short answers graded remotely
+  feedback: string | null;
+}
+
+const ARTICLES = /\b(a|an|the)\b/g;
+
+// Lowercases and drops accents, punctuation and articles, so "The O(log n)"
+// and "o log n" compare equal
+export const normalizeAnswer = (text: string): string => text
+  .normalize('NFKD')
+  .replace(/\p{M}/gu, '')
+  .toLowerCase()
+  .replace(/[^\p{L}\p{N}]+/gu, ' ')
+  .replace(ARTICLES, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// One typo per eight characters; short answers such as numbers must match exactly
+const isCloseMatch = (answer: string, expected: string): boolean => {
+  if (answer === expected) return true;
+  const compactAnswer = answer.replace(/ /g, '');
+  const compactExpected = expected.replace(/ /g, '');
+  if (compactAnswer === compactExpected) return true;
+  const allowed = Math.floor(compactExpected.length / 8);
+  return allowed > 0 && editDistance(compactAnswer, compactExpected) <= allowed;
+};
+
+// "a) True" -> "True"
+export const stripOptionLabel = (option: string): string => option.replace(/^[a-z]\)\s*/i, '');
+
+export const getVerdict = (score: number): AnswerVerdict => {
+  if (score >= 1) return 'correct';
+  return score > 0 ? 'partial' : 'incorrect';
+};
+
+export const gradeChoice = (question: QuizQuestion, answer: string): GradedAnswer => {
+  const score = answer === question.correct_answer ? 1 : 0;
+  return { answer, score, verdict: getVerdict(score), feedback: null };
+};
+
+// Whether a typed answer matches any of the expected ones, tolerating case,
+// punctuation, spacing and small typos
+export const matchesAnswer = (answer: string, expected: string[]): boolean => {
+  const normalized = normalizeAnswer(answer);
+  if (!normalized) return false;
+  return expected.map(normalizeAnswer).some((candidate) => candidate && isCloseMatch(normalized, candidate));
+};
+
+// Full credit when the answer matches the reference or an accepted answer;
+// null means the answer needs a closer look
+export const gradeShortAnswerLocally = (question: QuizQuestion, answer: string): GradedAnswer | null => {
+  const isMatch = matchesAnswer(answer, [question.correct_answer, ...question.accepted_answers]);
+  return isMatch ? { answer, score: 1, verdict: 'correct', feedback: null } : null;
+};
+
+export const fromAnswerGrade = (answer: string, grade: AnswerGrade): GradedAnswer => ({
+  answer,
+  score: grade.score,
+  verdict: getVerdict(grade.score),
+  feedback: grade.feedback || null,
+});
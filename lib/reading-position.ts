@@ -0,0 +1,29 @@
+import { createLocalStore } from './local-store';
+import { lastPositionSchema, type LastPosition } from './schemas';
+
+// The reading position is written to localStorage on every page change so it
+// survives reloads and offline sessions; `synced` records whether the backend
+// has acknowledged it yet.
+export interface StoredPosition extends LastPosition {
+  synced: boolean;
+}
+
+const positionStore = createLocalStore<StoredPosition | null>({
+  prefix: 'reading-position',
+  // Nothing stored, or something unreadable, just means there is nothing to resume from
+  empty: () => null,
+  parse: (stored) => {
+    const position = lastPositionSchema.safeParse(stored);
+    if (!position.success) return null;
+    return { ...position.data, synced: (stored as { synced?: unknown }).synced === true };
+  },
+  description: 'reading position locally',
+});
+
+export const readStoredPosition = (documentId: string): StoredPosition | null => positionStore.read(documentId);
+
+export const writeStoredPosition = (documentId: string, position: StoredPosition): void => positionStore.write(documentId, position);
+
+export const isNewerPosition = (a: LastPosition, b: LastPosition): boolean => {
+  return Date.parse(a.updated_at) > Date.parse(b.updated_at);
+};
@@ -0,0 +1,322 @@
+import { z } from 'zod';
+
+// Shared domain types for the study-mode backend. Every payload that crosses
+// the API boundary is parsed with these schemas, so components can rely on
+// the shapes below instead of guessing at loosely typed content.
+
+export const documentSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  title: z.string(),
+  file_name: z.string(),
+  created_at: z.string(),
+});
+
+export const sectionSchema = z.object({
+  section_id: z.string(),
+  title: z.string(),
+  page: z.number().int(),
+});
+
+export const chapterSchema = z.object({
+  chapter_id: z.string(),
+  chapter_number: z.string(),
+  title: z.string(),
+  sections: z.array(sectionSchema).nullable(),
+});
+
+export const tocSchema = z.object({
+  book_id: z.string(),
+  chapters: z.array(chapterSchema),
+});
+
+export const lastPositionSchema = z.object({
+  page_number: z.number().int().positive(),
+  chapter_id: z.string().nullable(),
+  section_id: z.string().nullable(),
+  updated_at: z.string(),
+});
+
+export const studyModeDataSchema = z.object({
+  document: documentSchema,
+  chat_session_id: z.string(),
+  // Not every document has an extracted table of contents
+  toc: tocSchema.nullish().transform((toc) => toc ?? undefined),
+  last_position: lastPositionSchema,
+});
+
+// A passage of the book an assistant answer is based on. `page` is the 1-based
+// page index in the PDF file (not the printed label); `quote` is the cited
+// span, absent when the answer refers to the page as a whole.
+export const citationSchema = z.object({
+  page: z.number().int().positive(),
+  section_id: z.string().nullable(),
+  quote: z.string().nullable(),
+});
+
+export const chatMessageSchema = z.object({
+  id: z.string(),
+  chat_session_id: z.string(),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  model_id: z.string().nullable(),
+  tool_response_id: z.string().nullable(),
+  tool_type: z.string().nullable(),
+  // Older messages and user messages have no citations
+  citations: z.array(citationSchema).default([]),
+  created_at: z.string(),
+});
+
+export const chatHistorySchema = z.object({
+  chat_session_id: z.string(),
+  messages: z.array(chatMessageSchema),
+});
+
+export const highlightedTextSchema = z.object({
+  text: z.string(),
+  context: z.string(),
+  page: z.number().int(),
+  chapter_id: z.string().nullable(),
+  section_id: z.string().nullable(),
+});
+
+// Tool payloads
+
+export const toolTypeSchema = z.enum(['flashcard', 'quiz', 'diagram', 'game']);
+
+export const isToolType = (value: string): value is z.infer<typeof toolTypeSchema> => {
+  return toolTypeSchema.safeParse(value).success;
+};
+
+const difficultySchema = z.number().int().min(1).max(3);
+
+export const flashcardSchema = z.object({
+  id: z.string(),
+  question: z.string().min(1),
+  answer: z.string().min(1),
+  difficulty: difficultySchema,
+  topic: z.string(),
+});
+
+export const quizQuestionSchema = z.object({
+  id: z.string(),
+  question: z.string().min(1),
+  options: z.array(z.string()),
+  correct_answer: z.string().min(1),
+  explanation: z.string(),
+  difficulty: difficultySchema,
+  topic: z.string(),
+  question_type: z.enum(['multiple_choice', 'true_false', 'short_answer']),
+  // Short answers only: other phrasings that earn full credit, and grading
+  // guidance for partially correct answers
+  accepted_answers: z.array(z.string()).default([]),
+  rubric: z.string().nullish().transform((rubric) => rubric ?? null),
+}).refine(
+  (question) => question.question_type === 'short_answer' || question.options.includes(question.correct_answer),
+  { message: 'correct_answer must be one of the options', path: ['correct_answer'] }
+);
+
+// Mermaid source, one diagram per entry
+export const diagramSchema = z.string().trim().min(1);
+
+// Marks the gap in a fill-in-the-blank sentence
+export const BLANK_PATTERN = /_{3,}/;
+
+const gameTitleSchema = z.string().trim().min(1);
+const gameInstructionsSchema = z.string().nullish().transform((instructions) => instructions ?? null);
+
+const matchingGameSchema = z.object({
+  game_type: z.literal('matching'),
+  title: gameTitleSchema,
+  instructions: gameInstructionsSchema,
+  pairs: z.array(z.object({ term: z.string().min(1), definition: z.string().min(1) })).min(2),
+});
+
+const orderingGameSchema = z.object({
+  game_type: z.literal('ordering'),
+  title: gameTitleSchema,
+  instructions: gameInstructionsSchema,
+  // In the correct order; shuffled when played
+  items: z.array(z.string().min(1)).min(2),
+});
+
+const fillBlankGameSchema = z.object({
+  game_type: z.literal('fill_blank'),
+  title: gameTitleSchema,
+  instructions: gameInstructionsSchema,
+  sentences: z.array(z.object({
+    // One blank per sentence, as there is one answer to fill it with
+    text: z.string().refine((text) => text.split(BLANK_PATTERN).length === 2, 'sentence must contain exactly one blank (___)'),
+    answer: z.string().min(1),
+    accepted_answers: z.array(z.string()).default([]),
+  })).min(1),
+});
+
+// Questions of increasing difficulty; later levels are worth more
+const levelQuizGameSchema = z.object({
+  game_type: z.literal('level_quiz'),
+  title: gameTitleSchema,
+  instructions: gameInstructionsSchema,
+  levels: z.array(z.object({
+    question: z.string().min(1),
+    // Levels without an answer are self-assessed
+    answer: z.string().nullish().transform((answer) => answer ?? null),
+    accepted_answers: z.array(z.string()).default([]),
+  })).min(1),
+});
+
+export const structuredGameSchema = z.discriminatedUnion('game_type', [
+  matchingGameSchema,
+  orderingGameSchema,
+  fillBlankGameSchema,
+  levelQuizGameSchema,
+]);
+
+// One game round. Older responses describe the round in markdown instead,
+// which is parsed when the game is played (see lib/games.ts).
+export const gameSchema = z.union([structuredGameSchema, z.string().trim().min(1)]);
+
+const flashcardPayloadSchema = z.object({
+  tool_type: z.literal('flashcard'),
+  response: z.array(flashcardSchema).min(1),
+});
+
+const quizPayloadSchema = z.object({
+  tool_type: z.literal('quiz'),
+  response: z.array(quizQuestionSchema).min(1),
+});
+
+const diagramPayloadSchema = z.object({
+  tool_type: z.literal('diagram'),
+  response: z.array(diagramSchema).min(1),
+});
+
+const gamePayloadSchema = z.object({
+  tool_type: z.literal('game'),
+  response: z.array(gameSchema).min(1),
+});
+
+export const toolPayloadSchema = z.discriminatedUnion('tool_type', [
+  flashcardPayloadSchema,
+  quizPayloadSchema,
+  diagramPayloadSchema,
+  gamePayloadSchema,
+]);
+
+const toolResponseMetaSchema = z.object({
+  id: z.string(),
+  created_at: z.string(),
+  response_text: z.string().nullable(),
+  // Set when this response is a user-edited revision of another one
+  revision_of: z.string().nullish().transform((id) => id ?? null),
+  // Chapter the reader was in when the tool was generated, used to group decks
+  chapter_id: z.string().nullish().transform((id) => id ?? null),
+});
+
+export const toolResponseSchema = z.discriminatedUnion('tool_type', [
+  flashcardPayloadSchema.merge(toolResponseMetaSchema),
+  quizPayloadSchema.merge(toolResponseMetaSchema),
+  diagramPayloadSchema.merge(toolResponseMetaSchema),
+  gamePayloadSchema.merge(toolResponseMetaSchema),
+]);
+
+export const toolResponseListSchema = z.object({
+  tool_responses: z.array(toolResponseSchema),
+}).transform(({ tool_responses }) => tool_responses);
+
+// The send-message endpoint returns the tool output inline as `tool_response`;
+// it is validated against the same per-tool schemas and exposed as `tool`.
+export const sendMessageResponseSchema = chatMessageSchema.extend({
+  tool_response: z.array(z.unknown()).nullable(),
+  highlighted_text: highlightedTextSchema.nullish(),
+}).transform((message, ctx) => {
+  const { tool_response, ...rest } = message;
+  if (!tool_response || !message.tool_type) {
+    return { ...rest, tool: null };
+  }
+
+  const parsed = toolPayloadSchema.safeParse({ tool_type: message.tool_type, response: tool_response });
+  if (!parsed.success) {
+    parsed.error.issues.forEach((issue) => ctx.addIssue({ ...issue, path: ['tool_response', ...issue.path.slice(1)] }));
+    return z.NEVER;
+  }
+  return { ...rest, tool: parsed.data };
+});
+
+// One finished play-through of a game round. Ids are created on the client so
+// re-sending a run after a failed sync does not record it twice.
+export const gameRunSchema = z.object({
+  id: z.string(),
+  tool_response_id: z.string(),
+  // Position of the round within the game tool response
+  round_index: z.number().int().min(0),
+  title: z.string(),
+  score: z.number().int().min(0),
+  time_seconds: z.number().int().min(0),
+  max_streak: z.number().int().min(0),
+  mistakes: z.number().int().min(0),
+  // Steps revealed or skipped rather than solved; only runs without any set a best time
+  revealed_steps: z.number().int().min(0).default(0),
+  completed_at: z.string(),
+});
+
+export const gameRunListSchema = z.object({
+  game_runs: z.array(gameRunSchema),
+}).transform(({ game_runs }) => game_runs);
+
+// Score of a free-text answer; `score` is the fraction of credit earned
+export const answerGradeSchema = z.object({
+  score: z.number().min(0).max(1),
+  feedback: z.string(),
+});
+
+// Endpoints that answer 204 No Content
+export const noContentSchema = z.unknown().transform((): void => undefined);
+
+// Incremental text of a streamed assistant reply
+export const streamDeltaSchema = z.object({
+  content: z.string(),
+});
+
+export type Document = z.infer<typeof documentSchema>;
+export type Section = z.infer<typeof sectionSchema>;
+export type Chapter = z.infer<typeof chapterSchema>;
+export type TOC = z.infer<typeof tocSchema>;
+export type LastPosition = z.infer<typeof lastPositionSchema>;
+export type StudyModeData = z.infer<typeof studyModeDataSchema>;
+export type Citation = z.infer<typeof citationSchema>;
+export type ChatMessage = z.infer<typeof chatMessageSchema>;
+export type ChatHistory = z.infer<typeof chatHistorySchema>;
+export type HighlightedTextPayload = z.infer<typeof highlightedTextSchema>;
+export type ToolType = z.infer<typeof toolTypeSchema>;
+export type FlashCard = z.infer<typeof flashcardSchema>;
+export type QuizQuestion = z.infer<typeof quizQuestionSchema>;
+export type Game = z.infer<typeof gameSchema>;
+export type StructuredGame = z.infer<typeof structuredGameSchema>;
+export type ToolPayload = z.infer<typeof toolPayloadSchema>;
+export type AnswerGrade = z.infer<typeof answerGradeSchema>;
+export type GameRun = z.infer<typeof gameRunSchema>;
+export type ToolResponse = z.infer<typeof toolResponseSchema>;
+export type SendMessageResponse = z.infer<typeof sendMessageResponseSchema>;
+
+export class SchemaValidationError extends Error {
+  readonly issues: z.ZodIssue[];
+
+  constructor(subject: string, issues: z.ZodIssue[]) {
+    const summary = issues
+      .slice(0, 3)
+      .map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+      .join('; ');
+    super(`Invalid ${subject}: ${summary}`);
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+export const parseWithSchema = <S extends z.ZodTypeAny>(schema: S, data: unknown, subject: string): z.output<S> => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new SchemaValidationError(subject, result.error.issues);
+  }
+  return result.data;
+};
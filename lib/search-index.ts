@@ -0,0 +1,149 @@
+// Full-text search over the document's pages. Each page keeps its text and an
+// inverted index of its words; a query is narrowed to the pages whose words
+// can make up the query and only those pages are scanned for exact matches.
+// Runs inside the search worker so large textbooks do not block the UI.
+
+export interface SearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+// Page text as sent to the worker: the text layer's text with a newline after
+// each line, so words on consecutive lines do not run together
+export interface SearchPage {
+  page: number;
+  text: string;
+  // Positions in `text` of the newlines that are not in the text layer
+  breaks: number[];
+}
+
+export interface SearchHit {
+  page: number;
+  // Offsets into the page's text layer
+  start: number;
+  end: number;
+  snippet: { before: string; match: string; after: string };
+}
+
+export interface SearchResults {
+  hits: SearchHit[];
+  // More hits exist than were returned
+  truncated: boolean;
+}
+
+interface TextContentItem {
+  str?: string;
+  hasEOL?: boolean;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const WORD_CHAR = '[\\p{L}\\p{N}]';
+const MAX_HITS = 500;
+const SNIPPET_CONTEXT = 40;
+
+export const createSearchPage = (page: number, items: TextContentItem[]): SearchPage => {
+  let text = '';
+  const breaks: number[] = [];
+  items.forEach((item) => {
+    text += item.str ?? '';
+    if (item.hasEOL) {
+      breaks.push(text.length);
+      text += '\n';
+    }
+  });
+  return { page, text, breaks };
+};
+
+const tokenize = (text: string): string[] => text.toLowerCase().match(WORD_PATTERN) ?? [];
+
+// Maps an offset in the search text to the text layer by dropping the added newlines
+const toLayerOffset = (page: SearchPage, offset: number): number => {
+  let added = 0;
+  while (added < page.breaks.length && page.breaks[added] < offset) added++;
+  return offset - added;
+};
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ');
+
+const getSnippet = (text: string, start: number, end: number): SearchHit['snippet'] => {
+  const from = Math.max(0, start - SNIPPET_CONTEXT);
+  const to = Math.min(text.length, end + SNIPPET_CONTEXT);
+  return {
+    before: `${from > 0 ? '…' : ''}${collapse(text.slice(from, start)).trimStart()}`,
+    match: collapse(text.slice(start, end)),
+    after: `${collapse(text.slice(end, to)).trimEnd()}${to < text.length ? '…' : ''}`,
+  };
+};
+
+export interface SearchIndex {
+  pages: Map<number, SearchPage>;
+  // Word -> pages it appears on
+  words: Map<string, Set<number>>;
+}
+
+export const createSearchIndex = (): SearchIndex => ({ pages: new Map(), words: new Map() });
+
+export const addToIndex = (index: SearchIndex, page: SearchPage): void => {
+  index.pages.set(page.page, page);
+  tokenize(page.text).forEach((word) => {
+    const pages = index.words.get(word) ?? new Set<number>();
+    pages.add(page.page);
+    index.words.set(word, pages);
+  });
+};
+
+// Pages that have a word for every query word. Unless whole words are required,
+// the first query word may end a longer word and the last may start one (a
+// single word may sit anywhere inside one).
+const getCandidatePages = (index: SearchIndex, query: string, wholeWord: boolean): number[] => {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return Array.from(index.pages.keys());
+
+  let candidates: Set<number> | null = null;
+  tokens.forEach((token, position) => {
+    const isFirst = position === 0;
+    const isLast = position === tokens.length - 1;
+    const pages = new Set<number>();
+
+    if (wholeWord || (!isFirst && !isLast)) {
+      index.words.get(token)?.forEach((page) => pages.add(page));
+    } else {
+      index.words.forEach((wordPages, word) => {
+        const matches = isFirst && isLast ? word.includes(token) : isFirst ? word.endsWith(token) : word.startsWith(token);
+        if (matches) wordPages.forEach((page) => pages.add(page));
+      });
+    }
+    const previous: Set<number> | null = candidates;
+    candidates = previous ? new Set(Array.from(previous).filter((page) => pages.has(page))) : pages;
+  });
+  return Array.from(candidates ?? []);
+};
+
+export const searchIndex = (index: SearchIndex, query: string, options: SearchOptions): SearchResults => {
+  const trimmed = query.trim();
+  if (!trimmed) return { hits: [], truncated: false };
+
+  // Any run of whitespace in the query matches any run in the text, including line breaks
+  const escaped = trimmed.split(/\s+/).map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+');
+  const source = options.wholeWord ? `(?<!${WORD_CHAR})${escaped}(?!${WORD_CHAR})` : escaped;
+  const pattern = new RegExp(source, options.caseSensitive ? 'gu' : 'giu');
+
+  const hits: SearchHit[] = [];
+  const pages = getCandidatePages(index, trimmed, options.wholeWord).sort((a, b) => a - b);
+  for (const pageNumber of pages) {
+    const page = index.pages.get(pageNumber);
+    if (!page) continue;
+    for (const match of page.text.matchAll(pattern)) {
+      if (hits.length === MAX_HITS) return { hits, truncated: true };
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      hits.push({
+        page: pageNumber,
+        start: toLayerOffset(page, start),
+        end: toLayerOffset(page, end),
+        snippet: getSnippet(page.text, start, end),
+      });
+    }
+  }
+  return { hits, truncated: false };
+};
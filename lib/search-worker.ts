@@ -0,0 +1,26 @@
+// Module worker that owns the document's search index. Pages arrive in batches
+// while the main thread extracts their text; searches run against whatever has
+// been indexed so far.
+
+import { addToIndex, createSearchIndex, searchIndex, type SearchOptions, type SearchPage, type SearchResults } from './search-index';
+
+export type SearchWorkerRequest =
+  | { type: 'add'; pages: SearchPage[] }
+  | { type: 'search'; id: number; query: string; options: SearchOptions };
+
+export interface SearchWorkerResponse {
+  id: number;
+  results: SearchResults;
+}
+
+const index = createSearchIndex();
+
+self.addEventListener('message', (event: MessageEvent<SearchWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'add') {
+    request.pages.forEach((page) => addToIndex(index, page));
+    return;
+  }
+  const response: SearchWorkerResponse = { id: request.id, results: searchIndex(index, request.query, request.options) };
+  self.postMessage(response);
+});
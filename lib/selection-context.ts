@@ -0,0 +1,201 @@
+// Context sent along with selected text to the chat and to tool generation:
+// the whole sentences around the selection, kept within its paragraph, and for
+// the book where it was taken from, so flashcards and questions generated from
+// a selection are grounded in the right passage.
+
+import type { PDFDocumentProxy } from './pdf';
+import { createSearchPage, type SearchPage } from './search-index';
+import { resolveTocPage, type PageLabels } from './page-labels';
+import type { TOC } from './schemas';
+
+// Characters of passage kept around a selection
+const MAX_CONTEXT_LENGTH = 1200;
+// Text before the selection that is enough to find its sentences in rendered content
+const MIN_ROOT_TEXT_LENGTH = 200;
+const SENTENCE_END = /[.!?…]+["'”’)\]]*(?=\s|$)/g;
+const PARAGRAPH_BREAK = /\n[ \t]*\n/g;
+const BLOCK_SELECTOR = 'p, li, blockquote, td, th, dd, dt, pre, h1, h2, h3, h4, h5, h6';
+
+// A selection in the book, as text layer offsets on the pages it starts and ends on
+export interface SelectionPosition {
+  startPage: number;
+  start: number;
+  endPage: number;
+  end: number;
+}
+
+const lastMatchEnd = (text: string, pattern: RegExp): number => {
+  let end = 0;
+  for (const match of text.matchAll(pattern)) end = (match.index ?? 0) + match[0].length;
+  return end;
+};
+
+const skipWhitespace = (text: string, offset: number): number => {
+  let index = offset;
+  while (index < text.length && /\s/.test(text[index])) index++;
+  return index;
+};
+
+// Where the sentence containing `offset` starts; paragraphs start sentences too
+const findSentenceStart = (text: string, offset: number): number => {
+  const before = text.slice(0, offset);
+  return skipWhitespace(text, Math.max(lastMatchEnd(before, SENTENCE_END), lastMatchEnd(before, PARAGRAPH_BREAK)));
+};
+
+// Where the sentence running through `offset` ends
+const findSentenceEnd = (text: string, offset: number): number => {
+  const sentenceEnd = new RegExp(SENTENCE_END.source, 'g');
+  sentenceEnd.lastIndex = offset;
+  const match = sentenceEnd.exec(text);
+  const end = match ? match.index + match[0].length : text.length;
+  const paragraphBreak = text.slice(offset, end).search(PARAGRAPH_BREAK);
+  return paragraphBreak === -1 ? end : offset + paragraphBreak;
+};
+
+// Steps back over the whitespace and closing punctuation before `offset`
+const skipBackOverSentenceEnd = (text: string, offset: number): number => {
+  let index = offset;
+  while (index > 0 && /[\s.!?…"'”’)\]]/.test(text[index - 1])) index--;
+  return index;
+};
+
+const crossesParagraph = (text: string, from: number, to: number) => new RegExp(PARAGRAPH_BREAK.source).test(text.slice(from, to));
+
+// The whole sentences that `start`-`end` falls in, growing by neighbouring
+// sentences of the same paragraph while they fit in `maxLength`. A single
+// sentence that is too long is cut around the selection between words.
+export const expandToSentences = (
+  text: string,
+  start: number,
+  end: number,
+  maxLength = MAX_CONTEXT_LENGTH,
+): { start: number; end: number } => {
+  let from = findSentenceStart(text, start);
+  // The selection may end on the sentence's full stop
+  let to = findSentenceEnd(text, Math.max(start, end - 1));
+
+  if (to - from > maxLength) {
+    const side = Math.max(0, Math.floor((maxLength - (end - start)) / 2));
+    let cutFrom = Math.max(from, start - side);
+    if (cutFrom > from && /\S/.test(text[cutFrom - 1])) {
+      const nextSpace = text.slice(cutFrom, start).search(/\s/);
+      cutFrom = nextSpace === -1 ? start : cutFrom + nextSpace + 1;
+    }
+    let cutTo = Math.min(to, end + side);
+    if (cutTo < to && /\S/.test(text[cutTo])) {
+      const lastSpace = text.slice(end, cutTo).search(/\s\S*$/);
+      cutTo = lastSpace === -1 ? end : end + lastSpace;
+    }
+    return { start: cutFrom, end: cutTo };
+  }
+
+  for (let grew = true; grew;) {
+    grew = false;
+    if (from > 0) {
+      const previous = findSentenceStart(text, skipBackOverSentenceEnd(text, from));
+      if (previous < from && to - previous <= maxLength && !crossesParagraph(text, previous, from)) {
+        from = previous;
+        grew = true;
+      }
+    }
+    const nextStart = skipWhitespace(text, to);
+    if (nextStart < text.length) {
+      const next = findSentenceEnd(text, nextStart);
+      if (next > to && next - from <= maxLength && !crossesParagraph(text, to, next)) {
+        to = next;
+        grew = true;
+      }
+    }
+  }
+  return { start: from, end: to };
+};
+
+// Joins line-wrapped text into running text
+const toRunningText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Context of a selection in rendered content such as a tool overlay: the
+// sentences around it within the nearest block (paragraph, list item...), or
+// within the nearest ancestor with enough text when there is no such block
+export const getRangeContext = (range: Range): string => {
+  const common = range.commonAncestorContainer;
+  // Checked by node type, as the range may come from a pop-out window's document
+  let root = common.nodeType === Node.ELEMENT_NODE ? (common as Element) : common.parentElement;
+  if (!root) return toRunningText(range.toString());
+
+  const { ownerDocument } = root;
+  const textBefore = (element: Element) => {
+    const before = ownerDocument.createRange();
+    before.setStart(element, 0);
+    before.setEnd(range.startContainer, range.startOffset);
+    return before.toString();
+  };
+  while (root.parentElement && !root.matches(BLOCK_SELECTOR) && textBefore(root).length < MIN_ROOT_TEXT_LENGTH) {
+    root = root.parentElement;
+  }
+
+  const after = ownerDocument.createRange();
+  after.setStart(range.endContainer, range.endOffset);
+  after.setEnd(root, root.childNodes.length);
+
+  const before = textBefore(root);
+  const selected = range.toString();
+  const text = `${before}${selected}${after.toString()}`;
+  const passage = expandToSentences(text, before.length, before.length + selected.length);
+  return toRunningText(text.slice(passage.start, passage.end));
+};
+
+// The TOC section `page` (a page index) falls in, as "Chapter › Section": the
+// last section starting on or before the page
+export const getSectionTitle = (toc: TOC | undefined, pageLabels: PageLabels | null, page: number): string | null => {
+  let title: string | null = null;
+  toc?.chapters.forEach((chapter) => {
+    chapter.sections?.forEach((section) => {
+      if (resolveTocPage(pageLabels, section.page) <= page) {
+        title = section.title === chapter.title ? chapter.title : `${chapter.title} › ${section.title}`;
+      }
+    });
+  });
+  return title;
+};
+
+const loadPageText = async (pdf: PDFDocumentProxy, pageNumber: number): Promise<SearchPage> => {
+  const page = await pdf.getPage(pageNumber);
+  const content = await page.getTextContent();
+  // Marked-content items carry no text
+  return createSearchPage(pageNumber, content.items.filter((item) => 'str' in item));
+};
+
+// Maps a text layer offset into the page text, which has a newline after each line
+const toPageTextOffset = (page: SearchPage, layerOffset: number): number => {
+  let added = 0;
+  while (added < page.breaks.length && page.breaks[added] - added <= layerOffset) added++;
+  return layerOffset + added;
+};
+
+// Context of a selection in the book. The pages before and after are read too,
+// so sentences that run across a page break are kept whole. Headed by the
+// section and page(s) the selection is on.
+export const getDocumentSelectionContext = async (
+  pdf: PDFDocumentProxy,
+  position: SelectionPosition,
+  location: { pages: string; section: string | null },
+): Promise<string> => {
+  const first = Math.max(1, position.startPage - 1);
+  const last = Math.min(pdf.numPages, position.endPage + 1);
+  const pages = await Promise.all(Array.from({ length: last - first + 1 }, (_, i) => loadPageText(pdf, first + i)));
+
+  // Pages are joined like lines, so a sentence carries on onto the next page
+  let text = '';
+  let start = 0;
+  let end = 0;
+  pages.forEach((page) => {
+    if (text) text += '\n';
+    if (page.page === position.startPage) start = text.length + toPageTextOffset(page, position.start);
+    if (page.page === position.endPage) end = text.length + toPageTextOffset(page, position.end);
+    text += page.text;
+  });
+
+  const passage = expandToSentences(text, start, Math.max(start, end));
+  const heading = [location.section && `Section: ${location.section}`, `Page: ${location.pages}`].filter(Boolean).join('\n');
+  return `${heading}\n\n${toRunningText(text.slice(passage.start, passage.end))}`;
+};
@@ -0,0 +1,20 @@
+// Fisher-Yates shuffle; returns a new array
+export const shuffle = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Never returns the original order, so a puzzle cannot start solved. Items
+// must be distinct (shuffle indices or ids rather than labels).
+export const shuffleUnsolved = <T>(items: T[]): T[] => {
+  if (items.length < 2) return [...items];
+  let shuffled: T[];
+  do {
+    shuffled = shuffle(items);
+  } while (shuffled.every((item, index) => item === items[index]));
+  return shuffled;
+};
@@ -0,0 +1,132 @@
+// Spaced-repetition scheduling for flashcards, following SM-2 with Anki-style
+// four-button grading. Schedules are kept per document in localStorage, keyed
+// by `${toolResponseId}:${cardId}` since card ids are only unique within one
+// generated deck.
+
+import { createLocalStore } from './local-store';
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export interface CardSchedule {
+  ease: number;
+  intervalDays: number;
+  // Consecutive successful reviews; reset by "again"
+  repetitions: number;
+  lapses: number;
+  due: string;
+  lastReviewedAt: string | null;
+}
+
+export type ScheduleMap = Record<string, CardSchedule>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// A failed card comes back within the same session
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+export const getCardKey = (toolResponseId: string, cardId: string) => `${toolResponseId}:${cardId}`;
+
+// Cards that have never been reviewed are due immediately
+export const createSchedule = (now = new Date()): CardSchedule => ({
+  ease: INITIAL_EASE,
+  intervalDays: 0,
+  repetitions: 0,
+  lapses: 0,
+  due: now.toISOString(),
+  lastReviewedAt: null,
+});
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+export const reviewCard = (schedule: CardSchedule, grade: ReviewGrade, now = new Date()): CardSchedule => {
+  const reviewedAt = now.toISOString();
+
+  if (grade === 'again') {
+    return {
+      ease: Math.max(MIN_EASE, schedule.ease - 0.2),
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: schedule.lapses + (schedule.repetitions > 0 ? 1 : 0),
+      due: new Date(now.getTime() + RELEARN_DELAY_MS).toISOString(),
+      lastReviewedAt: reviewedAt,
+    };
+  }
+
+  let ease = schedule.ease;
+  let intervalDays: number;
+  if (grade === 'hard') {
+    ease = Math.max(MIN_EASE, ease - 0.15);
+    intervalDays = schedule.repetitions === 0 ? 1 : Math.max(schedule.intervalDays + 1, Math.round(schedule.intervalDays * 1.2));
+  } else if (grade === 'good') {
+    intervalDays = schedule.repetitions === 0 ? 1 : schedule.repetitions === 1 ? 6 : Math.round(schedule.intervalDays * ease);
+  } else {
+    ease += 0.15;
+    intervalDays = schedule.repetitions === 0 ? 4 : Math.round(Math.max(schedule.intervalDays, 1) * ease * 1.3);
+  }
+
+  return {
+    ease,
+    intervalDays,
+    repetitions: schedule.repetitions + 1,
+    lapses: schedule.lapses,
+    due: addDays(now, intervalDays).toISOString(),
+    lastReviewedAt: reviewedAt,
+  };
+};
+
+export const endOfToday = (now = new Date()) => {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
+// "Due today" means due at any point before local midnight
+export const isDueToday = (schedule: CardSchedule | undefined, now = new Date()) => {
+  return !schedule || Date.parse(schedule.due) <= endOfToday(now).getTime();
+};
+
+// Short label for the interval a grade would produce, e.g. "10m", "1d", "3mo"
+export const formatInterval = (schedule: CardSchedule, now = new Date()): string => {
+  const ms = Date.parse(schedule.due) - now.getTime();
+  if (ms < 60 * 60 * 1000) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  if (ms < DAY_MS) return `${Math.round(ms / (60 * 60 * 1000))}h`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
+
+const schedulesStore = createLocalStore<ScheduleMap>({
+  prefix: 'srs-schedules',
+  empty: () => ({}),
+  parse: (stored) => stored as ScheduleMap,
+  description: 'flashcard schedules',
+});
+
+export const readSchedules = schedulesStore.read;
+export const updateSchedules = schedulesStore.update;
+export const subscribeToSchedules = schedulesStore.subscribe;
+
+// Carries review progress over when a deck is replaced by a revision. Cards
+// keep their ids across revisions; schedules of cards that were dropped (or of
+// the whole deck, when `toDeckId` is null) are discarded.
+export const rekeySchedules = (documentId: string, fromDeckId: string, toDeckId: string | null, cardIds: string[]): void => {
+  const prefix = getCardKey(fromDeckId, '');
+  updateSchedules(documentId, (schedules) => {
+    const next: ScheduleMap = {};
+    Object.entries(schedules).forEach(([key, schedule]) => {
+      if (!key.startsWith(prefix)) {
+        next[key] = schedule;
+        return;
+      }
+      const cardId = key.slice(prefix.length);
+      if (toDeckId && cardIds.includes(cardId)) {
+        next[getCardKey(toDeckId, cardId)] = schedule;
+      }
+    });
+    return next;
+  });
+};
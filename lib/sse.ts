@@ -0,0 +1,58 @@
+// Minimal reader for `text/event-stream` bodies. EventSource cannot send POST
+// bodies or auth headers, so streamed endpoints are read through fetch instead.
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+export const readEventStream = async (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> => {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let eventName = '';
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventName || 'message', data: dataLines.join('\n') });
+    }
+    eventName = '';
+    dataLines = [];
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    // Lines starting with a colon are keep-alive comments
+    if (line.startsWith(':')) return;
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? '' : line.slice(separator + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'event') eventName = value;
+    else if (field === 'data') dataLines.push(value);
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      const lines = buffer.split(/\r?\n/);
+      // The last entry may be an incomplete line; keep it for the next chunk
+      buffer = lines.pop() ?? '';
+      lines.forEach(processLine);
+    }
+    // An event without its terminating blank line was cut off and is dropped
+  } finally {
+    reader.releaseLock();
+  }
+};
@@ -0,0 +1,129 @@
+// Finds passages in a rendered pdf.js text layer and wraps them in highlight
+// spans, for cited passages, the reader's own annotations and search hits. Text layer items
+// are positioned fragments whose spacing rarely matches the source text, so
+// passage matching ignores whitespace and case.
+
+const HIGHLIGHT_CLASS = 'text-highlight';
+const ANNOTATION_CLASS = 'annotation-highlight';
+const SEARCH_HIT_CLASS = 'search-hit';
+
+interface TextNodeSpan {
+  node: Text;
+  start: number;
+}
+
+const normalizeForMatch = (text: string) => text.replace(/\s+/g, '').toLowerCase();
+
+const collectTextNodes = (container: HTMLElement): { text: string; nodes: TextNodeSpan[] } => {
+  const walker = container.ownerDocument.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+  const nodes: TextNodeSpan[] = [];
+  let text = '';
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    nodes.push({ node: node as Text, start: text.length });
+    text += node.nodeValue ?? '';
+  }
+  return { text, nodes };
+};
+
+// Text of the layer as one string; offsets into it are stable across renders of
+// the same page, which is what saved annotations are anchored to
+export const getLayerText = (container: HTMLElement): string => collectTextNodes(container).text;
+
+// Offset within the layer text of a boundary point (`node`, `offset`) inside the layer
+export const getLayerOffset = (container: HTMLElement, node: Node, offset: number): number => {
+  const before = container.ownerDocument.createRange();
+  before.setStart(container, 0);
+  before.setEnd(node, offset);
+  return before.toString().length;
+};
+
+// Offsets of `range` within the layer text, or null when it is not inside the layer
+export const getRangeOffsets = (container: HTMLElement, range: Range): { start: number; end: number } | null => {
+  if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return null;
+  const start = getLayerOffset(container, range.startContainer, range.startOffset);
+  const end = getLayerOffset(container, range.endContainer, range.endOffset);
+  return end > start ? { start, end } : null;
+};
+
+// Finds `passage` in `text` ignoring whitespace and case; returns raw offsets
+export const findPassage = (text: string, passage: string): { start: number; end: number } | null => {
+  const needle = normalizeForMatch(passage);
+  if (!needle) return null;
+
+  // Map each non-whitespace character back to its offset in the raw text
+  const rawOffsets: number[] = [];
+  let haystack = '';
+  for (let i = 0; i < text.length; i++) {
+    if (!/\s/.test(text[i])) {
+      rawOffsets.push(i);
+      haystack += text[i].toLowerCase();
+    }
+  }
+
+  const matchIndex = haystack.indexOf(needle);
+  if (matchIndex === -1) return null;
+  return { start: rawOffsets[matchIndex], end: rawOffsets[matchIndex + needle.length - 1] + 1 };
+};
+
+const clearMarks = (container: HTMLElement, className: string) => {
+  container.querySelectorAll(`span.${className}`).forEach((mark) => {
+    mark.replaceWith(...Array.from(mark.childNodes));
+  });
+  container.normalize();
+};
+
+// Wraps the layer text between the raw offsets in spans, one per text node, and
+// returns them in document order
+const wrapTextRange = (container: HTMLElement, rawStart: number, rawEnd: number, className: string): HTMLElement[] => {
+  const { nodes } = collectTextNodes(container);
+  const marks: HTMLElement[] = [];
+  nodes.forEach(({ node, start }) => {
+    const end = start + (node.nodeValue?.length ?? 0);
+    if (end <= rawStart || start >= rawEnd) return;
+
+    const range = container.ownerDocument.createRange();
+    range.setStart(node, Math.max(rawStart, start) - start);
+    range.setEnd(node, Math.min(rawEnd, end) - start);
+    const mark = container.ownerDocument.createElement('span');
+    mark.className = className;
+    range.surroundContents(mark);
+    marks.push(mark);
+  });
+  return marks;
+};
+
+export const clearTextHighlights = (container: HTMLElement): void => {
+  clearMarks(container, HIGHLIGHT_CLASS);
+};
+
+// Highlights the first occurrence of `passage` and returns the first highlight
+// element, or null when the passage is not on this page
+export const highlightTextInLayer = (container: HTMLElement, passage: string): HTMLElement | null => {
+  const match = findPassage(getLayerText(container), passage);
+  if (!match) return null;
+  return wrapTextRange(container, match.start, match.end, HIGHLIGHT_CLASS)[0] ?? null;
+};
+
+export const clearAnnotationMarks = (container: HTMLElement): void => {
+  clearMarks(container, ANNOTATION_CLASS);
+};
+
+// Marks a saved annotation; the marks carry its id and colour for styling and clicks
+export const markAnnotation = (container: HTMLElement, id: string, color: string, hasNote: boolean, start: number, end: number): void => {
+  wrapTextRange(container, start, end, ANNOTATION_CLASS).forEach((mark) => {
+    mark.dataset.annotationId = id;
+    mark.dataset.color = color;
+    if (hasNote) mark.dataset.note = '';
+  });
+};
+
+export const clearSearchHits = (container: HTMLElement): void => {
+  clearMarks(container, SEARCH_HIT_CLASS);
+};
+
+// Marks a search hit and returns its first mark, e.g. to scroll the current hit into view
+export const markSearchHit = (container: HTMLElement, start: number, end: number, isActive: boolean): HTMLElement | null => {
+  const marks = wrapTextRange(container, start, end, SEARCH_HIT_CLASS);
+  if (isActive) marks.forEach((mark) => mark.classList.add('is-active'));
+  return marks[0] ?? null;
+};
@@ -0,0 +1,62 @@
+// Zoom of the PDF viewer. A zoom of 1 shows pages at their printed size; the fit
+// modes follow the viewer's size instead of a fixed zoom. The setting is kept
+// in localStorage per document.
+
+import { createLocalStore } from './local-store';
+
+export type ZoomMode = 'custom' | 'fit-width' | 'fit-page';
+
+export interface ZoomSetting {
+  mode: ZoomMode;
+  // Used in `custom` mode
+  zoom: number;
+}
+
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 4;
+
+// Stops of the zoom in/out buttons; the menu offers the same presets
+export const ZOOM_STEPS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+
+export const DEFAULT_ZOOM: ZoomSetting = { mode: 'custom', zoom: 1 };
+
+export const clampZoom = (zoom: number): number => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+// The next stop above (`direction` 1) or below (-1) the current zoom
+export const stepZoom = (zoom: number, direction: 1 | -1): number => {
+  const next = direction === 1
+    ? ZOOM_STEPS.find((step) => step > zoom + 0.001)
+    : [...ZOOM_STEPS].reverse().find((step) => step < zoom - 0.001);
+  return next ?? (direction === 1 ? MAX_ZOOM : MIN_ZOOM);
+};
+
+// Zoom at which `columns` pages of `pageWidth` x `pageHeight` (CSS pixels at a
+// zoom of 1), `gap` apart, fill the available width, or the whole view for fit-page
+export const getFitZoom = (
+  mode: Exclude<ZoomMode, 'custom'>,
+  view: { width: number; height: number },
+  page: { width: number; height: number; columns: number; gap: number },
+): number => {
+  const widthZoom = (view.width - page.gap * (page.columns - 1)) / (page.width * page.columns);
+  const zoom = mode === 'fit-width' ? widthZoom : Math.min(widthZoom, view.height / page.height);
+  return clampZoom(zoom);
+};
+
+const parseZoomSetting = (stored: unknown): ZoomSetting => {
+  const setting = stored as Partial<ZoomSetting> | null;
+  if (!setting || !['custom', 'fit-width', 'fit-page'].includes(setting.mode ?? '')) return DEFAULT_ZOOM;
+  return {
+    mode: setting.mode as ZoomMode,
+    zoom: typeof setting.zoom === 'number' ? clampZoom(setting.zoom) : DEFAULT_ZOOM.zoom,
+  };
+};
+
+const zoomStore = createLocalStore<ZoomSetting>({
+  prefix: 'viewer-zoom',
+  empty: () => DEFAULT_ZOOM,
+  parse: parseZoomSetting,
+  description: 'the zoom level',
+});
+
+export const readZoomSetting = zoomStore.read;
+export const writeZoomSetting = zoomStore.write;
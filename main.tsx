@@ -1,10 +1,15 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import { ApiContext, createDefaultApi } from './lib/api-context'
 import './styles/globals.css'
 
+const api = createDefaultApi()
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    <ApiContext.Provider value={api}>
+      <App />
+    </ApiContext.Provider>
   </React.StrictMode>,
 )
\ No newline at end of file